@@ -3,6 +3,7 @@ module design_package::design_registry {
     use sui::transfer;
     use sui::tx_context::{Self, TxContext};
     use sui::dynamic_object_field as dof;
+    use sui::dynamic_field as df;
     use std::string::{Self as string, String};
     use std::option;
     use sui::event;
@@ -23,6 +24,18 @@ module design_package::design_registry {
         published_at: option::Option<u64>,
     }
 
+    /// Key of a superseded version, kept as a dynamic field of its design
+    public struct VersionKey has copy, drop, store {
+        version: u64
+    }
+
+    /// A version of a design that a later update replaced
+    public struct DesignVersion has store, drop {
+        version: u64,
+        blob_id: String,
+        updated_at: u64,
+    }
+
     /// Registry to keep track of all designs
     public struct DesignRegistry has key {
         id: UID
@@ -34,6 +47,7 @@ module design_package::design_registry {
     const E_DESIGN_NOT_FOUND: u64 = 2;
     const E_ACCESS_DENIED: u64 = 3;
     const E_INVALID_POLICY: u64 = 4;
+    const E_VERSION_NOT_FOUND: u64 = 5;
 
     // Events
     public struct DesignCreated has copy, drop {
@@ -109,6 +123,14 @@ module design_package::design_registry {
         assert!(is_owner(registry, design_id, ctx), E_NOT_OWNER);
 
         let design = dof::borrow_mut<ID, DesignMetadata>(&mut registry.id, design_id);
+        // Keep the version being replaced, so every blob the design had stays reachable
+        let previous = DesignVersion {
+            version: design.version,
+            blob_id: design.blob_id,
+            updated_at: design.updated_at,
+        };
+        df::add(&mut design.id, VersionKey { version: design.version }, previous);
+
         design.blob_id = new_blob_id;
         design.version = design.version + 1;
         design.updated_at = tx_context::epoch_timestamp_ms(ctx);
@@ -119,6 +141,18 @@ module design_package::design_registry {
         });
     }
 
+    /// Make a past version the current one. Recorded as a new version, so the
+    /// version it replaces stays in the history too.
+    public entry fun restore_design_version(
+        registry: &mut DesignRegistry,
+        design_id: ID,
+        version: u64,
+        ctx: &mut TxContext
+    ) {
+        let (blob_id, _updated_at) = get_design_version(registry, design_id, version);
+        update_design(registry, design_id, blob_id, ctx);
+    }
+
     /// Publish a design (make it public)
     public entry fun publish_design(
         registry: &mut DesignRegistry,
@@ -158,6 +192,20 @@ module design_package::design_registry {
         )
     }
 
+    /// Blob ID and update time of a past version; versions run from 1 up to the current one
+    public fun get_design_version(
+        registry: &DesignRegistry,
+        design_id: ID,
+        version: u64,
+    ): (String, u64) {
+        let design = dof::borrow<ID, DesignMetadata>(&registry.id, design_id);
+        let key = VersionKey { version };
+        assert!(df::exists_(&design.id, key), E_VERSION_NOT_FOUND);
+
+        let past = df::borrow<VersionKey, DesignVersion>(&design.id, key);
+        (past.blob_id, past.updated_at)
+    }
+
     /// Check if the sender is the owner of a design
     fun is_owner(registry: &DesignRegistry, design_id: ID, ctx: &TxContext): bool {
         let design = dof::borrow<ID, DesignMetadata>(&registry.id, design_id);
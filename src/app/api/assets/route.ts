@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import { WalletAsset } from '@/models/WalletAsset';
+
+// Stored copies of the given content hashes among the wallet's assets
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const walletAddress = searchParams.get('walletAddress');
+    const hashes = searchParams.get('hashes')?.split(',').filter(Boolean) ?? [];
+
+    if (!walletAddress) {
+      return NextResponse.json({ error: 'Wallet address is required' }, { status: 400 });
+    }
+
+    if (hashes.length === 0) {
+      return NextResponse.json({ assets: [] });
+    }
+
+    await connectDB();
+
+    const assets = await WalletAsset.find({ walletAddress, hash: { $in: hashes } })
+      .select('hash quiltId identifier contentType size blobObjectId expiryEpoch')
+      .lean();
+
+    return NextResponse.json({ assets });
+  } catch (error) {
+    console.error('Error fetching wallet assets:', error);
+    return NextResponse.json({ error: 'Failed to fetch wallet assets' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { walletAddress, assets } = body;
+
+    if (!walletAddress || !Array.isArray(assets)) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    await connectDB();
+
+    // A file is only uploaded again when its stored copy expires too soon, so the new copy
+    // replaces it; designs saved earlier keep referring to the copy they were saved with
+    await WalletAsset.bulkWrite(assets.map((asset: any) => ({
+      updateOne: {
+        filter: { walletAddress, hash: asset.hash },
+        update: {
+          $set: {
+            walletAddress,
+            hash: asset.hash,
+            quiltId: asset.quiltId,
+            identifier: asset.identifier,
+            contentType: asset.contentType,
+            size: asset.size,
+            blobObjectId: asset.blobObjectId,
+            expiryEpoch: asset.expiryEpoch
+          }
+        },
+        upsert: true
+      }
+    })));
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error saving wallet assets:', error);
+    return NextResponse.json({ error: 'Failed to save wallet assets' }, { status: 500 });
+  }
+}
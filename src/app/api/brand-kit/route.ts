@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import { BrandKit } from '@/models/BrandKit';
+import { normalizeBrandKit } from '@/utils/brandKit';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const walletAddress = searchParams.get('walletAddress');
+
+    if (!walletAddress) {
+      return NextResponse.json({ error: 'Wallet address is required' }, { status: 400 });
+    }
+
+    await connectDB();
+
+    const brandKit = await BrandKit.findOne({ walletAddress }).lean();
+
+    // A wallet without a saved kit gets null, and the editor offers a starter kit
+    return NextResponse.json({ brandKit: brandKit ? normalizeBrandKit(brandKit) : null });
+  } catch (error) {
+    console.error('Error fetching brand kit:', error);
+    return NextResponse.json({ error: 'Failed to fetch brand kit' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { walletAddress, brandKit } = body;
+
+    if (!walletAddress || !brandKit) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    await connectDB();
+
+    const saved = await BrandKit.findOneAndUpdate(
+      { walletAddress },
+      { walletAddress, ...normalizeBrandKit(brandKit) },
+      { new: true, upsert: true, runValidators: true }
+    ).lean();
+
+    return NextResponse.json({
+      success: true,
+      brandKit: normalizeBrandKit(saved)
+    });
+  } catch (error) {
+    console.error('Error saving brand kit:', error);
+    return NextResponse.json({ error: 'Failed to save brand kit' }, { status: 500 });
+  }
+}
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import connectDB from '@/lib/mongodb';
-import { UserDesign } from '@/models/UserDesign';
+import { UserDesign, type IUserDesign } from '@/models/UserDesign';
+import { DesignVersion, ensureDesignVersions } from '@/models/DesignVersion';
+import { WalletAsset } from '@/models/WalletAsset';
+import { getDesignSummary } from '@/utils/designDocument';
 
 export async function GET(
   request: NextRequest,
@@ -31,3 +34,160 @@ export async function GET(
     return NextResponse.json({ error: 'Failed to load design' }, { status: 500 });
   }
 }
+
+// Save a new version of the design; the versions before it stay in its history
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ designId: string }> }
+) {
+  try {
+    const { designId } = await params;
+    const body = await request.json();
+    const { name, canvasData, blobId, blobObjectId, expiryEpoch, assetBlobs, thumbnail } = body;
+
+    if (!designId || !canvasData) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    await connectDB();
+
+    const design = await UserDesign.findOne({ designId });
+
+    if (!design) {
+      return NextResponse.json({ error: 'Design not found' }, { status: 404 });
+    }
+
+    await ensureDesignVersions(design);
+
+    // Reserve the version number atomically, so saves running at once each get their own;
+    // designs saved before version history are at version 1
+    await UserDesign.updateOne({ designId, version: { $exists: false } }, { $set: { version: 1 } });
+    const reserved = await UserDesign.findOneAndUpdate({ designId }, { $inc: { version: 1 } }, { new: true });
+    if (!reserved) {
+      return NextResponse.json({ error: 'Design not found' }, { status: 404 });
+    }
+
+    // The version record comes first, so a failed save leaves the current design as it was
+    try {
+      await DesignVersion.create({
+        designId,
+        walletAddress: reserved.walletAddress,
+        version: reserved.version,
+        name: name || reserved.name,
+        canvasData,
+        blobId,
+        thumbnail
+      });
+    } catch (error) {
+      await UserDesign.updateOne({ designId, version: reserved.version }, { $inc: { version: -1 } });
+      throw error;
+    }
+
+    // A save that reserved a later version meanwhile holds the current state instead; the
+    // save hook doesn't run on updates, so the summary is refreshed here
+    const blobFields = Object.entries({ blobId, blobObjectId, expiryEpoch });
+    // Updates drop undefined values, so the previous version's blob is cleared explicitly
+    const clearedFields = blobFields.filter(([, value]) => value === undefined).map(([key]) => [key, 1]);
+    const savedDesign = await UserDesign.findOneAndUpdate(
+      { designId, version: reserved.version },
+      {
+        $set: {
+          name: name || reserved.name,
+          canvasData,
+          ...Object.fromEntries(blobFields.filter(([, value]) => value !== undefined)),
+          assetBlobs: assetBlobs || [],
+          metadata: {
+            ...getDesignSummary(canvasData),
+            lastModified: new Date()
+          }
+        },
+        ...(clearedFields.length > 0 && { $unset: Object.fromEntries(clearedFields) })
+      },
+      { new: true }
+    ) || await UserDesign.findOne({ designId });
+
+    return NextResponse.json({
+      success: true,
+      designId,
+      design: savedDesign.toObject()
+    });
+  } catch (error) {
+    console.error('Error saving design version:', error);
+    return NextResponse.json({ error: 'Failed to save design version' }, { status: 500 });
+  }
+}
+
+// Record that the design's Walrus blobs were kept stored for longer, or which registry object
+// keeps its versions on-chain
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ designId: string }> }
+) {
+  try {
+    const { designId } = await params;
+    const body = await request.json();
+    const { blobs, designObjectId } = body;
+
+    if (!designId || (!designObjectId && (!Array.isArray(blobs) || blobs.length === 0))) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    await connectDB();
+
+    if (designObjectId) {
+      const linkedDesign = await UserDesign.findOneAndUpdate({ designId }, { $set: { designObjectId } }, { new: true });
+      if (!linkedDesign) {
+        return NextResponse.json({ error: 'Design not found' }, { status: 404 });
+      }
+      return NextResponse.json({
+        success: true,
+        designId,
+        design: linkedDesign.toObject()
+      });
+    }
+
+    const design = await UserDesign.findOne({ designId });
+
+    if (!design) {
+      return NextResponse.json({ error: 'Design not found' }, { status: 404 });
+    }
+
+    const expiries = new Map<string, number>(
+      blobs.map((blob: { blobObjectId: string; expiryEpoch: number }) => [blob.blobObjectId, blob.expiryEpoch])
+    );
+    const assetBlobs: IUserDesign['assetBlobs'] = design.assetBlobs || [];
+
+    // A newer version may have been saved to other blobs in the meantime
+    const belongsToDesign = (blobObjectId: string) =>
+      blobObjectId === design.blobObjectId || assetBlobs.some(blob => blob.blobObjectId === blobObjectId);
+    if (!Array.from(expiries.keys()).every(belongsToDesign)) {
+      return NextResponse.json({ error: 'Blob object does not belong to the design' }, { status: 409 });
+    }
+
+    if (design.blobObjectId && expiries.has(design.blobObjectId)) {
+      design.expiryEpoch = expiries.get(design.blobObjectId);
+    }
+    design.assetBlobs = assetBlobs.map(blob => ({
+      blobObjectId: blob.blobObjectId,
+      expiryEpoch: expiries.get(blob.blobObjectId) ?? blob.expiryEpoch
+    }));
+    const savedDesign = await design.save();
+
+    // Other designs can keep reusing the assets in these blobs for as long
+    await WalletAsset.bulkWrite(Array.from(expiries, ([blobObjectId, expiryEpoch]) => ({
+      updateMany: {
+        filter: { walletAddress: design.walletAddress, blobObjectId },
+        update: { $max: { expiryEpoch } }
+      }
+    })));
+
+    return NextResponse.json({
+      success: true,
+      designId,
+      design: savedDesign.toObject()
+    });
+  } catch (error) {
+    console.error('Error updating design expiry:', error);
+    return NextResponse.json({ error: 'Failed to update design expiry' }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import { DesignVersion } from '@/models/DesignVersion';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ designId: string; version: string }> }
+) {
+  try {
+    const { designId, version } = await params;
+    const versionNumber = Number(version);
+
+    if (!designId || !Number.isInteger(versionNumber)) {
+      return NextResponse.json({ error: 'Design ID and version are required' }, { status: 400 });
+    }
+
+    await connectDB();
+
+    const designVersion = await DesignVersion.findOne({ designId, version: versionNumber }).lean();
+
+    if (!designVersion) {
+      return NextResponse.json({ error: 'Design version not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ canvasData: (designVersion as any).canvasData });
+  } catch (error) {
+    console.error('Error loading design version:', error);
+    return NextResponse.json({ error: 'Failed to load design version' }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import { UserDesign } from '@/models/UserDesign';
+import { DesignVersion, ensureDesignVersions } from '@/models/DesignVersion';
+
+// The design's saved versions, newest first, without their canvas data
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ designId: string }> }
+) {
+  try {
+    const { designId } = await params;
+
+    if (!designId) {
+      return NextResponse.json({ error: 'Design ID is required' }, { status: 400 });
+    }
+
+    await connectDB();
+
+    const design = await UserDesign.findOne({ designId });
+
+    if (!design) {
+      return NextResponse.json({ error: 'Design not found' }, { status: 404 });
+    }
+
+    await ensureDesignVersions(design);
+
+    const versions = await DesignVersion
+      .find({ designId })
+      .select('version name blobId thumbnail createdAt')
+      .sort({ version: -1 })
+      .lean();
+
+    return NextResponse.json({ versions });
+  } catch (error) {
+    console.error('Error fetching design versions:', error);
+    return NextResponse.json({ error: 'Failed to fetch design versions' }, { status: 500 });
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import connectDB from '@/lib/mongodb';
 import { UserDesign } from '@/models/UserDesign';
+import { DesignVersion } from '@/models/DesignVersion';
+import { getDesignSummary } from '@/utils/designDocument';
 
 export async function GET(request: NextRequest) {
   try {
@@ -28,7 +30,7 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { walletAddress, name, canvasData, blobId } = body;
+    const { walletAddress, name, canvasData, blobId, blobObjectId, expiryEpoch, assetBlobs, thumbnail } = body;
 
     if (!walletAddress || !name || !canvasData) {
       return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
@@ -44,17 +46,27 @@ export async function POST(request: NextRequest) {
       name,
       canvasData,
       blobId,
+      blobObjectId,
+      expiryEpoch,
+      assetBlobs: assetBlobs || [],
       metadata: {
-        canvasSize: {
-          width: canvasData.width || 800,
-          height: canvasData.height || 600
-        },
-        elementCount: canvasData.objects ? canvasData.objects.length : 0,
+        ...getDesignSummary(canvasData),
         lastModified: new Date()
       }
     });
 
     const savedDesign = await design.save();
+
+    // The first save is version 1 of the design's history
+    await DesignVersion.create({
+      designId,
+      walletAddress,
+      version: 1,
+      name,
+      canvasData,
+      blobId,
+      thumbnail
+    });
     
     return NextResponse.json({ 
       success: true, 
@@ -84,6 +96,8 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: 'Design not found' }, { status: 404 });
     }
 
+    await DesignVersion.deleteMany({ designId });
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Error deleting design:', error);
@@ -0,0 +1,340 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Cloud, Pencil, Plus, RotateCcw, Trash2, Upload, X } from 'lucide-react';
+import CollapsibleSection from '../retro-ui/collapsible-section';
+import { fabric } from '@/lib/fabric';
+import { isTextObject } from '@/lib/typography';
+import { cn, generateId, readFileAsDataURL } from '@/utils/helpers';
+import { MAX_LOGO_SIZE, createBrandPalette, type BrandPalette } from '@/utils/brandKit';
+import { getDesignFonts, getFontInfo, loadFont, updateTextFontFamily } from '@/utils/fontLoader';
+import { useBrandKit } from '@/hooks/useBrandKit';
+import FontPicker from './FontPicker';
+
+interface BrandKitPanelProps {
+  canvas: fabric.Canvas | null;
+  onAddText: (text: string, options?: any) => void;
+  onAddImage: (url: string) => void;
+  onSetBackgroundColor: (color: string) => void;
+}
+
+type FontRole = 'heading' | 'body';
+
+// Text added from the kit when nothing is selected
+const FONT_ROLE_TEXT: Record<FontRole, { text: string; fontSize: number; fontWeight: string }> = {
+  heading: { text: 'Heading', fontSize: 40, fontWeight: 'bold' },
+  body: { text: 'Body text', fontSize: 18, fontWeight: 'normal' },
+};
+
+const inputClass = "w-full px-2 py-1 text-sm border-2 border-[var(--retro-border)] rounded-md focus:outline-none focus:ring-2 focus:ring-[var(--retro-accent)] bg-[var(--retro-bg)] text-[var(--retro-text)]";
+
+export default function BrandKitPanel({ canvas, onAddText, onAddImage, onSetBackgroundColor }: BrandKitPanelProps) {
+  const {
+    brandKit,
+    walletAddress,
+    isLoading,
+    isSaving,
+    isBackingUp,
+    error,
+    updateBrandKit,
+    backupToWalrus,
+    restoreFromWalrus
+  } = useBrandKit();
+  const [isEditing, setIsEditing] = useState(false);
+  const [newColors, setNewColors] = useState<Record<string, string>>({});
+  const [encryptBackup, setEncryptBackup] = useState(true);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // One click colors the selection's fill, or the page background when nothing is selected
+  const applyColor = (color: string) => {
+    const objects = canvas?.getActiveObjects() || [];
+    if (!canvas || objects.length === 0) {
+      onSetBackgroundColor(color);
+      return;
+    }
+
+    objects.forEach(object => {
+      // Lines and unfilled paths are drawn by their stroke
+      const key = object.type === 'line' || (!object.fill && object.stroke) ? 'stroke' : 'fill';
+      object.set(key, color);
+      object.dirty = true;
+    });
+    canvas.requestRenderAll();
+    canvas.fire('object:modified', { target: canvas.getActiveObject() });
+  };
+
+  // Restyle the selected text, or add a new text in the brand font
+  const applyFont = async (role: FontRole) => {
+    if (!canvas) return;
+    const fontName = role === 'heading' ? brandKit.headingFont : brandKit.bodyFont;
+    const texts = canvas.getActiveObjects().filter(isTextObject);
+
+    if (texts.length === 0) {
+      const fontInfo = getFontInfo(fontName);
+      if (fontInfo) await loadFont(fontInfo);
+      const { text, fontSize, fontWeight } = FONT_ROLE_TEXT[role];
+      onAddText(text, { fontFamily: fontName, fontSize, fontWeight, originalFontSize: fontSize });
+      return;
+    }
+
+    for (const text of texts) {
+      await updateTextFontFamily(text, fontName, canvas);
+    }
+    canvas.fire('object:modified', { target: canvas.getActiveObject() });
+  };
+
+  const setFont = (role: FontRole, fontName: string) => {
+    const headingFont = role === 'heading' ? fontName : brandKit.headingFont;
+    const bodyFont = role === 'body' ? fontName : brandKit.bodyFont;
+    updateBrandKit({
+      headingFont,
+      bodyFont,
+      fonts: getDesignFonts(Array.from(new Set([headingFont, bodyFont])))
+    });
+  };
+
+  const updatePalette = (id: string, updates: Partial<BrandPalette>) => {
+    updateBrandKit({
+      palettes: brandKit.palettes.map(palette => (palette.id === id ? { ...palette, ...updates } : palette))
+    });
+  };
+
+  const addPalette = () => {
+    updateBrandKit({ palettes: [...brandKit.palettes, createBrandPalette(`Palette ${brandKit.palettes.length + 1}`)] });
+  };
+
+  const handleLogoFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (!file.type.startsWith('image/')) {
+      setMessage('❌ Please choose an image file.');
+      return;
+    }
+    if (file.size > MAX_LOGO_SIZE) {
+      setMessage(`❌ Logos can be up to ${MAX_LOGO_SIZE / (1024 * 1024)} MB.`);
+      return;
+    }
+
+    try {
+      const source = await readFileAsDataURL(file);
+      const logo = { id: generateId(), name: file.name.replace(/\.[^.]+$/, ''), source };
+      setMessage(null);
+      updateBrandKit({ logos: [...brandKit.logos, logo] });
+    } catch (err) {
+      console.error('Failed to read logo:', err);
+      setMessage('❌ Could not read the image.');
+    }
+  };
+
+  const handleBackup = async () => {
+    try {
+      setMessage(null);
+      const blobId = await backupToWalrus(encryptBackup);
+      setMessage(`✅ Brand kit saved to Walrus: ${blobId}`);
+    } catch (err) {
+      setMessage(`❌ Walrus backup failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  if (!walletAddress) {
+    return (
+      <CollapsibleSection title="Brand Kit" defaultExpanded={false}>
+        <p className="text-xs text-[var(--retro-text)] text-center">Connect a wallet to use your brand kit.</p>
+      </CollapsibleSection>
+    );
+  }
+
+  return (
+    <CollapsibleSection title="Brand Kit" defaultExpanded={false}>
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-[var(--retro-text)]">
+            {isLoading ? 'Loading…' : isSaving ? 'Saving…' : 'Click to apply'}
+          </span>
+          <button
+            onClick={() => setIsEditing(editing => !editing)}
+            className={cn("retro-button flex items-center space-x-1 px-2 py-1 text-xs", isEditing && "bg-[var(--retro-accent)]")}
+          >
+            <Pencil className="w-3 h-3" />
+            <span>{isEditing ? 'Done' : 'Edit'}</span>
+          </button>
+        </div>
+
+        {/* Palettes */}
+        {brandKit.palettes.map(palette => (
+          <div key={palette.id} className="space-y-2">
+            {isEditing ? (
+              <div className="flex items-center space-x-1">
+                <input
+                  type="text"
+                  value={palette.name}
+                  onChange={(e) => updatePalette(palette.id, { name: e.target.value })}
+                  className={inputClass}
+                />
+                <button
+                  onClick={() => updateBrandKit({ palettes: brandKit.palettes.filter(p => p.id !== palette.id) })}
+                  className="p-1 text-[var(--retro-text)] hover:text-red-600"
+                  title="Delete palette"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ) : (
+              <h4 className="text-xs font-bold text-[var(--retro-text)]">{palette.name}</h4>
+            )}
+            <div className="grid grid-cols-6 gap-2">
+              {palette.colors.map((color, index) => (
+                <div key={`${color}-${index}`} className="relative">
+                  <button
+                    onClick={() => applyColor(color)}
+                    className="w-8 h-8 rounded-full border-2 border-gray-600 hover:scale-110 transition-transform shadow-sm"
+                    style={{ backgroundColor: color }}
+                    title={color}
+                  />
+                  {isEditing && (
+                    <button
+                      onClick={() => updatePalette(palette.id, { colors: palette.colors.filter((_, i) => i !== index) })}
+                      className="absolute -top-1 -right-1 w-4 h-4 flex items-center justify-center bg-white border border-gray-400 rounded-full"
+                      title="Remove color"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  )}
+                </div>
+              ))}
+              {palette.colors.length === 0 && !isEditing && (
+                <span className="col-span-6 text-xs text-[var(--retro-text)]">No colors yet</span>
+              )}
+            </div>
+            {isEditing && (
+              <div className="flex items-center space-x-2">
+                <input
+                  type="color"
+                  value={newColors[palette.id] || '#000000'}
+                  onChange={(e) => setNewColors(prev => ({ ...prev, [palette.id]: e.target.value }))}
+                  className="w-8 h-8 border border-gray-300 rounded cursor-pointer"
+                />
+                <button
+                  onClick={() => updatePalette(palette.id, { colors: [...palette.colors, newColors[palette.id] || '#000000'] })}
+                  className="retro-button flex-1 flex items-center justify-center space-x-1 p-1 text-xs"
+                >
+                  <Plus className="w-3 h-3" />
+                  <span>Add Color</span>
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+        {isEditing && (
+          <button onClick={addPalette} className="retro-button w-full flex items-center justify-center space-x-1 p-2 text-xs">
+            <Plus className="w-3 h-3" />
+            <span>New Palette</span>
+          </button>
+        )}
+
+        {/* Fonts */}
+        <div className="space-y-2">
+          <h4 className="text-xs font-bold text-[var(--retro-text)]">Fonts</h4>
+          {(['heading', 'body'] as const).map(role => {
+            const fontName = role === 'heading' ? brandKit.headingFont : brandKit.bodyFont;
+            return isEditing ? (
+              <div key={role}>
+                <label className="block text-xs text-[var(--retro-text)] mb-1">{role === 'heading' ? 'Heading' : 'Body'}</label>
+                <FontPicker value={fontName} onChange={(name) => setFont(role, name)} />
+              </div>
+            ) : (
+              <button
+                key={role}
+                onClick={() => applyFont(role)}
+                className="retro-button w-full flex items-center justify-between p-2 hover:bg-[var(--retro-accent)]"
+                title="Apply to the selected text, or add new text"
+              >
+                <span className="text-xs">{role === 'heading' ? 'Heading' : 'Body'}</span>
+                <span
+                  className={cn("truncate ml-2", role === 'heading' ? "text-lg font-bold" : "text-sm")}
+                  style={{ fontFamily: `"${fontName}", ${getFontInfo(fontName)?.fallback || 'sans-serif'}` }}
+                >
+                  {fontName}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+
+        {/* Logos */}
+        <div className="space-y-2">
+          <h4 className="text-xs font-bold text-[var(--retro-text)]">Logos</h4>
+          <div className="grid grid-cols-3 gap-2">
+            {brandKit.logos.map(logo => (
+              <div key={logo.id} className="relative">
+                <button
+                  onClick={() => onAddImage(logo.source)}
+                  className="w-full h-16 border-2 border-[var(--retro-border)] rounded bg-white bg-center bg-no-repeat bg-contain hover:border-[var(--retro-accent)]"
+                  style={{ backgroundImage: `url(${logo.source})` }}
+                  title={`Add ${logo.name}`}
+                />
+                {isEditing && (
+                  <button
+                    onClick={() => updateBrandKit({ logos: brandKit.logos.filter(l => l.id !== logo.id) })}
+                    className="absolute -top-1 -right-1 w-4 h-4 flex items-center justify-center bg-white border border-gray-400 rounded-full"
+                    title="Remove logo"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+          {brandKit.logos.length === 0 && !isEditing && (
+            <p className="text-xs text-[var(--retro-text)]">No logos yet</p>
+          )}
+          {isEditing && (
+            <label className="retro-button w-full flex items-center justify-center space-x-1 p-2 text-xs cursor-pointer">
+              <input type="file" accept="image/*" onChange={handleLogoFile} className="hidden" />
+              <Upload className="w-3 h-3" />
+              <span>Upload Logo</span>
+            </label>
+          )}
+        </div>
+
+        {/* Walrus copy */}
+        {isEditing && (
+          <div className="space-y-2 pt-2 border-t-2 border-[var(--retro-border)]">
+            <label className="flex items-center space-x-2 text-xs text-[var(--retro-text)]">
+              <input type="checkbox" checked={encryptBackup} onChange={(e) => setEncryptBackup(e.target.checked)} />
+              <span>Encrypt with Seal</span>
+            </label>
+            <button
+              onClick={handleBackup}
+              disabled={isBackingUp}
+              className="retro-button w-full flex items-center justify-center space-x-1 p-2 text-xs disabled:opacity-50"
+            >
+              <Cloud className="w-3 h-3" />
+              <span>{isBackingUp ? 'Working…' : 'Save Copy to Walrus'}</span>
+            </button>
+            {brandKit.walrusBlobId && (
+              <>
+                <p className="text-xs text-[var(--retro-text)] break-all">
+                  Last copy{brandKit.walrusBackupAt ? ` (${new Date(brandKit.walrusBackupAt).toLocaleString()})` : ''}: {brandKit.walrusBlobId}
+                </p>
+                <button
+                  onClick={restoreFromWalrus}
+                  disabled={isBackingUp}
+                  className="retro-button w-full flex items-center justify-center space-x-1 p-2 text-xs disabled:opacity-50"
+                >
+                  <RotateCcw className="w-3 h-3" />
+                  <span>Restore from Walrus</span>
+                </button>
+              </>
+            )}
+          </div>
+        )}
+
+        {(message || error) && (
+          <p className="text-xs text-[var(--retro-text)] break-all">{message || `❌ ${error}`}</p>
+        )}
+      </div>
+    </CollapsibleSection>
+  );
+}
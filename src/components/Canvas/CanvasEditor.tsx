@@ -1,19 +1,32 @@
 'use client';
 
-import React, { useRef, useEffect, useState } from 'react';
+import React, { useRef, useEffect, useState, useCallback } from 'react';
 import { fabric } from '@/lib/fabric';
-import { useCanvas } from '@/hooks/useCanvas';
+import { useCanvas, type DrawingMode, type EditorTool } from '@/hooks/useCanvas';
+import { useKeyboardShortcuts } from '@/hooks/useKeyboardShortcuts';
 import Toolbar from './Toolbar';
 import PropertyPanel from './PropertyPanel';
+import LayersPanel from './LayersPanel';
+import Rulers from './Rulers';
+import ShortcutsOverlay from './ShortcutsOverlay';
+import PageStrip from './PageStrip';
+import BrandKitPanel from './BrandKitPanel';
 import AIImageModal from '../AI/AIImageModal';
 import SaveDialog from '../Storage/SaveDialog';
 import { ToastContainer } from '../UI/Toast';
 import { useToast } from '@/hooks/useToast';
 import { cn } from '@/utils/helpers';
+import { CANVAS_CONFIG } from '@/utils/constants';
+import { NUDGE_STEP, NUDGE_STEP_LARGE, isEditableTarget, type ShortcutHandlers, type ShortcutId } from '@/utils/shortcuts';
 import { initializeFonts } from '@/utils/fontLoader';
+import { readClipboardSvg } from '@/lib/svgImport';
 import WalletStatus from '../Wallet/WalletStatus';
+import type { OpenDesign } from '@/services/mongoDBService';
 import { useCurrentAccount } from '@mysten/dapp-kit';
 
+// Panel padding (p-4) plus the canvas border, i.e. where the drawing surface starts
+const CANVAS_INSET = 18;
+
 interface CanvasEditorProps {
   className?: string;
 }
@@ -25,17 +38,22 @@ export default function CanvasEditor({ className }: CanvasEditorProps) {
   // Removed AI Text modal usage
   const [showAIImageModal, setShowAIImageModal] = useState(false);
   const [showSaveDialog, setShowSaveDialog] = useState(false);
-  const [selectedTool, setSelectedTool] = useState<'select' | 'text' | 'rectangle' | 'circle' | 'image' | 'pencil'>('select');
+  const [selectedTool, setSelectedTool] = useState<EditorTool>('select');
   const [activeAIPanel, setActiveAIPanel] = useState<'image' | null>(null);
   const [designsRefreshTrigger, setDesignsRefreshTrigger] = useState(0);
+  const [showRulers, setShowRulers] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  // Saved design on the canvas, if any; saving it again records a new version
+  const [currentDesign, setCurrentDesign] = useState<OpenDesign | null>(null);
   
-  const { toasts, success, removeToast } = useToast();
+  const { toasts, success, warning, error, removeToast } = useToast();
   
   const handleRefreshDesigns = () => {
     setDesignsRefreshTrigger(prev => prev + 1);
   };
   const currentAccount = useCurrentAccount();
   const isConnected = !!currentAccount;
+  const walletAddress = currentAccount?.address;
   
   const {
     canvas,
@@ -48,14 +66,66 @@ export default function CanvasEditor({ className }: CanvasEditorProps) {
     addRectangle,
     addCircle,
     addImage,
+    importSvg,
     deleteSelected,
     clearCanvas,
     exportCanvas,
+    exportPdf,
     loadCanvas,
     setBackgroundColor,
+    setBackgroundFill,
     setZoom,
     centerCanvas,
     setDrawingMode,
+    finishPath,
+    cancelPath,
+    deletePathNode,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    bringForward,
+    sendBackward,
+    moveObjectTo,
+    renameObject,
+    setObjectVisibility,
+    setObjectLocked,
+    selectObject,
+    groupSelected,
+    ungroupSelected,
+    alignSelected,
+    isCropping,
+    cropAspectRatio,
+    startCrop,
+    applyCrop,
+    cancelCrop,
+    setCropAspectRatio,
+    maskSelectedImage,
+    releaseImageMask,
+    distributeSelected,
+    nudgeSelected,
+    selectAll,
+    copySelected,
+    cutSelected,
+    pasteClipboardData,
+    duplicateSelected,
+    showGrid,
+    snapToGrid,
+    smartGuides,
+    setShowGrid,
+    setSnapToGrid,
+    setSmartGuides,
+    pages,
+    activePageIndex,
+    switchPage,
+    addPage,
+    duplicatePage,
+    deletePage,
+    movePage,
+    renamePage,
+    getDesignDocument,
+    getDesignThumbnail,
+    resizeCanvas,
     error: canvasError
   } = useCanvas(containerRef);
 
@@ -65,60 +135,151 @@ export default function CanvasEditor({ className }: CanvasEditorProps) {
     }
   }, [isReady, canvas, centerCanvas]);
 
+  // Designs belong to a wallet, so another wallet starts from an unsaved design
+  useEffect(() => {
+    setCurrentDesign(null);
+  }, [walletAddress]);
+
+  // Whatever is loaded here, e.g. a Walrus blob, is a new design until it is saved; loading
+  // a saved design marks it open again afterwards
+  const handleLoad = useCallback((data: any) => {
+    loadCanvas(data);
+    setCurrentDesign(null);
+  }, [loadCanvas]);
+
   // Initialize fonts on component mount
   useEffect(() => {
     initializeFonts();
   }, []);
 
 
-  // Keyboard shortcuts
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      // Prevent shortcuts when modals are open
-      if (showAIImageModal || showSaveDialog) return;
-      
-      // Ctrl/Cmd + S: Save
-      if ((e.ctrlKey || e.metaKey) && e.key === 's') {
-        e.preventDefault();
-        setShowSaveDialog(true);
-        success('💾 Save Dialog Opened', 'Use Ctrl+S to quickly save your design');
+  // Keyboard shortcuts, bound to the central registry in utils/shortcuts
+  const selectTool = (mode: Exclude<DrawingMode, null>) => {
+    setDrawingMode(mode);
+    setSelectedTool(mode);
+  };
+  const nudge = (dx: number, dy: number) => (e: KeyboardEvent) => {
+    const step = e.shiftKey ? NUDGE_STEP_LARGE : NUDGE_STEP;
+    return nudgeSelected(dx * step, dy * step);
+  };
+  const isPathTool = drawingMode === 'pen' || drawingMode === 'nodes';
+
+  const shortcutHandlers: ShortcutHandlers = {
+    'tool.select': () => selectTool('select'),
+    'tool.rectangle': () => selectTool('rectangle'),
+    'tool.circle': () => selectTool('circle'),
+    'tool.text': () => selectTool('text'),
+    'tool.pencil': () => selectTool('pencil'),
+    'tool.pen': () => selectTool('pen'),
+    'tool.nodes': () => selectTool('nodes'),
+    'edit.undo': () => undo(),
+    'edit.redo': () => redo(),
+    'edit.copy': () => copySelected(),
+    'edit.cut': () => cutSelected(),
+    // Let Ctrl+V through: the native paste event below can read the system clipboard
+    'edit.paste': () => false,
+    'edit.duplicate': () => duplicateSelected(),
+    'edit.delete': () => {
+      // In node mode Delete removes the selected node rather than the path
+      if (isPathTool && deletePathNode()) return;
+      // The crop frame isn't a design object
+      if (isCropping) return;
+      if (selectedObjects.length === 0) return false;
+      deleteSelected();
+      success('🗑️ Objects Deleted', `Removed ${selectedObjects.length} object(s)`);
+    },
+    'edit.selectAll': () => {
+      const count = selectAll();
+      if (count > 0) {
+        success('📋 All Selected', `Selected ${count} objects`);
       }
-      
-      // Ctrl/Cmd + Z: Undo (placeholder)
-      if ((e.ctrlKey || e.metaKey) && e.key === 'z') {
-        e.preventDefault();
-        success('↩️ Undo', 'Undo functionality coming soon');
+    },
+    'edit.finishPath': () => {
+      if (isCropping) {
+        applyCrop();
+        return;
       }
-      
-      // Delete: Remove selected objects
-      if (e.key === 'Delete' && selectedObjects.length > 0) {
+      if (drawingMode !== 'pen') return false;
+      finishPath();
+    },
+    'edit.cancel': () => {
+      if (isCropping) {
+        cancelCrop();
+      } else if (isPathTool) {
+        cancelPath();
+      } else if (canvas?.getActiveObject()) {
+        canvas.discardActiveObject();
+        canvas.requestRenderAll();
+      } else {
+        return false;
+      }
+    },
+    'arrange.nudgeLeft': nudge(-1, 0),
+    'arrange.nudgeRight': nudge(1, 0),
+    'arrange.nudgeUp': nudge(0, -1),
+    'arrange.nudgeDown': nudge(0, 1),
+    'arrange.group': () => groupSelected(),
+    'arrange.ungroup': () => ungroupSelected(),
+    'view.zoomIn': () => setZoom(zoom * 1.2),
+    'view.zoomOut': () => setZoom(zoom * 0.8),
+    'view.zoomReset': () => setZoom(1),
+    'view.shortcuts': () => setShowShortcuts(prev => !prev),
+    'file.save': () => {
+      setShowSaveDialog(true);
+      success('💾 Save Dialog Opened', 'Use Ctrl+S to quickly save your design');
+    },
+  };
+
+  // Shortcuts are paused while a modal owns the keyboard
+  useKeyboardShortcuts(canvas, shortcutHandlers, !showAIImageModal && !showSaveDialog);
+
+  // Import SVG as vectors and report any features that didn't survive the conversion
+  const handleImportSvg = useCallback((markup: string, asGroup = false) => {
+    importSvg(markup, asGroup)
+      .then(result => {
+        const summary = `Added ${result.objectCount} object(s)${asGroup ? ' as a group' : ''}`;
+        if (result.warnings.length > 0) {
+          console.warn('SVG import warnings:', result.warnings);
+          warning('⚠️ SVG Imported With Warnings', [summary, ...result.warnings].join('\n'), 10000);
+        } else {
+          success('✅ SVG Imported', summary);
+        }
+      })
+      .catch(err => {
+        console.error('Failed to import SVG:', err);
+        error('❌ SVG Import Failed', err instanceof Error ? err.message : 'Could not read the SVG');
+      });
+  }, [importSvg, success, warning, error]);
+
+  // Paste canvas objects, SVG, images and text from the system clipboard
+  useEffect(() => {
+    if (showAIImageModal || showSaveDialog) return;
+
+    const handlePaste = (e: ClipboardEvent) => {
+      const activeObject = canvas?.getActiveObject() as fabric.Textbox | null | undefined;
+      if (activeObject?.isEditing || isEditableTarget(e.target)) return;
+
+      // SVG markup would otherwise land as plain text, and SVG files as flat images
+      const svg = readClipboardSvg(e.clipboardData);
+      if (svg) {
         e.preventDefault();
-        deleteSelected();
-        success('🗑️ Objects Deleted', `Removed ${selectedObjects.length} object(s)`);
+        svg.then(markup => handleImportSvg(markup))
+          .catch(err => console.error('Failed to read pasted SVG:', err));
+        return;
       }
-      
-      // Ctrl/Cmd + A: Select all
-      if ((e.ctrlKey || e.metaKey) && e.key === 'a') {
+
+      if (pasteClipboardData(e.clipboardData)) {
         e.preventDefault();
-        if (canvas) {
-          const objects = canvas.getObjects();
-          if (objects.length > 0) {
-            canvas.discardActiveObject();
-            // Create a selection group for all objects
-            const selection = new fabric.ActiveSelection(objects, {
-              canvas: canvas,
-            });
-            canvas.setActiveObject(selection);
-            canvas.renderAll();
-            success('📋 All Selected', `Selected ${objects.length} objects`);
-          }
-        }
       }
     };
 
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [showAIImageModal, showSaveDialog, selectedObjects, deleteSelected, canvas, success]);
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [showAIImageModal, showSaveDialog, canvas, pasteClipboardData, handleImportSvg]);
+
+  const canvasWidth = canvas?.getWidth() || CANVAS_CONFIG.DEFAULT_WIDTH;
+  const canvasHeight = canvas?.getHeight() || CANVAS_CONFIG.DEFAULT_HEIGHT;
+  const viewportTransform = canvas?.viewportTransform || [1, 0, 0, 1, 0, 0];
 
   if (canvasError) {
     return (
@@ -162,7 +323,22 @@ export default function CanvasEditor({ className }: CanvasEditorProps) {
               onDeleteSelected={deleteSelected}
               onClearCanvas={clearCanvas}
               onSetBackgroundColor={setBackgroundColor}
+              onSetBackgroundFill={setBackgroundFill}
               onSetZoom={setZoom}
+              canvasSize={{ width: canvasWidth, height: canvasHeight }}
+              onResizeCanvas={resizeCanvas}
+              onUndo={undo}
+              onRedo={redo}
+              canUndo={canUndo}
+              canRedo={canRedo}
+              showGrid={showGrid}
+              snapToGrid={snapToGrid}
+              smartGuides={smartGuides}
+              showRulers={showRulers}
+              onToggleGrid={setShowGrid}
+              onToggleSnapToGrid={setSnapToGrid}
+              onToggleSmartGuides={setSmartGuides}
+              onToggleRulers={setShowRulers}
               onSetDrawingMode={setDrawingMode}
               onSetTool={setSelectedTool}
               onAIImage={() => setActiveAIPanel('image')}
@@ -170,18 +346,26 @@ export default function CanvasEditor({ className }: CanvasEditorProps) {
               zoom={zoom}
               isWalletConnected={isConnected}
             />
-            
+
+            <div className="px-4 pb-6">
+              <BrandKitPanel
+                canvas={canvas}
+                onAddText={addText}
+                onAddImage={addImage}
+                onSetBackgroundColor={setBackgroundColor}
+              />
+            </div>
           </div>
         </div>
 
         {/* Main Canvas Area */}
-        <div className="flex-1 flex flex-col">
-          {/* Canvas Container */}
+        <div className="flex-1 min-w-0 flex flex-col">
+          {/* Canvas Container - scrolls when the document is larger than the viewport */}
           <div 
             ref={containerRef}
-            className="flex-1 flex items-center justify-center p-8 overflow-hidden"
+            className="flex-1 min-h-0 flex p-8 overflow-auto"
           >
-            <div ref={canvasContainerRef} className="relative">
+            <div ref={canvasContainerRef} className="relative m-auto">
             <div className="retro-panel p-4 relative">
               {!isReady && (
                 <div className="absolute inset-0 bg-[var(--retro-bg)] bg-opacity-75 flex items-center justify-center rounded-lg z-10">
@@ -196,25 +380,96 @@ export default function CanvasEditor({ className }: CanvasEditorProps) {
                 className="border-2 border-[var(--retro-border)] rounded block" 
                 style={{ display: 'block' }}
               />
+              {showGrid && (
+                <div
+                  className="absolute pointer-events-none"
+                  style={{
+                    top: CANVAS_INSET,
+                    left: CANVAS_INSET,
+                    width: canvasWidth,
+                    height: canvasHeight,
+                    backgroundImage:
+                      'linear-gradient(to right, rgba(0, 0, 0, 0.1) 1px, transparent 1px), ' +
+                      'linear-gradient(to bottom, rgba(0, 0, 0, 0.1) 1px, transparent 1px)',
+                    backgroundSize: `${CANVAS_CONFIG.GRID_SIZE * zoom}px ${CANVAS_CONFIG.GRID_SIZE * zoom}px`,
+                    backgroundPosition: `${viewportTransform[4]}px ${viewportTransform[5]}px`
+                  }}
+                />
+              )}
+              {showRulers && (
+                <Rulers
+                  width={canvasWidth}
+                  height={canvasHeight}
+                  zoom={zoom}
+                  offsetX={viewportTransform[4]}
+                  offsetY={viewportTransform[5]}
+                  inset={CANVAS_INSET}
+                />
+              )}
             </div>
             
             </div>
           </div>
+
+          {/* Pages */}
+          <PageStrip
+            pages={pages}
+            activePageIndex={activePageIndex}
+            onSelect={switchPage}
+            onAdd={addPage}
+            onDuplicate={duplicatePage}
+            onDelete={deletePage}
+            onMove={movePage}
+            onRename={renamePage}
+          />
         </div>
 
         {/* Right Sidebar - Properties */}
         <div className="sidebar flex-none" style={{ width: 320 }}>
+          <div className="flex-1 min-h-0">
           <PropertyPanel 
             canvas={canvas}
             selectedObjects={selectedObjects}
             onExport={exportCanvas}
+            onExportPdf={exportPdf}
+            pageCount={pages.length}
             onAddImage={addImage}
+            onImportSvg={handleImportSvg}
             selectedTool={selectedTool}
             activeAIPanel={activeAIPanel}
             onCloseAIPanel={() => setActiveAIPanel(null)}
-            onLoad={loadCanvas}
+            onLoad={handleLoad}
+            onGetDesignData={getDesignDocument}
+            onGetThumbnail={getDesignThumbnail}
+            currentDesign={currentDesign}
+            onOpenDesign={setCurrentDesign}
             onWalrusActionRef={walrusActionRef}
             onRefreshDesigns={handleRefreshDesigns}
+            onGroup={groupSelected}
+            onUngroup={ungroupSelected}
+            onAlign={alignSelected}
+            isCropping={isCropping}
+            cropAspectRatio={cropAspectRatio}
+            onStartCrop={startCrop}
+            onApplyCrop={applyCrop}
+            onCancelCrop={cancelCrop}
+            onSetCropAspectRatio={setCropAspectRatio}
+            onMaskImage={maskSelectedImage}
+            onReleaseMask={releaseImageMask}
+            onDistribute={distributeSelected}
+          />
+          </div>
+
+          <LayersPanel
+            canvas={canvas}
+            selectedObjects={selectedObjects}
+            onBringForward={bringForward}
+            onSendBackward={sendBackward}
+            onMoveTo={moveObjectTo}
+            onRename={renameObject}
+            onToggleVisibility={setObjectVisibility}
+            onToggleLock={setObjectLocked}
+            onSelect={selectObject}
           />
         </div>
       </div>
@@ -231,11 +486,22 @@ export default function CanvasEditor({ className }: CanvasEditorProps) {
         isOpen={showSaveDialog}
         onClose={() => setShowSaveDialog(false)}
         canvas={canvas}
-        onLoad={loadCanvas}
+        getDesignData={getDesignDocument}
+        getThumbnail={getDesignThumbnail}
+        currentDesign={currentDesign}
+        onDesignSaved={setCurrentDesign}
+        onLoad={handleLoad}
         onSave={handleRefreshDesigns}
       />
 
 
+      {/* Keyboard shortcut cheat-sheet (?) */}
+      <ShortcutsOverlay
+        isOpen={showShortcuts}
+        onClose={() => setShowShortcuts(false)}
+        availableShortcuts={Object.keys(shortcutHandlers) as ShortcutId[]}
+      />
+
       {/* Test Panels removed per request */}
 
       {/* Toast Notifications */}
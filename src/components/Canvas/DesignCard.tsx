@@ -1,28 +1,49 @@
 import React, { useState } from 'react';
-import { UserDesignDocument } from '../../services/mongoDBService';
+import { UserDesignDocument, type OpenDesign } from '../../services/mongoDBService';
+import type { WalrusEpochInfo } from '@/services/walrusClient';
+import { getDesignSummary } from '@/utils/designDocument';
+import { formatTimeLeft, getBlobLifetime, getDesignBlobs, getEarliestExpiry } from '@/utils/blobLifetime';
 
 interface DesignCardProps {
   design: UserDesignDocument;
-  onLoadDesign: (designId: string) => Promise<void>;
+  onLoadDesign: (design: OpenDesign) => Promise<void>;
   onDeleteDesign?: (designId: string) => Promise<void>;
   isLoading?: boolean;
   isWideCard?: boolean;
+  epochInfo?: WalrusEpochInfo | null;
+  onExtendStorage?: (design: UserDesignDocument, epochs: number) => Promise<void>;
 }
 
+// Choices for how many more epochs to keep a design stored
+const EXTEND_EPOCH_OPTIONS = [1, 2, 5, 10];
+
 export const DesignCard: React.FC<DesignCardProps> = ({
   design,
   onLoadDesign,
   onDeleteDesign,
   isLoading = false,
-  isWideCard = false
+  isWideCard = false,
+  epochInfo = null,
+  onExtendStorage
 }) => {
   const [isLoadingDesign, setIsLoadingDesign] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [showExtend, setShowExtend] = useState(false);
+  const [extendEpochs, setExtendEpochs] = useState(EXTEND_EPOCH_OPTIONS[1]);
+  const [isExtending, setIsExtending] = useState(false);
+  const [extendError, setExtendError] = useState<string | null>(null);
+
+  // The design is only complete until the first of its blobs, or the reused ones, expires
+  const blobs = getDesignBlobs(design);
+  const expiryEpoch = getEarliestExpiry(blobs);
+  const lifetime = expiryEpoch !== undefined && epochInfo ? getBlobLifetime(expiryEpoch, epochInfo) : null;
+  // An expired blob can't be extended; saving the design again stores a new one
+  const canExtend = !!onExtendStorage && blobs.length > 0 && !lifetime?.expired;
 
   const handleLoadDesign = async () => {
     setIsLoadingDesign(true);
     try {
-      await onLoadDesign(design.designId);
+      await onLoadDesign({ designId: design.designId, name: design.name, designObjectId: design.designObjectId });
     } catch (error) {
       console.error('Failed to load design:', error);
     } finally {
@@ -41,6 +62,72 @@ export const DesignCard: React.FC<DesignCardProps> = ({
     }
   };
 
+  const handleExtendStorage = async () => {
+    if (!onExtendStorage) return;
+    setIsExtending(true);
+    setExtendError(null);
+    try {
+      await onExtendStorage(design, extendEpochs);
+      setShowExtend(false);
+    } catch (error) {
+      console.error('Failed to extend storage:', error);
+      setExtendError(error instanceof Error ? error.message : 'Failed to extend storage');
+    } finally {
+      setIsExtending(false);
+    }
+  };
+
+  const renderExpiry = () => {
+    if (!lifetime) return null;
+
+    const color = lifetime.expired ? 'text-red-600' : lifetime.expiringSoon ? 'text-amber-600' : 'text-gray-500';
+    const reused = design.assetBlobs?.length
+      ? `, counting ${design.assetBlobs.length} reused image and font blob${design.assetBlobs.length === 1 ? '' : 's'}`
+      : '';
+    const title = `Stored on Walrus until epoch ${expiryEpoch} (about ${lifetime.expiresAt.toLocaleString()}${reused})`;
+    return (
+      <p className={`text-xs ${color}`} title={title}>
+        {lifetime.expired
+          ? '⛔ Expired from Walrus'
+          : `${lifetime.expiringSoon ? '⚠️' : '⏳'} Expires in ${formatTimeLeft(lifetime.msLeft)}`}
+      </p>
+    );
+  };
+
+  const renderExtendForm = () => showExtend && (
+    <div className="mt-2 w-full">
+      <div className="flex items-center gap-2">
+        <select
+          value={extendEpochs}
+          onChange={(e) => setExtendEpochs(Number(e.target.value))}
+          disabled={isExtending}
+          className="flex-1 text-xs border border-gray-300 rounded py-1 px-2"
+        >
+          {EXTEND_EPOCH_OPTIONS.map(epochs => (
+            <option key={epochs} value={epochs}>
+              +{epochs} epoch{epochs === 1 ? '' : 's'}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleExtendStorage}
+          disabled={isExtending}
+          className="bg-green-600 text-white text-xs py-1 px-3 rounded hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+        >
+          {isExtending ? 'Extending...' : 'Extend'}
+        </button>
+        <button
+          onClick={() => setShowExtend(false)}
+          disabled={isExtending}
+          className="bg-gray-200 text-gray-800 text-xs py-1 px-2 rounded hover:bg-gray-300 transition-colors duration-200"
+        >
+          Cancel
+        </button>
+      </div>
+      {extendError && <p className="text-xs text-red-600 mt-1">{extendError}</p>}
+    </div>
+  );
+
   const formatDate = (date: Date) => {
     return new Date(date).toLocaleDateString('en-US', {
       month: 'short',
@@ -54,10 +141,7 @@ export const DesignCard: React.FC<DesignCardProps> = ({
   const generateThumbnail = (canvasData: object) => {
     // Simple thumbnail generation - in a real app, you'd render the canvas
     // For now, we'll create a placeholder based on canvas size
-    const data = canvasData as any;
-    const width = data.width || 800;
-    const height = data.height || 600;
-    const elementCount = data.objects ? data.objects.length : 0;
+    const { canvasSize: { width, height }, elementCount } = getDesignSummary(canvasData);
     
     if (isWideCard) {
       return (
@@ -102,6 +186,8 @@ export const DesignCard: React.FC<DesignCardProps> = ({
             {design.name}
           </h3>
 
+          {lifetime && <div className="-mt-2 mb-3">{renderExpiry()}</div>}
+
           {/* Actions */}
           <div className="flex gap-2">
             <button
@@ -119,6 +205,16 @@ export const DesignCard: React.FC<DesignCardProps> = ({
               )}
             </button>
 
+            {canExtend && (
+              <button
+                onClick={() => setShowExtend(!showExtend)}
+                className="bg-green-100 text-green-700 text-xs py-2 px-3 rounded hover:bg-green-200 transition-colors duration-200"
+                title="Extend storage on Walrus"
+              >
+                ⏳
+              </button>
+            )}
+
             {onDeleteDesign && (
               <button
                 onClick={() => setShowDeleteConfirm(true)}
@@ -129,6 +225,8 @@ export const DesignCard: React.FC<DesignCardProps> = ({
               </button>
             )}
           </div>
+
+          {renderExtendForm()}
         </div>
       </div>
     );
@@ -156,6 +254,11 @@ export const DesignCard: React.FC<DesignCardProps> = ({
           <span className="text-xs text-gray-400">
             • {design.metadata.elementCount} items
           </span>
+          {(design.metadata.pageCount || 1) > 1 && (
+            <span className="text-xs text-gray-400">
+              • {design.metadata.pageCount} pages
+            </span>
+          )}
         </div>
         {design.blobId && (
           <div className="mt-2">
@@ -165,6 +268,7 @@ export const DesignCard: React.FC<DesignCardProps> = ({
                 {design.blobId.substring(0, 12)}...
               </span>
             </div>
+            {renderExpiry()}
           </div>
         )}
       </div>
@@ -186,6 +290,16 @@ export const DesignCard: React.FC<DesignCardProps> = ({
           )}
         </button>
 
+        {canExtend && (
+          <button
+            onClick={() => setShowExtend(!showExtend)}
+            className="bg-green-100 text-green-700 text-xs py-2 px-3 rounded hover:bg-green-200 transition-colors duration-200"
+            title="Extend storage on Walrus"
+          >
+            ⏳
+          </button>
+        )}
+
         {onDeleteDesign && (
           <button
             onClick={() => setShowDeleteConfirm(true)}
@@ -197,6 +311,8 @@ export const DesignCard: React.FC<DesignCardProps> = ({
         )}
       </div>
 
+      {renderExtendForm()}
+
       {/* Delete Confirmation Modal */}
       {showDeleteConfirm && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
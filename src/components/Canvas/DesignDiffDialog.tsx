@@ -0,0 +1,517 @@
+'use client';
+
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { GitCompare, Loader2, X, Columns2, Layers } from 'lucide-react';
+import { cn } from '@/utils/helpers';
+import type { DesignDocument } from '@/utils/designDocument';
+import { diffDesigns, type DiffBounds, type ObjectDiff } from '@/utils/designDiff';
+import { renderDesignPreviews, type PagePreview } from '@/lib/designPreview';
+import { useWalrus } from '@/hooks/useWalrus';
+import type { DesignVersionSummary, UserDesignDocument } from '@/services/mongoDBService';
+
+// Where one side of the comparison comes from
+export type DiffSource =
+  | { kind: 'canvas' }
+  | { kind: 'saved'; designId: string; version?: number } // Latest version when omitted
+  | { kind: 'walrus'; blobId: string }
+  | { kind: 'file' };
+
+interface DesignDiffDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  walletAddress?: string;
+  getDesignData?: () => DesignDocument;
+  initialBefore?: DiffSource;
+  initialAfter?: DiffSource;
+}
+
+interface LoadedSide {
+  label: string;
+  designData: any;
+  pages: PagePreview[];
+}
+
+// Width of each page preview in side-by-side mode; overlay mode uses twice that
+const PREVIEW_WIDTH = 320;
+
+const STATUS_COLORS: Record<ObjectDiff['status'], string> = {
+  removed: '#dc2626',
+  added: '#16a34a',
+  changed: '#d97706',
+};
+
+const SOURCE_LABELS: Record<DiffSource['kind'], string> = {
+  canvas: 'Current canvas',
+  saved: 'My Designs',
+  walrus: 'Walrus blob',
+  file: 'JSON file',
+};
+
+// Compare against the open canvas when there is one
+const getDefaultSource = (canUseCanvas: boolean): DiffSource =>
+  canUseCanvas ? { kind: 'canvas' } : { kind: 'walrus', blobId: '' };
+
+const loadMongoDBService = async () => {
+  // Import the service dynamically to avoid SSR issues
+  const { mongoDBService } = await import('../../services/mongoDBService');
+  return mongoDBService;
+};
+
+const readJsonFile = (file: File) => new Promise<any>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = (e) => {
+    try {
+      resolve(JSON.parse(e.target?.result as string));
+    } catch (error) {
+      reject(error);
+    }
+  };
+  reader.onerror = () => reject(reader.error);
+  reader.readAsText(file);
+});
+
+interface DiffSidePickerProps {
+  title: string;
+  source: DiffSource;
+  onSourceChange: (source: DiffSource) => void;
+  designs: UserDesignDocument[];
+  canUseCanvas: boolean;
+  onFile: (file: File) => void;
+}
+
+// Source selector for one side of the comparison
+function DiffSidePicker({ title, source, onSourceChange, designs, canUseCanvas, onFile }: DiffSidePickerProps) {
+  const [versions, setVersions] = useState<DesignVersionSummary[]>([]);
+  const savedDesignId = source.kind === 'saved' ? source.designId : '';
+
+  useEffect(() => {
+    if (!savedDesignId) {
+      setVersions([]);
+      return;
+    }
+    let cancelled = false;
+    loadMongoDBService()
+      .then(service => service.getDesignVersions(savedDesignId))
+      .then(result => !cancelled && setVersions(result))
+      .catch(err => console.error('Failed to fetch design versions:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [savedDesignId]);
+
+  const changeKind = (kind: DiffSource['kind']) => {
+    if (kind === 'saved') onSourceChange({ kind, designId: designs[0]?.designId || '' });
+    else if (kind === 'walrus') onSourceChange({ kind, blobId: '' });
+    else onSourceChange({ kind });
+  };
+
+  return (
+    <div className="flex-1 min-w-0 space-y-2">
+      <h3 className="text-sm font-bold text-[var(--retro-text)]">{title}</h3>
+      <select
+        value={source.kind}
+        onChange={(e) => changeKind(e.target.value as DiffSource['kind'])}
+        className="w-full p-2 text-sm border-2 border-[var(--retro-border)] bg-white"
+      >
+        {(Object.keys(SOURCE_LABELS) as DiffSource['kind'][])
+          .filter(kind => kind !== 'canvas' || canUseCanvas)
+          .map(kind => <option key={kind} value={kind}>{SOURCE_LABELS[kind]}</option>)}
+      </select>
+
+      {source.kind === 'saved' && (
+        <div className="flex gap-2">
+          <select
+            value={source.designId}
+            onChange={(e) => onSourceChange({ kind: 'saved', designId: e.target.value })}
+            className="flex-1 min-w-0 p-2 text-sm border-2 border-[var(--retro-border)] bg-white"
+          >
+            {!designs.some(design => design.designId === source.designId) && (
+              <option value={source.designId}>{source.designId ? 'Open design' : 'No saved designs'}</option>
+            )}
+            {designs.map(design => <option key={design.designId} value={design.designId}>{design.name}</option>)}
+          </select>
+          <select
+            value={source.version ?? ''}
+            onChange={(e) => onSourceChange({
+              kind: 'saved',
+              designId: source.designId,
+              version: e.target.value ? Number(e.target.value) : undefined
+            })}
+            className="w-24 p-2 text-sm border-2 border-[var(--retro-border)] bg-white"
+          >
+            <option value="">Latest</option>
+            {versions.map(version => <option key={version.version} value={version.version}>v{version.version}</option>)}
+          </select>
+        </div>
+      )}
+
+      {source.kind === 'walrus' && (
+        <input
+          type="text"
+          value={source.blobId}
+          onChange={(e) => onSourceChange({ kind: 'walrus', blobId: e.target.value })}
+          placeholder="Walrus blob ID"
+          className="w-full p-2 text-sm border-2 border-[var(--retro-border)] bg-white font-mono"
+        />
+      )}
+
+      {source.kind === 'file' && (
+        <input
+          type="file"
+          accept=".json"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) onFile(file);
+          }}
+          className="w-full text-xs text-[var(--retro-text)]"
+        />
+      )}
+    </div>
+  );
+}
+
+interface DiffPreviewProps {
+  page?: PagePreview;
+  underlay?: PagePreview; // Drawn faded over the page in overlay mode
+  objects: ObjectDiff[];
+  side: 'before' | 'after' | 'both';
+  width: number;
+  selected: number | null;
+}
+
+function getHighlightBounds(object: ObjectDiff, side: DiffPreviewProps['side']): DiffBounds | undefined {
+  if (side === 'before') return object.before;
+  if (side === 'after') return object.after;
+  return object.after || object.before;
+}
+
+// Page preview with a box around every changed object
+function DiffPreview({ page, underlay, objects, side, width, selected }: DiffPreviewProps) {
+  if (!page) {
+    return (
+      <div
+        className="flex items-center justify-center border-2 border-dashed border-[var(--retro-border)] text-xs text-[var(--retro-text)] opacity-60"
+        style={{ width, height: width * 0.6 }}
+      >
+        No matching page
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className="relative border-2 border-[var(--retro-border)] bg-white bg-center bg-contain bg-no-repeat"
+      style={{ width, aspectRatio: `${page.width} / ${page.height}`, backgroundImage: `url(${page.preview})` }}
+    >
+      {underlay && (
+        <div
+          className="absolute inset-0 bg-center bg-contain bg-no-repeat opacity-50"
+          style={{ backgroundImage: `url(${underlay.preview})` }}
+        />
+      )}
+      {objects.map((object, index) => {
+        const bounds = getHighlightBounds(object, side);
+        if (!bounds) return null;
+        return (
+          <div
+            key={index}
+            className={cn('absolute border-2 pointer-events-none', selected === index && 'border-4')}
+            style={{
+              borderColor: STATUS_COLORS[object.status],
+              backgroundColor: selected === index ? `${STATUS_COLORS[object.status]}33` : undefined,
+              left: `${(bounds.left / page.width) * 100}%`,
+              top: `${(bounds.top / page.height) * 100}%`,
+              width: `${(bounds.width / page.width) * 100}%`,
+              height: `${(bounds.height / page.height) * 100}%`,
+            }}
+          />
+        );
+      })}
+    </div>
+  );
+}
+
+const describeObject = (object: ObjectDiff) => {
+  if (object.status !== 'changed') return object.status;
+  const details = object.properties.length > 0 ? ` (${object.properties.join(', ')})` : '';
+  return `${object.changes.join(', ')}${details}`;
+};
+
+// Compare two designs object by object, with highlighted previews and a list of changes
+export default function DesignDiffDialog({
+  isOpen,
+  onClose,
+  walletAddress,
+  getDesignData,
+  initialBefore,
+  initialAfter
+}: DesignDiffDialogProps) {
+  const canUseCanvas = !!getDesignData;
+  const [sources, setSources] = useState<[DiffSource, DiffSource]>(() => {
+    const defaultSource = getDefaultSource(canUseCanvas);
+    return [defaultSource, defaultSource];
+  });
+  const [files, setFiles] = useState<[File | null, File | null]>([null, null]);
+  const [sides, setSides] = useState<[LoadedSide, LoadedSide] | null>(null);
+  const [designs, setDesigns] = useState<UserDesignDocument[]>([]);
+  const [mode, setMode] = useState<'side-by-side' | 'overlay'>('side-by-side');
+  const [pageIndex, setPageIndex] = useState(0);
+  const [selectedObject, setSelectedObject] = useState<number | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { retrieveDesignWithAssets } = useWalrus();
+
+  useEffect(() => {
+    if (!isOpen || !walletAddress) return;
+    loadMongoDBService()
+      .then(service => service.getUserDesigns(walletAddress))
+      .then(setDesigns)
+      .catch(err => console.error('Failed to fetch designs:', err));
+  }, [isOpen, walletAddress]);
+
+  const loadSide = async (source: DiffSource, file: File | null): Promise<Omit<LoadedSide, 'pages'>> => {
+    switch (source.kind) {
+      case 'canvas':
+        if (!getDesignData) throw new Error('The canvas is not available');
+        return { label: 'Current canvas', designData: getDesignData() };
+      case 'saved': {
+        if (!source.designId) throw new Error('Choose a saved design');
+        const service = await loadMongoDBService();
+        const name = designs.find(design => design.designId === source.designId)?.name;
+        if (source.version === undefined) {
+          return { label: `${name || 'Saved design'} (latest)`, designData: await service.loadDesignToCanvas(source.designId) };
+        }
+        return {
+          label: name ? `${name} v${source.version}` : `Version ${source.version}`,
+          designData: await service.loadDesignVersion(source.designId, source.version)
+        };
+      }
+      case 'walrus': {
+        const blobId = source.blobId.trim();
+        if (!blobId) throw new Error('Enter a Walrus blob ID');
+        const { design } = await retrieveDesignWithAssets(blobId, walletAddress);
+        return { label: design.data.metadata?.name || `Blob ${blobId.substring(0, 12)}...`, designData: design.data.designData };
+      }
+      case 'file': {
+        if (!file) throw new Error('Choose a JSON file');
+        const parsed = await readJsonFile(file);
+        // Exported Walrus blobs wrap the design; plain exports are the design itself
+        return { label: file.name, designData: parsed.designData ?? parsed };
+      }
+    }
+  };
+
+  const compare = async (compareSources = sources, compareFiles = files) => {
+    setIsComparing(true);
+    setError(null);
+    try {
+      const loaded = await Promise.all(compareSources.map(async (source, index) => {
+        const side = await loadSide(source, compareFiles[index]);
+        return { ...side, pages: await renderDesignPreviews(side.designData, PREVIEW_WIDTH * 2) };
+      }));
+      setSides([loaded[0], loaded[1]]);
+      setPageIndex(0);
+      setSelectedObject(null);
+    } catch (err) {
+      console.error('Failed to compare designs:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load the designs to compare.');
+      setSides(null);
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  // The latest compare, so opening the dialog doesn't depend on the designs list loading
+  const compareRef = useRef(compare);
+  useEffect(() => {
+    compareRef.current = compare;
+  });
+
+  // Compare straight away when opened for two known sources, e.g. from the history panel
+  useEffect(() => {
+    if (!isOpen) return;
+    const defaultSource = getDefaultSource(canUseCanvas);
+    const initialSources: [DiffSource, DiffSource] = [initialBefore || defaultSource, initialAfter || defaultSource];
+    setSources(initialSources);
+    setFiles([null, null]);
+    setSides(null);
+    setError(null);
+    if (initialBefore && initialAfter) compareRef.current(initialSources, [null, null]);
+  }, [isOpen, initialBefore, initialAfter, canUseCanvas]);
+
+  const diff = useMemo(() => (sides ? diffDesigns(sides[0].designData, sides[1].designData) : null), [sides]);
+
+  if (!isOpen) return null;
+
+  const setSource = (index: 0 | 1, source: DiffSource) => {
+    setSources(prev => (index === 0 ? [source, prev[1]] : [prev[0], source]));
+  };
+  const setFile = (index: 0 | 1, file: File) => {
+    setFiles(prev => (index === 0 ? [file, prev[1]] : [prev[0], file]));
+  };
+
+  const pageDiff = diff?.pages[pageIndex];
+  const beforePage = pageDiff?.beforeIndex != null ? sides?.[0].pages[pageDiff.beforeIndex] : undefined;
+  const afterPage = pageDiff?.afterIndex != null ? sides?.[1].pages[pageDiff.afterIndex] : undefined;
+
+  return (
+    <div className="fixed inset-0 z-[9999] flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black bg-opacity-50"
+        onClick={onClose}
+      />
+
+      <div className="retro-panel relative z-[10000] max-w-3xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b-2 border-[var(--retro-border)]">
+          <h2 className="text-lg font-bold text-[var(--retro-text)] flex items-center space-x-2">
+            <GitCompare className="w-5 h-5 text-[var(--retro-accent)]" />
+            <span>Compare Designs</span>
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-[var(--retro-text)] hover:opacity-75 transition-opacity"
+            title="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto">
+          <div className="flex gap-4">
+            {([0, 1] as const).map(index => (
+              <DiffSidePicker
+                key={index}
+                title={index === 0 ? 'Before' : 'After'}
+                source={sources[index]}
+                onSourceChange={(source) => setSource(index, source)}
+                designs={designs}
+                canUseCanvas={canUseCanvas}
+                onFile={(file) => setFile(index, file)}
+              />
+            ))}
+          </div>
+
+          <button
+            onClick={() => compare()}
+            disabled={isComparing}
+            className="retro-button w-full flex items-center justify-center space-x-2 p-2 text-sm hover:bg-[var(--retro-accent)] transition-colors disabled:opacity-50"
+          >
+            {isComparing ? <Loader2 className="w-4 h-4 animate-spin" /> : <GitCompare className="w-4 h-4" />}
+            <span>{isComparing ? 'Comparing...' : 'Compare'}</span>
+          </button>
+
+          {error && <p className="text-xs text-red-600">{error}</p>}
+
+          {sides && diff && pageDiff && (
+            <>
+              <div className="flex items-center justify-between gap-2 text-xs text-[var(--retro-text)]">
+                <span>
+                  <span style={{ color: STATUS_COLORS.added }}>{diff.added} added</span>
+                  {' · '}
+                  <span style={{ color: STATUS_COLORS.removed }}>{diff.removed} removed</span>
+                  {' · '}
+                  <span style={{ color: STATUS_COLORS.changed }}>{diff.changed} changed</span>
+                </span>
+                <div className="flex gap-1">
+                  <button
+                    onClick={() => setMode('side-by-side')}
+                    className={cn('retro-button p-1', mode === 'side-by-side' && 'bg-[var(--retro-accent)]')}
+                    title="Side by side"
+                  >
+                    <Columns2 className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => setMode('overlay')}
+                    className={cn('retro-button p-1', mode === 'overlay' && 'bg-[var(--retro-accent)]')}
+                    title="Overlay"
+                  >
+                    <Layers className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+
+              {diff.pages.length > 1 && (
+                <div className="flex flex-wrap gap-1">
+                  {diff.pages.map((page, index) => (
+                    <button
+                      key={index}
+                      onClick={() => {
+                        setPageIndex(index);
+                        setSelectedObject(null);
+                      }}
+                      className={cn('retro-button px-2 py-1 text-xs', index === pageIndex && 'bg-[var(--retro-accent)]')}
+                    >
+                      {page.name}{page.status !== 'unchanged' && ` (${page.status})`}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {mode === 'side-by-side' ? (
+                <div className="flex gap-4 justify-center">
+                  {([0, 1] as const).map(index => (
+                    <div key={index} className="space-y-1 min-w-0">
+                      <p className="text-xs font-bold text-[var(--retro-text)] truncate" style={{ maxWidth: PREVIEW_WIDTH }}>
+                        {sides[index].label}
+                      </p>
+                      <DiffPreview
+                        page={index === 0 ? beforePage : afterPage}
+                        objects={pageDiff.objects}
+                        side={index === 0 ? 'before' : 'after'}
+                        width={PREVIEW_WIDTH}
+                        selected={selectedObject}
+                      />
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="flex flex-col items-center space-y-1">
+                  <p className="text-xs text-[var(--retro-text)] opacity-75">
+                    {sides[1].label} with {sides[0].label} faded on top
+                  </p>
+                  <DiffPreview
+                    page={afterPage || beforePage}
+                    underlay={afterPage ? beforePage : undefined}
+                    objects={pageDiff.objects}
+                    side="both"
+                    width={PREVIEW_WIDTH * 2}
+                    selected={selectedObject}
+                  />
+                </div>
+              )}
+
+              <div className="space-y-1">
+                {pageDiff.resized && (
+                  <p className="text-xs text-[var(--retro-text)]">Page size changed</p>
+                )}
+                {pageDiff.backgroundChanged && (
+                  <p className="text-xs text-[var(--retro-text)]">Page background changed</p>
+                )}
+                {pageDiff.objects.length === 0 && !pageDiff.resized && !pageDiff.backgroundChanged && (
+                  <p className="text-xs text-[var(--retro-text)] opacity-75">No differences on this page.</p>
+                )}
+                {pageDiff.objects.map((object, index) => (
+                  <button
+                    key={index}
+                    onClick={() => setSelectedObject(selectedObject === index ? null : index)}
+                    className={cn(
+                      'w-full flex items-center gap-2 p-2 text-left text-xs retro-button',
+                      selectedObject === index && 'bg-[var(--retro-accent)]'
+                    )}
+                  >
+                    <span className="w-2 h-2 flex-shrink-0" style={{ backgroundColor: STATUS_COLORS[object.status] }} />
+                    <span className="font-bold text-[var(--retro-text)] truncate">{object.label}</span>
+                    <span className="text-[var(--retro-text)] opacity-75 truncate">{describeObject(object)}</span>
+                  </button>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
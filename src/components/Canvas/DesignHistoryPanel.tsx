@@ -0,0 +1,275 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { History, Eye, RotateCcw, RefreshCw, Loader2, X, GitCompare, Link2 } from 'lucide-react';
+import type { DesignVersionSummary, OpenDesign } from '@/services/mongoDBService';
+import { sealIntegration, type DesignVersionRecord } from '@/services/sealIntegration';
+import { renderDesignPreviews, type PagePreview } from '@/lib/designPreview';
+import DesignDiffDialog, { type DiffSource } from './DesignDiffDialog';
+
+interface DesignHistoryPanelProps {
+  design: OpenDesign;
+  onRestore: (canvasData: object) => void;
+  refreshTrigger?: number; // Used to trigger refresh from parent
+  walletAddress?: string;
+}
+
+// Width of the page previews in the preview dialog
+const PREVIEW_WIDTH = 480;
+
+const formatDate = (date: Date) => {
+  return new Date(date).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+const loadVersion = async (designId: string, version: number) => {
+  // Import the service dynamically to avoid SSR issues
+  const { mongoDBService } = await import('../../services/mongoDBService');
+  return mongoDBService.loadDesignVersion(designId, version);
+};
+
+// The latest on-chain version holding a saved version's blob
+const findChainVersion = (chainVersions: DesignVersionRecord[], blobId?: string) =>
+  blobId ? chainVersions.filter(record => record.blobId === blobId).pop() : undefined;
+
+// Saved versions of the open design, newest first, with preview and restore
+export default function DesignHistoryPanel({ design, onRestore, refreshTrigger = 0, walletAddress }: DesignHistoryPanelProps) {
+  const [versions, setVersions] = useState<DesignVersionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [restoringVersion, setRestoringVersion] = useState<number | null>(null);
+  const [preview, setPreview] = useState<{ version: DesignVersionSummary; pages: PagePreview[] | null } | null>(null);
+  const [comparison, setComparison] = useState<[DiffSource, DiffSource] | null>(null);
+  // The registry contract's record of the design, oldest first; null when it has none
+  const [chainVersions, setChainVersions] = useState<DesignVersionRecord[] | null>(null);
+
+  const fetchChainVersions = useCallback(async () => {
+    if (!design.designObjectId) {
+      setChainVersions(null);
+      return;
+    }
+    try {
+      setChainVersions(await sealIntegration.getDesignVersions(design.designObjectId));
+    } catch (err) {
+      // The MongoDB history is still usable without it
+      console.warn('Failed to fetch on-chain design versions:', err);
+      setChainVersions(null);
+    }
+  }, [design.designObjectId]);
+
+  const fetchVersions = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const { mongoDBService } = await import('../../services/mongoDBService');
+      const [saved] = await Promise.all([mongoDBService.getDesignVersions(design.designId), fetchChainVersions()]);
+      setVersions(saved);
+    } catch (err) {
+      console.error('Failed to fetch design versions:', err);
+      setError('Failed to load version history.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [design.designId, fetchChainVersions]);
+
+  useEffect(() => {
+    fetchVersions();
+  }, [fetchVersions, refreshTrigger]);
+
+  const handlePreview = async (version: DesignVersionSummary) => {
+    setPreview({ version, pages: null });
+    try {
+      const canvasData = await loadVersion(design.designId, version.version);
+      const pages = await renderDesignPreviews(canvasData, PREVIEW_WIDTH);
+      // Ignore the result if another version was opened in the meantime
+      setPreview(prev => (prev?.version.version === version.version ? { version, pages } : prev));
+    } catch (err) {
+      console.error('Failed to preview design version:', err);
+      setError(`Failed to preview version ${version.version}.`);
+      setPreview(null);
+    }
+  };
+
+  // Only loads the version; saving it then records it in MongoDB and on-chain alike
+  const handleRestore = async (version: number) => {
+    setRestoringVersion(version);
+    setError(null);
+    try {
+      onRestore(await loadVersion(design.designId, version));
+      setPreview(null);
+    } catch (err) {
+      console.error('Failed to restore design version:', err);
+      setError(`Failed to restore version ${version}.`);
+    } finally {
+      setRestoringVersion(null);
+    }
+  };
+
+  // Compare a version with the one saved before it
+  const handleCompare = (version: number, previousVersion: number) => {
+    setComparison([
+      { kind: 'saved', designId: design.designId, version: previousVersion },
+      { kind: 'saved', designId: design.designId, version }
+    ]);
+  };
+
+  const latestVersion = versions[0]?.version;
+
+  return (
+    <div className="p-4 border-b-2 border-[var(--retro-border)] retro-panel">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-bold text-[var(--retro-text)] flex items-center space-x-2 min-w-0">
+          <History className="w-4 h-4 text-[var(--retro-accent)] flex-shrink-0" />
+          <span className="truncate" title={design.name}>History · {design.name}</span>
+        </h3>
+        <button
+          onClick={fetchVersions}
+          className="p-1 text-[var(--retro-text)] hover:opacity-75 transition-opacity"
+          title="Refresh history"
+        >
+          <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-red-600 mb-2">{error}</p>}
+
+      {isLoading && versions.length === 0 ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin text-[var(--retro-accent)]" />
+        </div>
+      ) : (
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {versions.map((version, index) => {
+            const chainVersion = chainVersions && findChainVersion(chainVersions, version.blobId);
+            return (
+              <div key={version.version} className="flex items-center gap-2 p-2 retro-button">
+                <div
+                  className="w-14 h-10 flex-shrink-0 border border-[var(--retro-border)] bg-white bg-center bg-contain bg-no-repeat"
+                  style={{ backgroundImage: version.thumbnail ? `url(${version.thumbnail})` : undefined }}
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="text-xs font-bold text-[var(--retro-text)]">
+                    v{version.version}
+                    {version.version === latestVersion && <span className="ml-1 opacity-75">(latest)</span>}
+                    {chainVersion && (
+                      <span title={`Recorded on-chain as version ${chainVersion.version}`}>
+                        <Link2 className="inline w-3 h-3 ml-1 text-[var(--retro-accent)]" />
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-xs text-[var(--retro-text)] opacity-75 truncate">{formatDate(version.createdAt)}</div>
+                  {version.blobId && (
+                    <div className="text-xs text-[var(--retro-text)] opacity-60 truncate" title={`Walrus Blob ID: ${version.blobId}`}>
+                      {version.blobId.substring(0, 12)}...
+                    </div>
+                  )}
+                </div>
+                <button
+                  onClick={() => handlePreview(version)}
+                  className="p-1 text-[var(--retro-text)] hover:opacity-75 transition-opacity"
+                  title="Preview"
+                >
+                  <Eye className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleCompare(version.version, versions[index + 1].version)}
+                  disabled={index === versions.length - 1}
+                  className="p-1 text-[var(--retro-text)] hover:opacity-75 transition-opacity disabled:opacity-50"
+                  title="Compare with the previous version"
+                >
+                  <GitCompare className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleRestore(version.version)}
+                  disabled={restoringVersion !== null}
+                  className="p-1 text-[var(--retro-text)] hover:opacity-75 transition-opacity disabled:opacity-50"
+                  title="Restore to canvas"
+                >
+                  {restoringVersion === version.version
+                    ? <Loader2 className="w-4 h-4 animate-spin" />
+                    : <RotateCcw className="w-4 h-4" />}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <p className="text-xs text-[var(--retro-text)] opacity-60 mt-2">
+        A restored version becomes the latest one when you save it.
+        {chainVersions && ` ${chainVersions.length} version${chainVersions.length === 1 ? '' : 's'} recorded on-chain.`}
+      </p>
+
+      {preview && (
+        <div className="fixed inset-0 z-[9999] flex items-center justify-center p-4">
+          {/* Backdrop */}
+          <div
+            className="absolute inset-0 bg-black bg-opacity-50"
+            onClick={() => setPreview(null)}
+          />
+
+          <div className="retro-panel relative z-[10000] max-w-xl w-full max-h-[90vh] flex flex-col">
+            <div className="flex items-center justify-between p-4 border-b-2 border-[var(--retro-border)]">
+              <h2 className="text-lg font-bold text-[var(--retro-text)] truncate">
+                {preview.version.name} · v{preview.version.version}
+              </h2>
+              <button
+                onClick={() => setPreview(null)}
+                className="p-1 text-[var(--retro-text)] hover:opacity-75 transition-opacity"
+                title="Close"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="p-4 space-y-3 overflow-y-auto">
+              <p className="text-xs text-[var(--retro-text)] opacity-75">
+                Saved {formatDate(preview.version.createdAt)}
+              </p>
+              {preview.pages ? (
+                preview.pages.map((page, index) => (
+                  <div
+                    key={index}
+                    className="w-full border-2 border-[var(--retro-border)] bg-white bg-center bg-contain bg-no-repeat"
+                    style={{ backgroundImage: `url(${page.preview})`, aspectRatio: `${page.width} / ${page.height}` }}
+                    title={`Page ${index + 1}`}
+                  />
+                ))
+              ) : (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="w-6 h-6 animate-spin text-[var(--retro-accent)]" />
+                </div>
+              )}
+            </div>
+
+            <div className="p-4 border-t-2 border-[var(--retro-border)]">
+              <button
+                onClick={() => handleRestore(preview.version.version)}
+                disabled={restoringVersion !== null}
+                className="retro-button w-full flex items-center justify-center space-x-2 p-2 text-sm hover:bg-[var(--retro-accent)] transition-colors disabled:opacity-50"
+              >
+                {restoringVersion === preview.version.version
+                  ? <Loader2 className="w-4 h-4 animate-spin" />
+                  : <RotateCcw className="w-4 h-4" />}
+                <span>Restore this version</span>
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <DesignDiffDialog
+        isOpen={comparison !== null}
+        onClose={() => setComparison(null)}
+        walletAddress={walletAddress}
+        initialBefore={comparison?.[0]}
+        initialAfter={comparison?.[1]}
+      />
+    </div>
+  );
+}
@@ -1,10 +1,14 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { UserDesignDocument } from '../../services/mongoDBService';
+import { UserDesignDocument, type OpenDesign } from '../../services/mongoDBService';
+import type { WalrusEpochInfo } from '@/services/walrusClient';
+import { useWalrus } from '@/hooks/useWalrus';
+import { useWalletService } from '@/services/walletSigner';
+import { getBlobLifetime, getDesignBlobs, getEarliestExpiry } from '@/utils/blobLifetime';
 import { DesignCard } from './DesignCard';
 
 interface DesignsListProps {
   walletAddress: string | null;
-  onLoadDesign: (designId: string) => Promise<void>;
+  onLoadDesign: (design: OpenDesign) => Promise<void>;
   onDeleteDesign?: (designId: string) => Promise<void>;
   refreshTrigger?: number; // Used to trigger refresh from parent
 }
@@ -18,8 +22,12 @@ export const DesignsList: React.FC<DesignsListProps> = ({
   const [designs, setDesigns] = useState<UserDesignDocument[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [epochInfo, setEpochInfo] = useState<WalrusEpochInfo | null>(null);
   // Removed viewMode since we only use wide cards now
 
+  const { extendBlobs, getEpochInfo } = useWalrus();
+  const walletService = useWalletService();
+
   const fetchDesigns = useCallback(async () => {
     if (!walletAddress) {
       setDesigns([]);
@@ -48,6 +56,40 @@ export const DesignsList: React.FC<DesignsListProps> = ({
     fetchDesigns();
   }, [walletAddress, refreshTrigger, fetchDesigns]);
 
+  // Without it the cards just don't show how long their blobs have left
+  useEffect(() => {
+    getEpochInfo()
+      .then(setEpochInfo)
+      .catch(err => console.error('Failed to fetch Walrus epoch info:', err));
+  }, [getEpochInfo, refreshTrigger]);
+
+  // Keep the design's blob, and the blobs of the images and fonts it reuses, stored for more
+  // epochs, paid from the connected wallet
+  const handleExtendStorage = async (design: UserDesignDocument, epochs: number) => {
+    const blobs = getDesignBlobs(design);
+    if (blobs.length === 0) return;
+    if (!walletService.isConnected) {
+      throw new Error('Connect your wallet to extend storage');
+    }
+
+    const { blobs: extended } = await extendBlobs(blobs, epochs, walletService as any);
+    const expiries = new Map(extended.map(blob => [blob.blobObjectId, blob.expiryEpoch]));
+    const withExpiries = (d: UserDesignDocument): UserDesignDocument => ({
+      ...d,
+      expiryEpoch: (d.blobObjectId && expiries.get(d.blobObjectId)) || d.expiryEpoch,
+      assetBlobs: d.assetBlobs?.map(blob => ({ ...blob, expiryEpoch: expiries.get(blob.blobObjectId) ?? blob.expiryEpoch }))
+    });
+    setDesigns(prev => prev.map(d => (d.designId === design.designId ? withExpiries(d) : d)));
+
+    try {
+      const { mongoDBService } = await import('../../services/mongoDBService');
+      await mongoDBService.updateDesignExpiry(design.designId, extended);
+    } catch (err) {
+      // The blob is extended either way; the card just shows the old expiry after a reload
+      console.warn('Failed to record the new expiry in MongoDB:', err);
+    }
+  };
+
   const handleDeleteDesign = async (designId: string) => {
     if (!onDeleteDesign) return;
 
@@ -115,6 +157,13 @@ export const DesignsList: React.FC<DesignsListProps> = ({
     );
   }
 
+  const expiringCount = epochInfo
+    ? designs.filter(design => {
+      const expiryEpoch = getEarliestExpiry(getDesignBlobs(design));
+      return expiryEpoch !== undefined && getBlobLifetime(expiryEpoch, epochInfo).expiringSoon;
+    }).length
+    : 0;
+
   return (
     <div className="p-4">
       {/* Header with controls */}
@@ -138,6 +187,13 @@ export const DesignsList: React.FC<DesignsListProps> = ({
         </div>
       </div>
 
+      {expiringCount > 0 && (
+        <div className="mb-3 p-2 rounded bg-amber-50 border border-amber-200 text-xs text-amber-800">
+          ⚠️ {expiringCount === 1 ? '1 design expires' : `${expiringCount} designs expire`} from Walrus soon.
+          Extend their storage to keep them.
+        </div>
+      )}
+
       {/* Designs - Wide Cards (One per line) */}
       <div className="space-y-3">
         {designs.map((design) => (
@@ -148,6 +204,8 @@ export const DesignsList: React.FC<DesignsListProps> = ({
             onDeleteDesign={onDeleteDesign ? handleDeleteDesign : undefined}
             isLoading={isLoading}
             isWideCard={true}
+            epochInfo={epochInfo}
+            onExtendStorage={handleExtendStorage}
           />
         ))}
       </div>
@@ -0,0 +1,221 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Download, FileImage, X } from 'lucide-react';
+import { fabric } from '@/lib/fabric';
+import {
+  DEFAULT_RASTER_EXPORT,
+  EXPORT_MULTIPLIERS,
+  downloadDataURL,
+  exportRaster,
+  isLossyFormat,
+  type RasterExportOptions,
+  type RasterExportResult,
+  type RasterFormat
+} from '@/lib/exportService';
+import RetroSwitch from '../retro-ui/switch';
+import { cn, formatFileSize } from '@/utils/helpers';
+
+interface ExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  canvas: fabric.Canvas | null;
+  hasSelection: boolean;
+}
+
+const FORMATS: { value: RasterFormat; label: string }[] = [
+  { value: 'png', label: 'PNG' },
+  { value: 'jpeg', label: 'JPEG' },
+  { value: 'webp', label: 'WebP' },
+];
+
+// Wait for option changes to settle before re-rendering large exports
+const PREVIEW_DELAY = 250;
+
+const CHECKERBOARD = 'repeating-conic-gradient(#e5e5e5 0% 25%, #ffffff 0% 50%)';
+
+export default function ExportDialog({ isOpen, onClose, canvas, hasSelection }: ExportDialogProps) {
+  const [options, setOptions] = useState<RasterExportOptions>(DEFAULT_RASTER_EXPORT);
+  const [result, setResult] = useState<RasterExportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectionOnly = options.selectionOnly && hasSelection;
+
+  // The preview is the real export, so its size is exact rather than a guess
+  useEffect(() => {
+    if (!isOpen || !canvas) return;
+
+    const timer = setTimeout(() => {
+      try {
+        setResult(exportRaster(canvas, { ...options, selectionOnly }));
+        setError(null);
+      } catch (err) {
+        console.error('Export failed:', err);
+        setResult(null);
+        setError(err instanceof Error ? err.message : 'Export failed');
+      }
+    }, PREVIEW_DELAY);
+    return () => clearTimeout(timer);
+  }, [isOpen, canvas, options, selectionOnly]);
+
+  if (!isOpen) return null;
+
+  const update = (updates: Partial<RasterExportOptions>) => {
+    setOptions(prev => ({ ...prev, ...updates }));
+  };
+
+  const handleDownload = () => {
+    if (!result) return;
+    downloadDataURL(result.dataURL, `walrus-canvas-design.${result.extension}`);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[9999] flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black bg-opacity-50"
+        onClick={onClose}
+      />
+
+      <div className="retro-panel relative z-[10000] max-w-2xl w-full max-h-[85vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-4 border-b-2 border-[var(--retro-border)]">
+          <h2 className="text-lg font-bold text-[var(--retro-text)] flex items-center space-x-2">
+            <FileImage className="w-5 h-5 text-[var(--retro-accent)]" />
+            <span>Export Image</span>
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-[var(--retro-text)] hover:opacity-75 transition-opacity"
+            title="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 grid grid-cols-1 md:grid-cols-2 gap-6">
+          {/* Preview */}
+          <div>
+            <div
+              className="w-full h-56 border-2 border-[var(--retro-border)] rounded"
+              style={{
+                // Checkerboard under the image so transparent areas are visible
+                backgroundImage: `${result ? `url(${result.dataURL}), ` : ''}${CHECKERBOARD}`,
+                backgroundSize: result ? 'contain, 16px 16px' : '16px 16px',
+                backgroundRepeat: result ? 'no-repeat, repeat' : 'repeat',
+                backgroundPosition: 'center',
+              }}
+            />
+            <div className="mt-2 text-xs text-[var(--retro-text)] space-y-1">
+              {error ? (
+                <p className="text-red-600">{error}</p>
+              ) : result ? (
+                <>
+                  <p>{result.width} × {result.height}px</p>
+                  <p>Estimated size: {formatFileSize(result.size)}</p>
+                  {options.format === 'webp' && result.mimeType !== 'image/webp' && (
+                    <p className="text-orange-600">This browser can&apos;t encode WebP; the file will be a PNG.</p>
+                  )}
+                </>
+              ) : (
+                <p className="opacity-75">Rendering preview…</p>
+              )}
+            </div>
+          </div>
+
+          {/* Options */}
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-bold text-[var(--retro-text)] mb-2">Format</label>
+              <div className="grid grid-cols-3 gap-2">
+                {FORMATS.map(format => (
+                  <button
+                    key={format.value}
+                    onClick={() => update({ format: format.value })}
+                    className={cn(
+                      "retro-button p-2 text-sm font-bold",
+                      options.format === format.value && "bg-[var(--retro-accent)]"
+                    )}
+                  >
+                    {format.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-bold text-[var(--retro-text)] mb-2">Scale</label>
+              <div className="grid grid-cols-4 gap-2">
+                {EXPORT_MULTIPLIERS.map(multiplier => (
+                  <button
+                    key={multiplier}
+                    onClick={() => update({ multiplier })}
+                    className={cn(
+                      "retro-button p-2 text-sm font-bold",
+                      options.multiplier === multiplier && "bg-[var(--retro-accent)]"
+                    )}
+                  >
+                    {multiplier}x
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {isLossyFormat(options.format) && (
+              <div>
+                <label className="block text-sm font-bold text-[var(--retro-text)] mb-2">
+                  Quality: {Math.round(options.quality * 100)}%
+                </label>
+                <input
+                  type="range"
+                  min="0.1"
+                  max="1"
+                  step="0.01"
+                  value={options.quality}
+                  onChange={(e) => update({ quality: parseFloat(e.target.value) })}
+                  className="w-full"
+                />
+              </div>
+            )}
+
+            <div className="space-y-3">
+              {options.format !== 'jpeg' && (
+                <RetroSwitch
+                  checked={options.transparent}
+                  onCheckedChange={(transparent) => update({ transparent })}
+                  label="Transparent Background"
+                />
+              )}
+              <RetroSwitch
+                checked={options.cropToContent || selectionOnly}
+                onCheckedChange={(cropToContent) => update({ cropToContent })}
+                label="Crop to Content"
+              />
+              {hasSelection && (
+                <RetroSwitch
+                  checked={options.selectionOnly}
+                  onCheckedChange={(value) => update({ selectionOnly: value })}
+                  label="Selected Objects Only"
+                />
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 border-t-2 border-[var(--retro-border)] flex justify-end space-x-2">
+          <button onClick={onClose} className="retro-button px-4 py-2 text-sm font-bold">
+            Cancel
+          </button>
+          <button
+            onClick={handleDownload}
+            disabled={!result}
+            className="retro-button px-4 py-2 text-sm font-bold flex items-center space-x-2 hover:bg-[var(--retro-accent)] disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Download className="w-4 h-4" />
+            <span>Download</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
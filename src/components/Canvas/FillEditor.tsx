@@ -0,0 +1,297 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Trash2, Upload } from 'lucide-react';
+import { cn, readFileAsDataURL } from '@/utils/helpers';
+import {
+  FILL_KINDS,
+  PATTERN_REPEATS,
+  defaultGradientStops,
+  fillStyleToCss,
+  getFillColor,
+  type FillKind,
+  type FillStyle,
+  type GradientStop,
+  type PatternRepeat
+} from '@/lib/fillStyles';
+
+interface FillEditorProps {
+  label: string;
+  value: FillStyle;
+  onChange: (style: FillStyle) => void;
+}
+
+const CHECKERBOARD = 'repeating-conic-gradient(#e5e5e5 0% 25%, #ffffff 0% 50%) 0 0 / 8px 8px';
+
+const inputClass = 'px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export default function FillEditor({ label, value, onChange }: FillEditorProps) {
+  const [selectedStop, setSelectedStop] = useState(0);
+  // Pattern is chosen but no image picked yet, so there's nothing to apply
+  const [patternPending, setPatternPending] = useState(false);
+  const [patternError, setPatternError] = useState<string | null>(null);
+  const barRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<number | null>(null);
+
+  const kind: FillKind = patternPending ? 'pattern' : value.kind;
+  const stops = value.kind === 'linear' || value.kind === 'radial' ? value.stops : [];
+  const activeStop = stops[Math.min(selectedStop, stops.length - 1)];
+
+  // A different object (or an undo) replaces the value; don't carry editor state over
+  useEffect(() => {
+    setPatternPending(false);
+    setPatternError(null);
+  }, [value.kind]);
+
+  const selectKind = (next: FillKind) => {
+    setPatternError(null);
+    if (next === value.kind) {
+      setPatternPending(false);
+      return;
+    }
+
+    const color = getFillColor(value);
+    if (next === 'solid') {
+      setPatternPending(false);
+      onChange({ kind: 'solid', color });
+    } else if (next === 'pattern') {
+      setPatternPending(true);
+    } else {
+      setPatternPending(false);
+      setSelectedStop(0);
+      const gradientStops = stops.length >= 2 ? stops : defaultGradientStops(color);
+      onChange(next === 'linear'
+        ? { kind: 'linear', stops: gradientStops, angle: value.kind === 'linear' ? value.angle : 0 }
+        : { kind: 'radial', stops: gradientStops });
+    }
+  };
+
+  const updateStops = (nextStops: GradientStop[]) => {
+    if (value.kind === 'linear' || value.kind === 'radial') {
+      onChange({ ...value, stops: nextStops });
+    }
+  };
+
+  const updateStop = (index: number, updates: Partial<GradientStop>) => {
+    updateStops(stops.map((stop, i) => (i === index ? { ...stop, ...updates } : stop)));
+  };
+
+  const offsetAt = (clientX: number) => {
+    const rect = barRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+    return Math.max(0, Math.min(1, (clientX - rect.left) / rect.width));
+  };
+
+  // Clicking the bar adds a stop there, in the color the gradient already has at that point
+  const handleBarPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    const offset = offsetAt(e.clientX);
+    const sorted = [...stops].sort((a, b) => a.offset - b.offset);
+    const next = sorted.find(stop => stop.offset >= offset) || sorted[sorted.length - 1];
+    updateStops([...stops, { offset, color: next.color, opacity: next.opacity }]);
+    setSelectedStop(stops.length);
+  };
+
+  const handleStopPointerDown = (index: number) => (e: React.PointerEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = index;
+    setSelectedStop(index);
+  };
+
+  const handleStopPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (dragRef.current === null) return;
+    updateStop(dragRef.current, { offset: offsetAt(e.clientX) });
+  };
+
+  const handleStopPointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const removeStop = () => {
+    if (stops.length <= 2) return;
+    updateStops(stops.filter((_, i) => i !== selectedStop));
+    setSelectedStop(0);
+  };
+
+  const handlePatternFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (!file.type.startsWith('image/')) {
+      setPatternError('Please choose an image file.');
+      return;
+    }
+
+    try {
+      const source = await readFileAsDataURL(file);
+      setPatternError(null);
+      setPatternPending(false);
+      onChange({
+        kind: 'pattern',
+        source,
+        repeat: value.kind === 'pattern' ? value.repeat : 'repeat',
+        scale: value.kind === 'pattern' ? value.scale : 1
+      });
+    } catch (error) {
+      console.error('Failed to read pattern image:', error);
+      setPatternError('Could not read the image.');
+    }
+  };
+
+  return (
+    <div>
+      <label className="block text-xs font-medium text-gray-600 mb-1">{label}</label>
+
+      <div className="grid grid-cols-4 gap-1 mb-2">
+        {FILL_KINDS.map(option => (
+          <button
+            key={option.kind}
+            onClick={() => selectKind(option.kind)}
+            className={cn(
+              "p-1 text-xs rounded",
+              kind === option.kind ? "bg-blue-500 text-white" : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+            )}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {kind === 'solid' && value.kind === 'solid' && (
+        <div className="flex items-center space-x-2">
+          <input
+            type="color"
+            value={/^#[0-9a-f]{6}$/i.test(value.color) ? value.color : '#000000'}
+            onChange={(e) => onChange({ kind: 'solid', color: e.target.value })}
+            className="w-8 h-8 border border-gray-300 rounded cursor-pointer"
+          />
+          <input
+            type="text"
+            value={value.color}
+            onChange={(e) => onChange({ kind: 'solid', color: e.target.value })}
+            className={cn("flex-1", inputClass)}
+          />
+        </div>
+      )}
+
+      {(kind === 'linear' || kind === 'radial') && activeStop && (
+        <div className="space-y-2">
+          {/* Stops sit under the bar; drag them to move, click the bar to add one */}
+          <div className="pb-3">
+            <div
+              ref={barRef}
+              onPointerDown={handleBarPointerDown}
+              className="relative h-6 border border-gray-300 rounded cursor-copy"
+              style={{ background: `${fillStyleToCss({ kind: 'linear', stops, angle: 0 })}, ${CHECKERBOARD}` }}
+              title="Click to add a color stop"
+            >
+              {stops.map((stop, index) => (
+                <div
+                  key={index}
+                  onPointerDown={handleStopPointerDown(index)}
+                  onPointerMove={handleStopPointerMove}
+                  onPointerUp={handleStopPointerUp}
+                  className={cn(
+                    "absolute top-full mt-0.5 w-3 h-3 -ml-1.5 rounded-sm border-2 cursor-ew-resize touch-none",
+                    index === selectedStop ? "border-blue-500" : "border-gray-500"
+                  )}
+                  style={{ left: `${stop.offset * 100}%`, backgroundColor: stop.color }}
+                  title={`${Math.round(stop.offset * 100)}%`}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <input
+              type="color"
+              value={activeStop.color}
+              onChange={(e) => updateStop(selectedStop, { color: e.target.value })}
+              className="w-8 h-8 border border-gray-300 rounded cursor-pointer"
+              title="Stop color"
+            />
+            <input
+              type="range"
+              min="0"
+              max="1"
+              step="0.01"
+              value={activeStop.opacity}
+              onChange={(e) => updateStop(selectedStop, { opacity: Number(e.target.value) })}
+              className="flex-1"
+              title={`Stop opacity ${Math.round(activeStop.opacity * 100)}%`}
+            />
+            <button
+              onClick={removeStop}
+              disabled={stops.length <= 2}
+              className="p-1 text-gray-500 hover:text-red-600 disabled:opacity-30"
+              title="Remove stop"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+
+          {value.kind === 'linear' && (
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Angle</label>
+              <input
+                type="range"
+                min="0"
+                max="359"
+                value={value.angle}
+                onChange={(e) => onChange({ ...value, angle: Number(e.target.value) })}
+                className="w-full"
+              />
+              <div className="text-xs text-gray-500 text-center">{value.angle}°</div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {kind === 'pattern' && (
+        <div className="space-y-2">
+          <div className="flex items-center space-x-2">
+            {value.kind === 'pattern' && (
+              <div
+                className="w-8 h-8 border border-gray-300 rounded flex-shrink-0"
+                style={{ backgroundImage: `url(${value.source})`, backgroundSize: `${Math.round(value.scale * 100)}%` }}
+              />
+            )}
+            <label className="flex-1 flex items-center justify-center space-x-1 p-2 text-xs bg-gray-50 text-gray-600 rounded hover:bg-gray-100 cursor-pointer">
+              <input type="file" accept="image/*" onChange={handlePatternFile} className="hidden" />
+              <Upload className="w-3 h-3" />
+              <span>{value.kind === 'pattern' ? 'Replace Image' : 'Choose Image'}</span>
+            </label>
+          </div>
+          {patternError && <p className="text-xs text-red-600">{patternError}</p>}
+
+          {value.kind === 'pattern' && (
+            <>
+              <select
+                value={value.repeat}
+                onChange={(e) => onChange({ ...value, repeat: e.target.value as PatternRepeat })}
+                className={cn("w-full", inputClass)}
+              >
+                {PATTERN_REPEATS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Scale</label>
+                <input
+                  type="range"
+                  min="0.1"
+                  max="3"
+                  step="0.05"
+                  value={value.scale}
+                  onChange={(e) => onChange({ ...value, scale: Number(e.target.value) })}
+                  className="w-full"
+                />
+                <div className="text-xs text-gray-500 text-center">{Math.round(value.scale * 100)}%</div>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronDown, Search, Upload } from 'lucide-react';
+import { cn } from '@/utils/helpers';
+import {
+  CUSTOM_FONT_TYPES,
+  FONT_CATEGORIES,
+  getAvailableFonts,
+  getFontInfo,
+  subscribeToFonts,
+  uploadCustomFont,
+  type FontCategory,
+  type FontInfo
+} from '@/utils/fontLoader';
+
+interface FontPickerProps {
+  value: string;
+  onChange: (fontName: string) => void;
+}
+
+type FontFilter = FontCategory | 'all' | 'uploaded';
+
+const FONT_ACCEPT = Object.keys(CUSTOM_FONT_TYPES).map(extension => `.${extension}`).join(',');
+
+const filterClass = (active: boolean) => cn(
+  "px-2 py-0.5 text-xs rounded-full whitespace-nowrap",
+  active ? "bg-blue-500 text-white" : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+);
+
+// Render a font name in the font itself
+const previewStyle = (font: FontInfo | undefined, name: string): React.CSSProperties => ({
+  fontFamily: `"${name}", ${font?.fallback || 'sans-serif'}`
+});
+
+export default function FontPicker({ value, onChange }: FontPickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const [filter, setFilter] = useState<FontFilter>('all');
+  const [uploadCategory, setUploadCategory] = useState<FontCategory>('sans-serif');
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [fonts, setFonts] = useState<FontInfo[]>(getAvailableFonts);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Fonts registered by a loaded design show up without reopening the picker
+  useEffect(() => subscribeToFonts(() => setFonts(getAvailableFonts())), []);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('pointerdown', handlePointerDown);
+    return () => document.removeEventListener('pointerdown', handlePointerDown);
+  }, [isOpen]);
+
+  const query = search.trim().toLowerCase();
+  const visibleFonts = fonts.filter(font => {
+    if (filter === 'uploaded' ? !font.custom : filter !== 'all' && font.category !== filter) return false;
+    return !query || font.displayName.toLowerCase().includes(query);
+  });
+
+  const selectFont = (font: FontInfo) => {
+    onChange(font.name);
+    setIsOpen(false);
+  };
+
+  const handleFontFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsUploading(true);
+    setUploadError(null);
+    try {
+      const font = await uploadCustomFont(file, uploadCategory);
+      setFonts(getAvailableFonts());
+      setSearch('');
+      setFilter('uploaded');
+      selectFont(font);
+    } catch (error) {
+      console.error('Font upload failed:', error);
+      setUploadError(error instanceof Error ? error.message : 'Could not load the font.');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const current = getFontInfo(value);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="w-full flex items-center justify-between px-2 py-1 text-sm border border-gray-300 rounded bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        <span className="truncate" style={previewStyle(current, value)}>
+          {current?.displayName || value}
+        </span>
+        <ChevronDown className="w-4 h-4 text-gray-500 flex-shrink-0" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute z-20 left-0 right-0 mt-1 p-2 space-y-2 bg-white border border-gray-200 rounded-lg shadow-lg">
+          <div className="relative">
+            <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-3 h-3 text-gray-400" />
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search fonts"
+              autoFocus
+              className="w-full pl-6 pr-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <div className="flex flex-wrap gap-1">
+            <button onClick={() => setFilter('all')} className={filterClass(filter === 'all')}>All</button>
+            {FONT_CATEGORIES.map(category => (
+              <button
+                key={category.value}
+                onClick={() => setFilter(category.value)}
+                className={filterClass(filter === category.value)}
+              >
+                {category.label}
+              </button>
+            ))}
+            <button onClick={() => setFilter('uploaded')} className={filterClass(filter === 'uploaded')}>Uploaded</button>
+          </div>
+
+          <div className="max-h-56 overflow-y-auto">
+            {visibleFonts.map(font => (
+              <button
+                key={font.name}
+                onClick={() => selectFont(font)}
+                className={cn(
+                  "w-full flex items-center justify-between px-2 py-1.5 text-left rounded",
+                  font.name === value ? "bg-blue-50 text-blue-700" : "hover:bg-gray-100"
+                )}
+              >
+                <span className="text-base truncate" style={previewStyle(font, font.name)}>
+                  {font.displayName}
+                </span>
+                <span className="ml-2 text-xs text-gray-400 flex-shrink-0">
+                  {font.custom ? 'Uploaded' : FONT_CATEGORIES.find(category => category.value === font.category)?.label}
+                </span>
+              </button>
+            ))}
+            {visibleFonts.length === 0 && (
+              <p className="px-2 py-3 text-xs text-gray-500 text-center">No fonts match.</p>
+            )}
+          </div>
+
+          {/* Uploaded fonts are saved with every design that uses them */}
+          <div className="pt-2 border-t border-gray-100">
+            <div className="flex items-center space-x-2">
+              <select
+                value={uploadCategory}
+                onChange={(e) => setUploadCategory(e.target.value as FontCategory)}
+                className="px-1 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                title="Category of the uploaded font"
+              >
+                {FONT_CATEGORIES.map(category => (
+                  <option key={category.value} value={category.value}>{category.label}</option>
+                ))}
+              </select>
+              <label className={cn(
+                "flex-1 flex items-center justify-center space-x-1 p-1.5 text-xs bg-gray-50 text-gray-600 rounded hover:bg-gray-100 cursor-pointer",
+                isUploading && "opacity-50 pointer-events-none"
+              )}>
+                <input type="file" accept={FONT_ACCEPT} onChange={handleFontFile} className="hidden" />
+                <Upload className="w-3 h-3" />
+                <span>{isUploading ? 'Loading…' : 'Upload Font'}</span>
+              </label>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">TTF, OTF or WOFF2</p>
+            {uploadError && <p className="text-xs text-red-600 mt-1">{uploadError}</p>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
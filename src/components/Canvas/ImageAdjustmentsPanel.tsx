@@ -0,0 +1,95 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { RotateCcw } from 'lucide-react';
+import { fabric } from '@/lib/fabric';
+import {
+  DEFAULT_IMAGE_ADJUSTMENTS,
+  IMAGE_ADJUSTMENT_SLIDERS,
+  IMAGE_ADJUSTMENT_TOGGLES,
+  applyImageAdjustments,
+  getImageAdjustments,
+  type ImageAdjustments,
+  type ImageAdjustmentSlider
+} from '@/lib/imageFilters';
+import { useDebouncedCommit } from '@/hooks/useDebouncedCommit';
+
+interface ImageAdjustmentsPanelProps {
+  canvas: fabric.Canvas;
+  image: fabric.Image;
+}
+
+function formatValue(key: ImageAdjustmentSlider, value: number): string {
+  if (key === 'pixelate') return value > 1 ? `${value}px` : 'Off';
+  if (key === 'hue') return `${Math.round(value * 180)}°`;
+  return `${Math.round(value * 100)}%`;
+}
+
+export default function ImageAdjustmentsPanel({ canvas, image }: ImageAdjustmentsPanelProps) {
+  const [adjustments, setAdjustments] = useState<ImageAdjustments>(() => getImageAdjustments(image));
+  const scheduleCommit = useDebouncedCommit(canvas, image);
+
+  // Undo/redo and page switches replace the image, so re-read its filters
+  useEffect(() => {
+    setAdjustments(getImageAdjustments(image));
+  }, [image]);
+
+  const apply = (next: ImageAdjustments) => {
+    setAdjustments(next);
+    applyImageAdjustments(image, next);
+    canvas.requestRenderAll();
+    scheduleCommit();
+  };
+
+  const isAdjusted = JSON.stringify(adjustments) !== JSON.stringify(DEFAULT_IMAGE_ADJUSTMENTS);
+
+  return (
+    <div className="space-y-3 p-3 bg-orange-50 rounded-lg">
+      <div className="flex items-center justify-between">
+        <h4 className="text-xs font-medium text-orange-800">Image Adjustments</h4>
+        <button
+          onClick={() => apply(DEFAULT_IMAGE_ADJUSTMENTS)}
+          disabled={!isAdjusted}
+          className="flex items-center space-x-1 text-xs text-orange-800 hover:underline disabled:opacity-40 disabled:no-underline"
+          title="Remove all adjustments"
+        >
+          <RotateCcw className="w-3 h-3" />
+          <span>Reset</span>
+        </button>
+      </div>
+
+      {IMAGE_ADJUSTMENT_SLIDERS.map(({ key, label, min, max, step }) => (
+        <div key={key}>
+          <div className="flex justify-between text-xs text-gray-600 mb-1">
+            <label className="font-medium">{label}</label>
+            <span className="text-gray-500">{formatValue(key, adjustments[key])}</span>
+          </div>
+          <input
+            type="range"
+            min={min}
+            max={max}
+            step={step}
+            value={adjustments[key]}
+            onChange={(e) => apply({ ...adjustments, [key]: Number(e.target.value) })}
+            onDoubleClick={() => apply({ ...adjustments, [key]: DEFAULT_IMAGE_ADJUSTMENTS[key] })}
+            className="w-full"
+            title="Double-click to reset"
+          />
+        </div>
+      ))}
+
+      <div className="grid grid-cols-3 gap-2">
+        {IMAGE_ADJUSTMENT_TOGGLES.map(({ key, label }) => (
+          <label key={key} className="flex items-center space-x-1 text-xs text-gray-600">
+            <input
+              type="checkbox"
+              checked={adjustments[key]}
+              onChange={(e) => apply({ ...adjustments, [key]: e.target.checked })}
+            />
+            <span>{label}</span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
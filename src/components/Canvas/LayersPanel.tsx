@@ -0,0 +1,188 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { fabric } from '@/lib/fabric';
+import { Layers, Eye, EyeOff, Lock, Unlock, ArrowUp, ArrowDown, GripVertical } from 'lucide-react';
+import { cn } from '@/utils/helpers';
+
+interface LayersPanelProps {
+  canvas: fabric.Canvas | null;
+  selectedObjects: fabric.Object[];
+  onBringForward: (object: fabric.Object) => void;
+  onSendBackward: (object: fabric.Object) => void;
+  onMoveTo: (object: fabric.Object, index: number) => void;
+  onRename: (object: fabric.Object, name: string) => void;
+  onToggleVisibility: (object: fabric.Object, visible: boolean) => void;
+  onToggleLock: (object: fabric.Object, locked: boolean) => void;
+  onSelect: (object: fabric.Object) => void;
+}
+
+const LAYER_EVENTS = ['object:added', 'object:removed', 'object:modified', 'canvas:cleared'];
+
+export function getLayerName(object: fabric.Object, index: number): string {
+  if (object.name) return object.name;
+  if (object.type === 'textbox' || object.type === 'text') {
+    const text = ((object as fabric.Textbox).text || '').trim();
+    if (text) return text.length > 24 ? `${text.slice(0, 24)}…` : text;
+  }
+  const type = object.type || 'object';
+  return `${type.charAt(0).toUpperCase() + type.slice(1)} ${index + 1}`;
+}
+
+export default function LayersPanel({
+  canvas,
+  selectedObjects,
+  onBringForward,
+  onSendBackward,
+  onMoveTo,
+  onRename,
+  onToggleVisibility,
+  onToggleLock,
+  onSelect
+}: LayersPanelProps) {
+  const [objects, setObjects] = useState<fabric.Object[]>([]);
+  const [editingObject, setEditingObject] = useState<fabric.Object | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  // Mirror the canvas stack; Fabric doesn't emit events for reordering, so the
+  // layer commands fire object:modified after changing the order
+  useEffect(() => {
+    if (!canvas) {
+      setObjects([]);
+      return;
+    }
+
+    // Editing aids such as the crop frame aren't part of the design
+    const refresh = () => setObjects(canvas.getObjects().filter(object => !object.excludeFromExport));
+    refresh();
+    LAYER_EVENTS.forEach(event => canvas.on(event, refresh));
+    return () => {
+      LAYER_EVENTS.forEach(event => canvas.off(event, refresh));
+    };
+  }, [canvas]);
+
+  // Top-most object first, like every design tool's layer list
+  const layers = objects
+    .map((object, index) => ({ object, index }))
+    .reverse();
+
+  const startRename = (object: fabric.Object, index: number) => {
+    setEditingObject(object);
+    setEditingName(getLayerName(object, index));
+  };
+
+  const commitRename = () => {
+    if (editingObject) {
+      onRename(editingObject, editingName);
+    }
+    setEditingObject(null);
+    setEditingName('');
+  };
+
+  const handleDrop = (targetIndex: number) => {
+    if (dragIndex === null || dragIndex === targetIndex) {
+      setDragIndex(null);
+      return;
+    }
+    onMoveTo(objects[dragIndex], targetIndex);
+    setDragIndex(null);
+  };
+
+  return (
+    <div className="p-4 border-t-2 border-[var(--retro-border)] retro-panel flex-shrink-0">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-bold text-[var(--retro-text)] flex items-center space-x-2">
+          <Layers className="w-4 h-4 text-[var(--retro-accent)]" />
+          <span>Layers</span>
+        </h3>
+        <span className="text-xs text-[var(--retro-text)] opacity-75">{objects.length}</span>
+      </div>
+
+      {layers.length === 0 ? (
+        <p className="text-xs text-gray-500 text-center py-2">No objects on the canvas</p>
+      ) : (
+        <ul className="max-h-56 overflow-y-auto space-y-1">
+          {layers.map(({ object, index }) => {
+            const isSelected = selectedObjects.includes(object);
+            const isLocked = object.selectable === false && object.evented === false;
+            const isHidden = object.visible === false;
+
+            return (
+              <li
+                key={index}
+                draggable={editingObject !== object}
+                onDragStart={() => setDragIndex(index)}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={() => handleDrop(index)}
+                onDragEnd={() => setDragIndex(null)}
+                onClick={() => onSelect(object)}
+                onDoubleClick={() => startRename(object, index)}
+                className={cn(
+                  "flex items-center space-x-1 px-2 py-1 text-xs rounded border cursor-pointer",
+                  isSelected
+                    ? "bg-blue-50 border-blue-400"
+                    : "bg-white border-gray-200 hover:bg-gray-50",
+                  dragIndex === index && "opacity-50",
+                  isHidden && "text-gray-400"
+                )}
+              >
+                <GripVertical className="w-3 h-3 text-gray-400 flex-shrink-0 cursor-grab" />
+
+                {editingObject === object ? (
+                  <input
+                    autoFocus
+                    value={editingName}
+                    onChange={(e) => setEditingName(e.target.value)}
+                    onBlur={commitRename}
+                    onClick={(e) => e.stopPropagation()}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setEditingObject(null);
+                    }}
+                    className="flex-1 min-w-0 px-1 py-0 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  />
+                ) : (
+                  <span className="flex-1 min-w-0 truncate" title="Double-click to rename">
+                    {getLayerName(object, index)}
+                  </span>
+                )}
+
+                <button
+                  onClick={(e) => { e.stopPropagation(); onBringForward(object); }}
+                  disabled={index === objects.length - 1}
+                  className="p-0.5 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                  title="Bring forward"
+                >
+                  <ArrowUp className="w-3 h-3" />
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); onSendBackward(object); }}
+                  disabled={index === 0}
+                  className="p-0.5 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                  title="Send backward"
+                >
+                  <ArrowDown className="w-3 h-3" />
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); onToggleVisibility(object, isHidden); }}
+                  className="p-0.5 text-gray-500 hover:text-gray-800"
+                  title={isHidden ? 'Show layer' : 'Hide layer'}
+                >
+                  {isHidden ? <EyeOff className="w-3 h-3" /> : <Eye className="w-3 h-3" />}
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); onToggleLock(object, !isLocked); }}
+                  className="p-0.5 text-gray-500 hover:text-gray-800"
+                  title={isLocked ? 'Unlock layer' : 'Lock layer'}
+                >
+                  {isLocked ? <Lock className="w-3 h-3" /> : <Unlock className="w-3 h-3" />}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
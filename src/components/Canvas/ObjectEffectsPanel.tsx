@@ -0,0 +1,176 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { fabric } from '@/lib/fabric';
+import { cn } from '@/utils/helpers';
+import {
+  BLEND_MODES,
+  DASH_STYLES,
+  DEFAULT_SHADOW,
+  LINE_CAPS,
+  LINE_JOINS,
+  SHADOW_SLIDERS,
+  applyObjectEffects,
+  getObjectEffects,
+  type ObjectEffects,
+  type ShadowSettings
+} from '@/lib/objectEffects';
+import { useDebouncedCommit } from '@/hooks/useDebouncedCommit';
+
+interface ObjectEffectsPanelProps {
+  canvas: fabric.Canvas;
+  object: fabric.Object;
+}
+
+const optionClass = (active: boolean) => cn(
+  "p-1 text-xs rounded",
+  active ? "bg-purple-500 text-white" : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+);
+
+export default function ObjectEffectsPanel({ canvas, object }: ObjectEffectsPanelProps) {
+  const [effects, setEffects] = useState<ObjectEffects>(() => getObjectEffects(object));
+  const scheduleCommit = useDebouncedCommit(canvas, object);
+
+  // Re-read when the selection changes
+  useEffect(() => {
+    setEffects(getObjectEffects(object));
+  }, [object]);
+
+  const apply = (next: ObjectEffects) => {
+    setEffects(next);
+    applyObjectEffects(object, next);
+    canvas.requestRenderAll();
+    scheduleCommit();
+  };
+
+  const { shadow } = effects;
+
+  const updateShadow = (updates: Partial<ShadowSettings>) => {
+    if (shadow) {
+      apply({ ...effects, shadow: { ...shadow, ...updates } });
+    }
+  };
+
+  return (
+    <div className="space-y-3 p-3 bg-purple-50 rounded-lg">
+      <h4 className="text-xs font-medium text-purple-800">Effects</h4>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-600 mb-1">Blend Mode</label>
+        <select
+          value={effects.blendMode}
+          onChange={(e) => apply({ ...effects, blendMode: e.target.value })}
+          className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {BLEND_MODES.map(mode => (
+            <option key={mode.value} value={mode.value}>{mode.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-600 mb-1">Stroke Style</label>
+        <div className="grid grid-cols-4 gap-1">
+          {DASH_STYLES.map(style => (
+            <button
+              key={style.value}
+              onClick={() => apply({ ...effects, dashStyle: style.value })}
+              className={optionClass(effects.dashStyle === style.value)}
+            >
+              {style.label}
+            </button>
+          ))}
+        </div>
+        {effects.dashStyle === 'custom' && (
+          <p className="text-xs text-gray-500 mt-1">Custom dash pattern</p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">Line Cap</label>
+          <div className="grid grid-cols-3 gap-1">
+            {LINE_CAPS.map(cap => (
+              <button
+                key={cap.value}
+                onClick={() => apply({ ...effects, lineCap: cap.value })}
+                className={optionClass(effects.lineCap === cap.value)}
+                title={cap.label}
+              >
+                {cap.label.charAt(0)}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">Line Join</label>
+          <div className="grid grid-cols-3 gap-1">
+            {LINE_JOINS.map(join => (
+              <button
+                key={join.value}
+                onClick={() => apply({ ...effects, lineJoin: join.value })}
+                className={optionClass(effects.lineJoin === join.value)}
+                title={join.label}
+              >
+                {join.label.charAt(0)}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <label className="flex items-center space-x-2 text-xs font-medium text-gray-600">
+        <input
+          type="checkbox"
+          checked={!!shadow}
+          onChange={(e) => apply({ ...effects, shadow: e.target.checked ? DEFAULT_SHADOW : null })}
+        />
+        <span>Drop Shadow</span>
+      </label>
+
+      {shadow && (
+        <div className="space-y-2">
+          <div className="flex items-center space-x-2">
+            <input
+              type="color"
+              value={shadow.color}
+              onChange={(e) => updateShadow({ color: e.target.value })}
+              className="w-8 h-8 border border-gray-300 rounded cursor-pointer"
+              title="Shadow color"
+            />
+            <input
+              type="range"
+              min="0"
+              max="1"
+              step="0.01"
+              value={shadow.opacity}
+              onChange={(e) => updateShadow({ opacity: Number(e.target.value) })}
+              className="flex-1"
+              title="Shadow opacity"
+            />
+            <span className="text-xs text-gray-500 w-8 text-right">{Math.round(shadow.opacity * 100)}%</span>
+          </div>
+
+          {SHADOW_SLIDERS.map(({ key, label, min, max }) => (
+            <div key={key}>
+              <div className="flex justify-between text-xs text-gray-600 mb-1">
+                <label className="font-medium">{label}</label>
+                <span className="text-gray-500">{shadow[key]}px</span>
+              </div>
+              <input
+                type="range"
+                min={min}
+                max={max}
+                value={shadow[key]}
+                onChange={(e) => updateShadow({ [key]: Number(e.target.value) })}
+                onDoubleClick={() => updateShadow({ [key]: DEFAULT_SHADOW[key] })}
+                className="w-full"
+                title="Double-click to reset"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
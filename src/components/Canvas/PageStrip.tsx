@@ -0,0 +1,157 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Plus, Copy, Trash2, ChevronLeft, ChevronRight } from 'lucide-react';
+import { cn } from '@/utils/helpers';
+import type { DesignPage } from '@/utils/designDocument';
+
+interface PageStripProps {
+  pages: DesignPage[];
+  activePageIndex: number;
+  onSelect: (index: number) => void;
+  onAdd: () => void;
+  onDuplicate: (index: number) => void;
+  onDelete: (index: number) => void;
+  onMove: (from: number, to: number) => void;
+  onRename: (index: number, name: string) => void;
+}
+
+const THUMBNAIL_HEIGHT = 64;
+
+export default function PageStrip({
+  pages,
+  activePageIndex,
+  onSelect,
+  onAdd,
+  onDuplicate,
+  onDelete,
+  onMove,
+  onRename
+}: PageStripProps) {
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const startRename = (index: number) => {
+    setEditingIndex(index);
+    setEditingName(pages[index].name);
+  };
+
+  const commitRename = () => {
+    if (editingIndex !== null) {
+      onRename(editingIndex, editingName);
+    }
+    setEditingIndex(null);
+    setEditingName('');
+  };
+
+  const handleDrop = (targetIndex: number) => {
+    if (dragIndex !== null && dragIndex !== targetIndex) {
+      onMove(dragIndex, targetIndex);
+    }
+    setDragIndex(null);
+  };
+
+  return (
+    <div className="retro-panel mx-8 mb-4 p-2 flex items-end space-x-2 overflow-x-auto flex-shrink-0">
+      {pages.map((page, index) => {
+        const isActive = index === activePageIndex;
+
+        return (
+          <div
+            key={page.id}
+            draggable={editingIndex !== index}
+            onDragStart={() => setDragIndex(index)}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={() => handleDrop(index)}
+            onDragEnd={() => setDragIndex(null)}
+            onClick={() => onSelect(index)}
+            className={cn(
+              "group flex-shrink-0 p-1 rounded border-2 cursor-pointer",
+              isActive ? "border-blue-500 bg-blue-50" : "border-transparent hover:border-gray-300",
+              dragIndex === index && "opacity-50"
+            )}
+          >
+            <div
+              className="border border-gray-300 rounded bg-white bg-center bg-no-repeat bg-contain"
+              style={{
+                height: THUMBNAIL_HEIGHT,
+                width: Math.round(THUMBNAIL_HEIGHT * page.width / (page.height || 1)),
+                backgroundColor: page.background,
+                backgroundImage: page.thumbnail ? `url(${page.thumbnail})` : undefined
+              }}
+            />
+
+            <div className="flex items-center mt-1 space-x-0.5" style={{ maxWidth: 140 }}>
+              {editingIndex === index ? (
+                <input
+                  autoFocus
+                  value={editingName}
+                  onChange={(e) => setEditingName(e.target.value)}
+                  onBlur={commitRename}
+                  onClick={(e) => e.stopPropagation()}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setEditingIndex(null);
+                  }}
+                  className="flex-1 min-w-0 px-1 py-0 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                />
+              ) : (
+                <span
+                  className="flex-1 min-w-0 truncate text-xs text-[var(--retro-text)]"
+                  title="Double-click to rename"
+                  onDoubleClick={() => startRename(index)}
+                >
+                  {index + 1}. {page.name}
+                </span>
+              )}
+
+              <div className="hidden group-hover:flex items-center">
+                <button
+                  onClick={(e) => { e.stopPropagation(); onMove(index, index - 1); }}
+                  disabled={index === 0}
+                  className="p-0.5 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                  title="Move page left"
+                >
+                  <ChevronLeft className="w-3 h-3" />
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); onMove(index, index + 1); }}
+                  disabled={index === pages.length - 1}
+                  className="p-0.5 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                  title="Move page right"
+                >
+                  <ChevronRight className="w-3 h-3" />
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); onDuplicate(index); }}
+                  className="p-0.5 text-gray-500 hover:text-gray-800"
+                  title="Duplicate page"
+                >
+                  <Copy className="w-3 h-3" />
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); onDelete(index); }}
+                  disabled={pages.length <= 1}
+                  className="p-0.5 text-gray-500 hover:text-red-600 disabled:opacity-30"
+                  title="Delete page"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+            </div>
+          </div>
+        );
+      })}
+
+      <button
+        onClick={onAdd}
+        className="retro-button flex-shrink-0 flex items-center justify-center"
+        style={{ width: 48, height: THUMBNAIL_HEIGHT }}
+        title="Add page"
+      >
+        <Plus className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
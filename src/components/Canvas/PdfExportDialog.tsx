@@ -0,0 +1,117 @@
+'use client';
+
+import React, { useState } from 'react';
+import { FileText, Loader2, X } from 'lucide-react';
+import { DEFAULT_PDF_EXPORT, type PdfExportOptions } from '@/lib/pdfExport';
+import RetroSwitch from '../retro-ui/switch';
+
+interface PdfExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onExport: (options: PdfExportOptions) => Promise<Uint8Array>;
+  pageCount: number;
+}
+
+// Common print-shop bleed
+const STANDARD_BLEED_MM = 3;
+
+export default function PdfExportDialog({ isOpen, onClose, onExport, pageCount }: PdfExportDialogProps) {
+  const [options, setOptions] = useState<PdfExportOptions>(DEFAULT_PDF_EXPORT);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const bytes = await onExport(options);
+      const url = URL.createObjectURL(new Blob([bytes as BlobPart], { type: 'application/pdf' }));
+      const link = document.createElement('a');
+      link.download = 'walrus-canvas-design.pdf';
+      link.href = url;
+      link.click();
+      URL.revokeObjectURL(url);
+      onClose();
+    } catch (err) {
+      console.error('PDF export failed:', err);
+      setError(err instanceof Error ? err.message : 'PDF export failed');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[9999] flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black bg-opacity-50"
+        onClick={onClose}
+      />
+
+      <div className="retro-panel relative z-[10000] max-w-md w-full">
+        <div className="flex items-center justify-between p-4 border-b-2 border-[var(--retro-border)]">
+          <h2 className="text-lg font-bold text-[var(--retro-text)] flex items-center space-x-2">
+            <FileText className="w-5 h-5 text-[var(--retro-accent)]" />
+            <span>Export PDF</span>
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-[var(--retro-text)] hover:opacity-75 transition-opacity"
+            title="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <p className="text-xs text-[var(--retro-text)] opacity-75">
+            {pageCount === 1 ? '1 page' : `${pageCount} pages`}. Text and shapes stay vector; fonts are embedded.
+          </p>
+
+          <RetroSwitch
+            checked={options.bleed > 0}
+            onCheckedChange={(enabled) => setOptions(prev => ({ ...prev, bleed: enabled ? STANDARD_BLEED_MM : 0 }))}
+            label="Bleed"
+          />
+          {options.bleed > 0 && (
+            <label className="block text-xs font-bold text-[var(--retro-text)]">
+              Bleed (mm)
+              <input
+                type="number"
+                min="0"
+                max="20"
+                step="0.5"
+                value={options.bleed}
+                onChange={(e) => setOptions(prev => ({ ...prev, bleed: Math.max(0, parseFloat(e.target.value) || 0) }))}
+                className="mt-1 w-full px-2 py-1 text-sm border-2 border-[var(--retro-border)] rounded-md focus:outline-none focus:ring-2 focus:ring-[var(--retro-accent)] bg-[var(--retro-bg)] text-[var(--retro-text)]"
+              />
+            </label>
+          )}
+          <RetroSwitch
+            checked={options.cropMarks}
+            onCheckedChange={(cropMarks) => setOptions(prev => ({ ...prev, cropMarks }))}
+            label="Crop Marks"
+          />
+
+          {error && <p className="text-xs text-red-600">{error}</p>}
+        </div>
+
+        <div className="p-4 border-t-2 border-[var(--retro-border)] flex justify-end space-x-2">
+          <button onClick={onClose} className="retro-button px-4 py-2 text-sm font-bold">
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="retro-button px-4 py-2 text-sm font-bold flex items-center space-x-2 hover:bg-[var(--retro-accent)] disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileText className="w-4 h-4" />}
+            <span>{isExporting ? 'Generating…' : 'Download PDF'}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
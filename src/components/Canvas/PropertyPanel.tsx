@@ -2,26 +2,77 @@
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { fabric } from '@/lib/fabric';
-import { Download, Upload, Save, Settings, Link, Wallet, Copy, ExternalLink, RefreshCw, CheckCircle } from 'lucide-react';
+import {
+  Download, Upload, Save, Settings, Link, Wallet, Copy, ExternalLink, RefreshCw, CheckCircle,
+  Group, Ungroup, AlignStartVertical, AlignCenterVertical, AlignEndVertical,
+  AlignStartHorizontal, AlignCenterHorizontal, AlignEndHorizontal,
+  AlignHorizontalDistributeCenter, AlignVerticalDistributeCenter, Crop, SquareDashed, Check, X, GitCompare
+} from 'lucide-react';
 import { cn } from '@/utils/helpers';
-import { AVAILABLE_FONTS } from '@/utils/fontLoader';
+import { updateTextFontFamily } from '@/utils/fontLoader';
+import type { DesignDocument } from '@/utils/designDocument';
+import type { PdfExportOptions } from '@/lib/pdfExport';
+import { isSvgFile } from '@/lib/svgImport';
+import { CROP_ASPECT_RATIOS, isMaskShape } from '@/lib/imageCrop';
+import { createFabricFill, readFillStyle, type FillStyle } from '@/lib/fillStyles';
+import { rescaleDashArray } from '@/lib/objectEffects';
+import { isTextObject } from '@/lib/typography';
 import AIImageModal from '../AI/AIImageModal';
 import WalrusPopup from '../Storage/WalrusPopup';
+import ExportDialog from './ExportDialog';
+import PdfExportDialog from './PdfExportDialog';
+import ImageAdjustmentsPanel from './ImageAdjustmentsPanel';
+import ObjectEffectsPanel from './ObjectEffectsPanel';
+import TypographyPanel from './TypographyPanel';
+import FillEditor from './FillEditor';
+import FontPicker from './FontPicker';
 import { DesignsList } from './DesignsList';
+import DesignHistoryPanel from './DesignHistoryPanel';
+import DesignDiffDialog from './DesignDiffDialog';
 import { useMongoDBDesigns } from '../../hooks/useMongoDBDesigns';
+import type { OpenDesign } from '../../services/mongoDBService';
 import { useCurrentAccount, useCurrentWallet } from '@mysten/dapp-kit';
+import type { AlignMode, DistributeAxis, EditorTool } from '@/hooks/useCanvas';
+
+const ALIGN_OPTIONS: { mode: AlignMode; label: string; icon: React.ElementType }[] = [
+  { mode: 'left', label: 'Align left', icon: AlignStartVertical },
+  { mode: 'center', label: 'Align center', icon: AlignCenterVertical },
+  { mode: 'right', label: 'Align right', icon: AlignEndVertical },
+  { mode: 'top', label: 'Align top', icon: AlignStartHorizontal },
+  { mode: 'middle', label: 'Align middle', icon: AlignCenterHorizontal },
+  { mode: 'bottom', label: 'Align bottom', icon: AlignEndHorizontal },
+];
 
 interface PropertyPanelProps {
   canvas: fabric.Canvas | null;
   selectedObjects: fabric.Object[];
   onExport?: (format: 'json' | 'svg' | 'png') => any;
+  onExportPdf?: (options: PdfExportOptions) => Promise<Uint8Array>;
+  pageCount?: number;
   onAddImage?: (url: string) => void;
-  selectedTool?: 'select' | 'text' | 'rectangle' | 'circle' | 'image' | 'pencil';
+  onImportSvg?: (markup: string, asGroup: boolean) => void;
+  selectedTool?: EditorTool;
   activeAIPanel?: 'image' | null;
   onCloseAIPanel?: () => void;
   onLoad?: (designData: any) => void;
+  onGetDesignData?: () => DesignDocument;
+  onGetThumbnail?: () => string | undefined;
+  currentDesign?: OpenDesign | null;
+  onOpenDesign?: (design: OpenDesign | null) => void;
   onWalrusActionRef?: React.MutableRefObject<((action: 'save' | 'load') => void) | null>;
   onRefreshDesigns?: () => void; // Callback to refresh designs list
+  onGroup?: () => void;
+  onUngroup?: () => void;
+  onAlign?: (mode: AlignMode) => void;
+  onDistribute?: (axis: DistributeAxis) => void;
+  isCropping?: boolean;
+  cropAspectRatio?: number | null;
+  onStartCrop?: () => void;
+  onApplyCrop?: () => void;
+  onCancelCrop?: () => void;
+  onSetCropAspectRatio?: (aspectRatio: number | null) => void;
+  onMaskImage?: () => void;
+  onReleaseMask?: () => void;
   showWalletSection?: boolean;
   showWalrusSection?: boolean;
 }
@@ -30,13 +81,32 @@ export default function PropertyPanel({
   canvas, 
   selectedObjects, 
   onExport,
+  onExportPdf,
+  pageCount = 1,
   onAddImage,
+  onImportSvg,
   selectedTool = 'select',
   activeAIPanel = null,
   onCloseAIPanel,
   onLoad,
+  onGetDesignData,
+  onGetThumbnail,
+  currentDesign = null,
+  onOpenDesign,
   onWalrusActionRef,
   onRefreshDesigns,
+  onGroup,
+  onUngroup,
+  onAlign,
+  onDistribute,
+  isCropping = false,
+  cropAspectRatio = null,
+  onStartCrop,
+  onApplyCrop,
+  onCancelCrop,
+  onSetCropAspectRatio,
+  onMaskImage,
+  onReleaseMask,
   showWalletSection = false,
   showWalrusSection = false
 }: PropertyPanelProps) {
@@ -70,11 +140,15 @@ export default function PropertyPanel({
   const [copied, setCopied] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showWalrusPopup, setShowWalrusPopup] = useState(false);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [showPdfDialog, setShowPdfDialog] = useState(false);
+  const [showDiffDialog, setShowDiffDialog] = useState(false);
+  const [importSvgAsGroup, setImportSvgAsGroup] = useState(false);
   const [walrusPopupMode, setWalrusPopupMode] = useState<'save' | 'load'>('save');
   const [designsRefreshTrigger, setDesignsRefreshTrigger] = useState(0);
   const [properties, setProperties] = useState({
-    fill: '#000000',
-    stroke: '#000000',
+    fill: { kind: 'solid', color: '#000000' } as FillStyle,
+    stroke: { kind: 'solid', color: '#000000' } as FillStyle,
     strokeWidth: 1,
     opacity: 1,
     angle: 0,
@@ -92,10 +166,18 @@ export default function PropertyPanel({
     textAlign: 'left',
     lineHeight: 1,
     charSpacing: 0,
+    // Shape-specific properties
+    rx: 0,
+    sides: 6,
+    starPoints: 5,
+    innerRadius: 0.5,
+    arrowHeads: 'end',
+    headSize: 12,
   });
 
   // Debounce timer ref
   const debounceTimer = useRef<NodeJS.Timeout | null>(null);
+  const fillCommitTimer = useRef<NodeJS.Timeout | null>(null);
 
   // Wallet helper functions
   const handleCopyAddress = async () => {
@@ -111,28 +193,40 @@ export default function PropertyPanel({
   };
 
   // MongoDB design handlers
-  const handleLoadMongoDBDesign = useCallback(async (designId: string) => {
-    if (!canvas) {
+  const handleLoadMongoDBDesign = useCallback(async (design: OpenDesign) => {
+    if (!onLoad) {
       console.error('Canvas not available');
       return;
     }
     
     try {
-      await loadDesignToCanvas(designId, canvas);
+      await loadDesignToCanvas(design.designId, onLoad);
+      // Later saves become new versions of this design
+      onOpenDesign?.(design);
       console.log('✅ Design loaded from MongoDB successfully');
     } catch (error) {
       console.error('Failed to load design from MongoDB:', error);
     }
-  }, [canvas, loadDesignToCanvas]);
+  }, [onLoad, onOpenDesign, loadDesignToCanvas]);
 
   const handleDeleteMongoDBDesign = useCallback(async (designId: string) => {
     try {
       await deleteDesign(designId);
+      if (designId === currentDesign?.designId) {
+        onOpenDesign?.(null);
+      }
       console.log('✅ Design deleted from MongoDB successfully');
     } catch (error) {
       console.error('Failed to delete design from MongoDB:', error);
     }
-  }, [deleteDesign]);
+  }, [deleteDesign, currentDesign, onOpenDesign]);
+
+  // A restored version stays part of the open design, so saving it adds a version
+  const handleRestoreVersion = useCallback((canvasData: object) => {
+    if (!onLoad || !currentDesign) return;
+    onLoad(canvasData);
+    onOpenDesign?.(currentDesign);
+  }, [onLoad, currentDesign, onOpenDesign]);
 
   const handleRefreshDesigns = useCallback(() => {
     console.log('🔄 Refreshing designs list...');
@@ -174,8 +268,8 @@ export default function PropertyPanel({
       const obj = selectedObjects[0];
       setSelectedObject(obj);
       setProperties({
-        fill: (obj.fill as string) || '#000000',
-        stroke: (obj.stroke as string) || '#000000',
+        fill: readFillStyle(obj.fill || '#000000'),
+        stroke: readFillStyle(obj.stroke || '#000000'),
         strokeWidth: obj.strokeWidth || 1,
         opacity: obj.opacity || 1,
         angle: obj.angle || 0,
@@ -193,12 +287,24 @@ export default function PropertyPanel({
         textAlign: (obj as any).textAlign || 'left',
         lineHeight: (obj as any).lineHeight || 1,
         charSpacing: (obj as any).charSpacing || 0,
+        // Shape-specific properties
+        rx: (obj as any).rx || 0,
+        sides: (obj as any).sides || 6,
+        starPoints: (obj as any).starPoints || 5,
+        innerRadius: (obj as any).innerRadius || 0.5,
+        arrowHeads: (obj as any).arrowHeads || 'end',
+        headSize: (obj as any).headSize || 12,
       });
     } else {
       setSelectedObject(null);
     }
   }, [selectedObjects]);
 
+  // Masking takes exactly one image and one shape or text object
+  const selectedImage = selectedObjects.find(obj => obj.type === 'image');
+  const canMaskSelection = selectedObjects.length === 2 && !!selectedImage &&
+    selectedObjects.some(obj => obj !== selectedImage && isMaskShape(obj));
+
   // Cleanup debounce timer on unmount
   useEffect(() => {
     return () => {
@@ -241,6 +347,7 @@ export default function PropertyPanel({
     // Set new timer
     debounceTimer.current = setTimeout(() => {
       console.log('Executing debounced update for:', key, value);
+      const previousStrokeWidth = selectedObject.strokeWidth || 0;
       // For text objects, handle specific properties that need special treatment
       if (selectedObject.type === 'text' || selectedObject.type === 'textbox') {
         const textObj = selectedObject as fabric.Textbox;
@@ -278,6 +385,7 @@ export default function PropertyPanel({
             textObj.dirty = true;
             
             canvas.renderAll();
+            canvas.fire('object:modified', { target: selectedObject });
             return;
           } else {
             textObj.set({
@@ -310,9 +418,16 @@ export default function PropertyPanel({
         (selectedObject as any).set(key, value);
       }
       
+      // Preset dash patterns are measured in stroke widths
+      if (key === 'strokeWidth') {
+        rescaleDashArray(selectedObject, previousStrokeWidth);
+      }
+
       // Ensure the object is properly updated and rendered
       selectedObject.setCoords();
       canvas.renderAll();
+      // Let the canvas history record panel edits like any other modification
+      canvas.fire('object:modified', { target: selectedObject });
       
       console.log('Canvas objects after update:', canvas.getObjects().length);
       console.log('Selected object after update:', selectedObject);
@@ -352,6 +467,17 @@ export default function PropertyPanel({
         
         selectedObject.setCoords();
         canvas.renderAll();
+        canvas.fire('object:modified', { target: selectedObject });
+      } else if (key === 'fontFamily' && isTextObject(selectedObject)) {
+        // Loads the font first, and only changes the selected characters while editing
+        const target = selectedObject;
+        updateTextFontFamily(target, value, canvas).then(updated => {
+          if (updated) {
+            canvas.fire('object:modified', { target });
+          } else {
+            debouncedUpdateProperty(key, value);
+          }
+        });
       } else if (key === 'fontFamily') {
         // Font family changes should always be debounced for proper handling
         debouncedUpdateProperty(key, value);
@@ -361,38 +487,81 @@ export default function PropertyPanel({
       }
   };
 
-  const handleExport = (format: 'json' | 'svg' | 'png') => {
+  // Geometry properties of custom shapes change how the object is drawn, so apply them together
+  const updateShapeProperties = (updates: Record<string, any>) => {
+    if (!selectedObject || !canvas) return;
+
+    setProperties(prev => ({ ...prev, ...updates }));
+    selectedObject.set(updates);
+    selectedObject.dirty = true;
+    selectedObject.setCoords();
+    canvas.renderAll();
+    canvas.fire('object:modified', { target: selectedObject });
+  };
+
+  // Fill edits stream in while stops or sliders are dragged; the object updates live and
+  // history records the result once editing pauses
+  const applyFillStyle = async (key: 'fill' | 'stroke', style: FillStyle) => {
+    if (!selectedObject || !canvas) return;
+
+    const target = selectedObject;
+    setProperties(prev => ({ ...prev, [key]: style }));
+
+    let fill;
+    try {
+      fill = await createFabricFill(style);
+    } catch (error) {
+      console.error(`Failed to apply ${key}:`, error);
+      return;
+    }
+
+    target.set(key, fill);
+    target.dirty = true;
+    canvas.requestRenderAll();
+
+    if (fillCommitTimer.current) {
+      clearTimeout(fillCommitTimer.current);
+    }
+    fillCommitTimer.current = setTimeout(() => {
+      fillCommitTimer.current = null;
+      canvas.fire('object:modified', { target });
+    }, 300);
+  };
+
+  // Raster formats go through the export dialog; SVG and JSON download directly
+  const handleExport = (format: 'json' | 'svg') => {
     if (!canvas || !onExport) return;
     
     const data = onExport(format);
+    const content = format === 'json' ? JSON.stringify(data) : data;
     
-    if (format === 'png') {
-      const link = document.createElement('a');
-      link.download = `walrus-canvas-design.${format}`;
-      link.href = data;
-      link.click();
-    } else {
-      const blob = new Blob([data], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.download = `walrus-canvas-design.${format}`;
-      link.href = url;
-      link.click();
-      URL.revokeObjectURL(url);
-    }
+    const blob = new Blob([content], { type: format === 'json' ? 'application/json' : 'image/svg+xml' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.download = `walrus-canvas-design.${format}`;
+    link.href = url;
+    link.click();
+    URL.revokeObjectURL(url);
   };
 
   const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (!file || !canvas) return;
+    // Allow importing the same file again
+    event.target.value = '';
+    if (!file) return;
 
     const reader = new FileReader();
     reader.onload = (e) => {
+      const text = e.target?.result as string;
+      if (isSvgFile(file)) {
+        onImportSvg?.(text, importSvgAsGroup);
+        return;
+      }
+
+      if (!onLoad) return;
       try {
-        const data = JSON.parse(e.target?.result as string);
-        canvas.loadFromJSON(data, () => {
-          canvas.renderAll();
-        });
+        const data = JSON.parse(text);
+        onLoad(data);
       } catch (error) {
         console.error('Failed to load design:', error);
       }
@@ -601,6 +770,13 @@ export default function PropertyPanel({
               <Settings className="w-4 h-4 text-[var(--retro-accent)]" />
               <span>My Designs</span>
             </h3>
+            <button
+              onClick={() => setShowDiffDialog(true)}
+              className="p-1 text-[var(--retro-text)] hover:opacity-75 transition-opacity"
+              title="Compare designs"
+            >
+              <GitCompare className="w-4 h-4" />
+            </button>
           </div>
           
           <div className="h-64 overflow-hidden">
@@ -614,6 +790,16 @@ export default function PropertyPanel({
         </div>
         )}
 
+        {/* Version history of the open design */}
+        {isConnected && currentDesign && (
+          <DesignHistoryPanel
+            design={currentDesign}
+            onRestore={handleRestoreVersion}
+            refreshTrigger={designsRefreshTrigger}
+            walletAddress={address || undefined}
+          />
+        )}
+
         {/* Prioritize Walrus popup when open */}
         {showWalrusPopup ? (
           <div className="h-full w-full min-w-0 max-w-full">
@@ -621,6 +807,10 @@ export default function PropertyPanel({
               isOpen={showWalrusPopup}
               onClose={() => setShowWalrusPopup(false)}
               canvas={canvas}
+              getDesignData={onGetDesignData}
+              getThumbnail={onGetThumbnail}
+              currentDesign={currentDesign}
+              onDesignSaved={onOpenDesign}
               onLoad={onLoad}
               onSave={handleRefreshDesigns}
               mode={walrusPopupMode}
@@ -718,13 +908,14 @@ export default function PropertyPanel({
             <div className="p-4 border-b border-gray-200">
               <h3 className="text-sm font-medium text-gray-700 mb-3">Export/Import</h3>
               <div className="space-y-2">
-                <div className="grid grid-cols-3 gap-2">
+                <div className="grid grid-cols-2 gap-2">
                   <button
-                    onClick={() => handleExport('png')}
+                    onClick={() => setShowExportDialog(true)}
                     className="flex items-center justify-center space-x-1 p-2 text-sm bg-blue-50 text-blue-600 rounded hover:bg-blue-100"
+                    title="PNG, JPEG or WebP"
                   >
                     <Download className="w-4 h-4" />
-                    <span>PNG</span>
+                    <span>Image</span>
                   </button>
                   <button
                     onClick={() => handleExport('svg')}
@@ -740,50 +931,115 @@ export default function PropertyPanel({
                     <Download className="w-4 h-4" />
                     <span>JSON</span>
                   </button>
+                  <button
+                    onClick={() => setShowPdfDialog(true)}
+                    disabled={!onExportPdf}
+                    className="flex items-center justify-center space-x-1 p-2 text-sm bg-red-50 text-red-600 rounded hover:bg-red-100 disabled:opacity-50"
+                    title="Print-ready PDF with optional bleed and crop marks"
+                  >
+                    <Download className="w-4 h-4" />
+                    <span>PDF</span>
+                  </button>
                 </div>
                 
                 <label className="block">
                   <input
                     type="file"
-                    accept=".json"
+                    accept=".json,.svg,image/svg+xml"
                     onChange={handleImport}
                     className="hidden"
                   />
-                  <div className="flex items-center justify-center space-x-1 p-2 text-sm bg-gray-50 text-gray-600 rounded hover:bg-gray-100 cursor-pointer">
+                  <div
+                    className="flex items-center justify-center space-x-1 p-2 text-sm bg-gray-50 text-gray-600 rounded hover:bg-gray-100 cursor-pointer"
+                    title="A saved design (.json) or vector artwork (.svg)"
+                  >
                     <Upload className="w-4 h-4" />
-                    <span>Import JSON</span>
+                    <span>Import JSON / SVG</span>
                   </div>
                 </label>
+                <label className="flex items-center space-x-2 text-xs text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={importSvgAsGroup}
+                    onChange={(e) => setImportSvgAsGroup(e.target.checked)}
+                  />
+                  <span>Keep imported SVG as one group</span>
+                </label>
               </div>
             </div>
 
             {/* Object Properties */}
-            {selectedObject ? (
+            {isCropping ? (
+              <div className="p-4 space-y-4">
+                <h3 className="text-sm font-medium text-gray-700">Crop Image</h3>
+                <p className="text-xs text-gray-500">
+                  Drag the frame or its handles. Enter applies the crop, Esc cancels it.
+                </p>
+
+                {onSetCropAspectRatio && (
+                  <div>
+                    <label className="block text-xs font-medium text-gray-600 mb-1">Aspect Ratio</label>
+                    <div className="grid grid-cols-3 gap-1">
+                      {CROP_ASPECT_RATIOS.map(({ label, value }) => (
+                        <button
+                          key={label}
+                          onClick={() => onSetCropAspectRatio(value)}
+                          className={cn(
+                            "p-2 text-xs rounded",
+                            cropAspectRatio === value ? "bg-blue-500 text-white" : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+                          )}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                <div className="grid grid-cols-2 gap-2">
+                  <button
+                    onClick={onCancelCrop}
+                    className="flex items-center justify-center space-x-1 p-2 text-sm bg-gray-50 text-gray-700 rounded hover:bg-gray-100"
+                  >
+                    <X className="w-4 h-4" />
+                    <span>Cancel</span>
+                  </button>
+                  <button
+                    onClick={onApplyCrop}
+                    className="flex items-center justify-center space-x-1 p-2 text-sm bg-blue-50 text-blue-600 rounded hover:bg-blue-100"
+                  >
+                    <Check className="w-4 h-4" />
+                    <span>Apply Crop</span>
+                  </button>
+                </div>
+              </div>
+            ) : selectedObject ? (
               <div className="p-4 space-y-4">
                 <h3 className="text-sm font-medium text-gray-700">Object Properties</h3>
+
+                {/* Ungroup - Only show for groups */}
+                {selectedObject.type === 'group' && onUngroup && (
+                  <button
+                    onClick={onUngroup}
+                    className="w-full flex items-center justify-center space-x-1 p-2 text-sm bg-gray-50 text-gray-700 rounded hover:bg-gray-100"
+                  >
+                    <Ungroup className="w-4 h-4" />
+                    <span>Ungroup</span>
+                  </button>
+                )}
             
                 {/* Text Properties - Only show for text objects */}
-                {(selectedObject.type === 'text' || selectedObject.type === 'textbox') && (
+                {isTextObject(selectedObject) && (
                   <div className="space-y-3 p-3 bg-blue-50 rounded-lg">
                     <h4 className="text-xs font-medium text-blue-800">Text Properties</h4>
                     
                     {/* Font Family */}
                     <div>
                       <label className="block text-xs font-medium text-gray-600 mb-1">Font Family</label>
-                      <select
+                      <FontPicker
                         value={properties.fontFamily}
-                        onChange={(e) => {
-                          console.log('Font family change requested:', e.target.value);
-                          updateProperty('fontFamily', e.target.value);
-                        }}
-                        className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
-                      >
-                        {AVAILABLE_FONTS.map((font) => (
-                          <option key={font.name} value={font.name}>
-                            {font.displayName}
-                          </option>
-                        ))}
-                      </select>
+                        onChange={(fontName) => updateProperty('fontFamily', fontName)}
+                      />
                     </div>
 
                     {/* Font Size */}
@@ -806,32 +1062,6 @@ export default function PropertyPanel({
                       />
                     </div>
 
-                    {/* Font Weight & Style */}
-                    <div className="grid grid-cols-2 gap-2">
-                      <div>
-                        <label className="block text-xs font-medium text-gray-600 mb-1">Weight</label>
-                        <select
-                          value={properties.fontWeight}
-                          onChange={(e) => updateProperty('fontWeight', e.target.value)}
-                          className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
-                        >
-                          <option value="normal">Normal</option>
-                          <option value="bold">Bold</option>
-                        </select>
-                      </div>
-                      <div>
-                        <label className="block text-xs font-medium text-gray-600 mb-1">Style</label>
-                        <select
-                          value={properties.fontStyle}
-                          onChange={(e) => updateProperty('fontStyle', e.target.value)}
-                          className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
-                        >
-                          <option value="normal">Normal</option>
-                          <option value="italic">Italic</option>
-                        </select>
-                      </div>
-                    </div>
-
                     {/* Text Alignment */}
                     <div>
                       <label className="block text-xs font-medium text-gray-600 mb-1">Alignment</label>
@@ -852,6 +1082,8 @@ export default function PropertyPanel({
                       </div>
                     </div>
 
+                    {canvas && <TypographyPanel canvas={canvas} text={selectedObject as fabric.Text} />}
+
                     {/* Textbox Size - Only for textbox objects */}
                     {selectedObject.type === 'textbox' && (
                       <div className="grid grid-cols-2 gap-2">
@@ -896,56 +1128,173 @@ export default function PropertyPanel({
                   </div>
                 )}
                 
-                {/* Fill Color */}
-                <div>
-                  <label className="block text-xs font-medium text-gray-600 mb-1">Fill Color</label>
-                  <div className="flex items-center space-x-2">
-                    <input
-                      type="color"
-                      value={properties.fill}
-                      onChange={(e) => updateProperty('fill', e.target.value)}
-                      className="w-8 h-8 border border-gray-300 rounded cursor-pointer"
-                    />
-                    <input
-                      type="text"
-                      value={properties.fill}
-                      onChange={(e) => updateProperty('fill', e.target.value)}
-                      className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    />
+                {/* Crop and mask - Only show for images */}
+                {selectedObject.type === 'image' && (onStartCrop || onReleaseMask) && (
+                  <div className="grid grid-cols-2 gap-2">
+                    {onStartCrop && (
+                      <button
+                        onClick={onStartCrop}
+                        className="flex items-center justify-center space-x-1 p-2 text-sm bg-gray-50 text-gray-700 rounded hover:bg-gray-100"
+                      >
+                        <Crop className="w-4 h-4" />
+                        <span>Crop</span>
+                      </button>
+                    )}
+                    {onReleaseMask && selectedObject.clipPath && (
+                      <button
+                        onClick={onReleaseMask}
+                        className="flex items-center justify-center space-x-1 p-2 text-sm bg-gray-50 text-gray-700 rounded hover:bg-gray-100"
+                        title="Turn the mask back into a separate shape"
+                      >
+                        <SquareDashed className="w-4 h-4" />
+                        <span>Release Mask</span>
+                      </button>
+                    )}
                   </div>
-                </div>
+                )}
 
-                {/* Stroke Color */}
-                <div>
-                  <label className="block text-xs font-medium text-gray-600 mb-1">Stroke Color</label>
-                  <div className="flex items-center space-x-2">
-                    <input
-                      type="color"
-                      value={properties.stroke}
-                      onChange={(e) => updateProperty('stroke', e.target.value)}
-                      className="w-8 h-8 border border-gray-300 rounded cursor-pointer"
-                    />
-                    <input
-                      type="text"
+                {/* Image Adjustments - Only show for images */}
+                {selectedObject.type === 'image' && canvas && (
+                  <ImageAdjustmentsPanel canvas={canvas} image={selectedObject as fabric.Image} />
+                )}
+
+                {/* Shape Properties - Only show for shapes with editable geometry */}
+                {['rect', 'regularPolygon', 'star', 'arrow'].includes(selectedObject.type || '') && (
+                  <div className="space-y-3 p-3 bg-green-50 rounded-lg">
+                    <h4 className="text-xs font-medium text-green-800">Shape Properties</h4>
+
+                    {selectedObject.type === 'rect' && (
+                      <div>
+                        <label className="block text-xs font-medium text-gray-600 mb-1">Corner Radius</label>
+                        <input
+                          type="range"
+                          min="0"
+                          max={Math.round(Math.min(properties.width, properties.height) / 2)}
+                          value={properties.rx}
+                          onChange={(e) => {
+                            const value = Number(e.target.value);
+                            updateShapeProperties({ rx: value, ry: value });
+                          }}
+                          className="w-full"
+                        />
+                        <div className="text-xs text-gray-500 text-center">{Math.round(properties.rx)}px</div>
+                      </div>
+                    )}
+
+                    {selectedObject.type === 'regularPolygon' && (
+                      <div>
+                        <label className="block text-xs font-medium text-gray-600 mb-1">Sides</label>
+                        <input
+                          type="number"
+                          min="3"
+                          max="12"
+                          value={properties.sides}
+                          onChange={(e) => {
+                            const value = Math.max(3, Math.min(12, Number(e.target.value) || 3));
+                            updateShapeProperties({ sides: value });
+                          }}
+                          className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                      </div>
+                    )}
+
+                    {selectedObject.type === 'star' && (
+                      <div className="grid grid-cols-2 gap-2">
+                        <div>
+                          <label className="block text-xs font-medium text-gray-600 mb-1">Points</label>
+                          <input
+                            type="number"
+                            min="3"
+                            max="12"
+                            value={properties.starPoints}
+                            onChange={(e) => {
+                              const value = Math.max(3, Math.min(12, Number(e.target.value) || 3));
+                              updateShapeProperties({ starPoints: value });
+                            }}
+                            className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs font-medium text-gray-600 mb-1">Inner Radius</label>
+                          <input
+                            type="number"
+                            min="0.1"
+                            max="0.9"
+                            step="0.05"
+                            value={properties.innerRadius}
+                            onChange={(e) => {
+                              const value = Math.max(0.1, Math.min(0.9, Number(e.target.value) || 0.5));
+                              updateShapeProperties({ innerRadius: value });
+                            }}
+                            className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        </div>
+                      </div>
+                    )}
+
+                    {selectedObject.type === 'arrow' && (
+                      <div className="grid grid-cols-2 gap-2">
+                        <div>
+                          <label className="block text-xs font-medium text-gray-600 mb-1">Heads</label>
+                          <select
+                            value={properties.arrowHeads}
+                            onChange={(e) => updateShapeProperties({ arrowHeads: e.target.value })}
+                            className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          >
+                            <option value="end">End</option>
+                            <option value="start">Start</option>
+                            <option value="both">Both</option>
+                            <option value="none">None</option>
+                          </select>
+                        </div>
+                        <div>
+                          <label className="block text-xs font-medium text-gray-600 mb-1">Head Size</label>
+                          <input
+                            type="number"
+                            min="4"
+                            max="60"
+                            value={properties.headSize}
+                            onChange={(e) => {
+                              const value = Math.max(4, Math.min(60, Number(e.target.value) || 12));
+                              updateShapeProperties({ headSize: value });
+                            }}
+                            className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                )}
+                
+                <FillEditor
+                  label="Fill"
+                  value={properties.fill}
+                  onChange={(style) => applyFillStyle('fill', style)}
+                />
+
+                {/* Text has its own outline controls */}
+                {!isTextObject(selectedObject) && (
+                  <>
+                    <FillEditor
+                      label="Stroke"
                       value={properties.stroke}
-                      onChange={(e) => updateProperty('stroke', e.target.value)}
-                      className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      onChange={(style) => applyFillStyle('stroke', style)}
                     />
-                  </div>
-                </div>
 
-                {/* Stroke Width */}
-                <div>
-                  <label className="block text-xs font-medium text-gray-600 mb-1">Stroke Width</label>
-                  <input
-                    type="number"
-                    min="0"
-                    max="20"
-                    value={properties.strokeWidth}
-                    onChange={(e) => updateProperty('strokeWidth', Number(e.target.value))}
-                    className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  />
-                </div>
+                    {/* Stroke Width */}
+                    <div>
+                      <label className="block text-xs font-medium text-gray-600 mb-1">Stroke Width</label>
+                      <input
+                        type="number"
+                        min="0"
+                        max="20"
+                        value={properties.strokeWidth}
+                        onChange={(e) => updateProperty('strokeWidth', Number(e.target.value))}
+                        className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                  </>
+                )}
 
                 {/* Opacity */}
                 <div>
@@ -962,6 +1311,8 @@ export default function PropertyPanel({
                   <div className="text-xs text-gray-500 text-center">{Math.round(properties.opacity * 100)}%</div>
                 </div>
 
+                {canvas && <ObjectEffectsPanel canvas={canvas} object={selectedObject} />}
+
                 {/* Position */}
                 <div className="grid grid-cols-2 gap-2">
                   <div>
@@ -1026,6 +1377,75 @@ export default function PropertyPanel({
                   <div className="text-xs text-gray-500 text-center">{Math.round(properties.angle)}°</div>
                 </div>
               </div>
+            ) : selectedObjects.length > 1 ? (
+              <div className="p-4 space-y-4">
+                <h3 className="text-sm font-medium text-gray-700">{selectedObjects.length} Objects Selected</h3>
+
+                {onGroup && (
+                  <button
+                    onClick={onGroup}
+                    className="w-full flex items-center justify-center space-x-1 p-2 text-sm bg-gray-50 text-gray-700 rounded hover:bg-gray-100"
+                  >
+                    <Group className="w-4 h-4" />
+                    <span>Group</span>
+                  </button>
+                )}
+
+                {onMaskImage && canMaskSelection && (
+                  <button
+                    onClick={onMaskImage}
+                    className="w-full flex items-center justify-center space-x-1 p-2 text-sm bg-gray-50 text-gray-700 rounded hover:bg-gray-100"
+                    title="Show the image only inside the selected shape or text"
+                  >
+                    <SquareDashed className="w-4 h-4" />
+                    <span>Mask Image with Shape</span>
+                  </button>
+                )}
+
+                {onAlign && (
+                  <div>
+                    <label className="block text-xs font-medium text-gray-600 mb-1">Align</label>
+                    <div className="grid grid-cols-6 gap-1">
+                      {ALIGN_OPTIONS.map(({ mode, label, icon: Icon }) => (
+                        <button
+                          key={mode}
+                          onClick={() => onAlign(mode)}
+                          className="flex items-center justify-center p-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
+                          title={label}
+                        >
+                          <Icon className="w-4 h-4" />
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {onDistribute && (
+                  <div>
+                    <label className="block text-xs font-medium text-gray-600 mb-1">Distribute</label>
+                    <div className="grid grid-cols-2 gap-2">
+                      <button
+                        onClick={() => onDistribute('horizontal')}
+                        disabled={selectedObjects.length < 3}
+                        className="flex items-center justify-center space-x-1 p-2 text-xs bg-gray-200 text-gray-700 rounded hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                        title="Distribute horizontally (3+ objects)"
+                      >
+                        <AlignHorizontalDistributeCenter className="w-4 h-4" />
+                        <span>Horizontal</span>
+                      </button>
+                      <button
+                        onClick={() => onDistribute('vertical')}
+                        disabled={selectedObjects.length < 3}
+                        className="flex items-center justify-center space-x-1 p-2 text-xs bg-gray-200 text-gray-700 rounded hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                        title="Distribute vertically (3+ objects)"
+                      >
+                        <AlignVerticalDistributeCenter className="w-4 h-4" />
+                        <span>Vertical</span>
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
             ) : (
               <div className="p-4 text-center text-gray-500">
                 <Settings className="w-8 h-8 mx-auto mb-2 opacity-50" />
@@ -1035,6 +1455,29 @@ export default function PropertyPanel({
           </>
         )}
       </div>
+
+      <ExportDialog
+        isOpen={showExportDialog}
+        onClose={() => setShowExportDialog(false)}
+        canvas={canvas}
+        hasSelection={selectedObjects.length > 0}
+      />
+
+      {onExportPdf && (
+        <PdfExportDialog
+          isOpen={showPdfDialog}
+          onClose={() => setShowPdfDialog(false)}
+          onExport={onExportPdf}
+          pageCount={pageCount}
+        />
+      )}
+
+      <DesignDiffDialog
+        isOpen={showDiffDialog}
+        onClose={() => setShowDiffDialog(false)}
+        walletAddress={address || undefined}
+        getDesignData={onGetDesignData}
+      />
     </div>
   );
 }
@@ -0,0 +1,111 @@
+'use client';
+
+import React, { useRef, useEffect } from 'react';
+
+export const RULER_SIZE = 16;
+
+// Candidate spacings (in canvas pixels) between labelled ticks
+const TICK_STEPS = [5, 10, 25, 50, 100, 250, 500, 1000, 2500];
+const MIN_LABEL_SPACING = 50;
+
+interface RulersProps {
+  width: number;
+  height: number;
+  zoom: number;
+  offsetX: number;
+  offsetY: number;
+  // Distance from the ruler origin to the canvas element's top-left corner
+  inset?: number;
+}
+
+interface RulerProps {
+  length: number;
+  zoom: number;
+  offset: number;
+  orientation: 'horizontal' | 'vertical';
+}
+
+function Ruler({ length, zoom, offset, orientation }: RulerProps) {
+  const rulerRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const element = rulerRef.current;
+    const ctx = element?.getContext('2d');
+    if (!element || !ctx) return;
+
+    const isHorizontal = orientation === 'horizontal';
+    const dpr = window.devicePixelRatio || 1;
+    const cssWidth = isHorizontal ? length : RULER_SIZE;
+    const cssHeight = isHorizontal ? RULER_SIZE : length;
+    element.width = cssWidth * dpr;
+    element.height = cssHeight * dpr;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+    ctx.fillStyle = '#f5f0e6';
+    ctx.fillRect(0, 0, cssWidth, cssHeight);
+    ctx.strokeStyle = '#8b7355';
+    ctx.fillStyle = '#30210b';
+    ctx.font = '9px monospace';
+    ctx.lineWidth = 1;
+
+    const major = TICK_STEPS.find(step => step * zoom >= MIN_LABEL_SPACING) || TICK_STEPS[TICK_STEPS.length - 1];
+    const minor = major / 5;
+
+    // Canvas-space range visible along this ruler
+    const startUnit = Math.floor((-offset / zoom) / minor) * minor;
+    const endUnit = (length - offset) / zoom;
+
+    for (let unit = startUnit; unit <= endUnit; unit += minor) {
+      const position = Math.round(unit * zoom + offset) + 0.5;
+      const isMajor = Math.abs(unit / major - Math.round(unit / major)) < 1e-6;
+      const tickLength = isMajor ? RULER_SIZE : RULER_SIZE / 3;
+
+      ctx.beginPath();
+      if (isHorizontal) {
+        ctx.moveTo(position, RULER_SIZE);
+        ctx.lineTo(position, RULER_SIZE - tickLength);
+      } else {
+        ctx.moveTo(RULER_SIZE, position);
+        ctx.lineTo(RULER_SIZE - tickLength, position);
+      }
+      ctx.stroke();
+
+      if (isMajor) {
+        const label = String(Math.round(unit));
+        if (isHorizontal) {
+          ctx.fillText(label, position + 2, 9);
+        } else {
+          ctx.save();
+          ctx.translate(9, position + 2);
+          ctx.rotate(Math.PI / 2);
+          ctx.fillText(label, 0, 0);
+          ctx.restore();
+        }
+      }
+    }
+  }, [length, zoom, offset, orientation]);
+
+  return (
+    <canvas
+      ref={rulerRef}
+      style={{
+        width: orientation === 'horizontal' ? length : RULER_SIZE,
+        height: orientation === 'horizontal' ? RULER_SIZE : length,
+        display: 'block'
+      }}
+    />
+  );
+}
+
+export default function Rulers({ width, height, zoom, offsetX, offsetY, inset = RULER_SIZE }: RulersProps) {
+  return (
+    <>
+      <div className="absolute pointer-events-none" style={{ top: inset - RULER_SIZE, left: inset }}>
+        <Ruler length={width} zoom={zoom} offset={offsetX} orientation="horizontal" />
+      </div>
+      <div className="absolute pointer-events-none" style={{ top: inset, left: inset - RULER_SIZE }}>
+        <Ruler length={height} zoom={zoom} offset={offsetY} orientation="vertical" />
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,80 @@
+'use client';
+
+import React from 'react';
+import { Keyboard, X } from 'lucide-react';
+import { SHORTCUTS, SHORTCUT_CATEGORIES, formatShortcut, type ShortcutId } from '@/utils/shortcuts';
+
+interface ShortcutsOverlayProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Only shortcuts the editor has bound are listed
+  availableShortcuts: ShortcutId[];
+}
+
+export default function ShortcutsOverlay({ isOpen, onClose, availableShortcuts }: ShortcutsOverlayProps) {
+  if (!isOpen) return null;
+
+  const shortcuts = SHORTCUTS.filter(shortcut => availableShortcuts.includes(shortcut.id));
+
+  return (
+    <div className="fixed inset-0 z-[9999] flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black bg-opacity-50"
+        onClick={onClose}
+      />
+
+      <div className="retro-panel relative z-[10000] max-w-2xl w-full max-h-[85vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-4 border-b-2 border-[var(--retro-border)]">
+          <h2 className="text-lg font-bold text-[var(--retro-text)] flex items-center space-x-2">
+            <Keyboard className="w-5 h-5 text-[var(--retro-accent)]" />
+            <span>Keyboard Shortcuts</span>
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-[var(--retro-text)] hover:opacity-75 transition-opacity"
+            title="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 grid grid-cols-1 md:grid-cols-2 gap-6">
+          {SHORTCUT_CATEGORIES.map(category => {
+            const entries = shortcuts.filter(shortcut => shortcut.category === category);
+            if (entries.length === 0) return null;
+
+            return (
+              <div key={category}>
+                <h3 className="text-sm font-bold text-[var(--retro-text)] mb-2">{category}</h3>
+                <ul className="space-y-1">
+                  {entries.map(shortcut => (
+                    <li key={shortcut.id} className="flex items-center justify-between text-xs text-[var(--retro-text)]">
+                      <span>{shortcut.description}</span>
+                      <span className="flex space-x-1">
+                        {shortcut.keys
+                          .filter(combo => !combo.startsWith('shift+arrow'))
+                          .map(combo => (
+                            <kbd
+                              key={combo}
+                              className="px-1.5 py-0.5 border border-[var(--retro-border)] rounded bg-white font-mono"
+                            >
+                              {formatShortcut(combo)}
+                            </kbd>
+                          ))}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+
+        <p className="px-4 pb-4 text-xs text-[var(--retro-text)] opacity-75">
+          Press ? at any time to show this list. Shortcuts are paused while editing text.
+        </p>
+      </div>
+    </div>
+  );
+}
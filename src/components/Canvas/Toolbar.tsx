@@ -1,6 +1,6 @@
 'use client';
 
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import { 
   Type, 
   Square, 
@@ -16,23 +16,71 @@ import {
   Sparkles,
   Wand2,
   Save,
-  Pencil
+  Pencil,
+  Undo2,
+  Redo2,
+  Minus,
+  MoveUpRight,
+  Triangle,
+  Hexagon,
+  Star,
+  Squircle,
+  PenTool,
+  Spline,
+  Maximize
 } from 'lucide-react';
 import CollapsibleSection from '../retro-ui/collapsible-section';
+import RetroSwitch from '../retro-ui/switch';
+import RetroSelect from '../retro-ui/select';
 import { fabric } from '@/lib/fabric';
 import { cn } from '@/utils/helpers';
-import { DrawingMode } from '@/hooks/useCanvas';
+import { exportRaster, downloadDataURL } from '@/lib/exportService';
+import { CANVAS_CONFIG, CANVAS_SIZE_PRESETS } from '@/utils/constants';
+import { readFillStyle, type FillStyle } from '@/lib/fillStyles';
+import FillEditor from './FillEditor';
+import { DrawingMode, EditorTool } from '@/hooks/useCanvas';
 // Image upload modal is managed at the CanvasEditor level
 
+// Vector path tools, rendered next to the pencil
+const PATH_TOOLS: { mode: Exclude<DrawingMode, null>; title: string; icon: React.ElementType }[] = [
+  { mode: 'pen', title: 'Pen Tool (click for corners, drag for curves, double-click or Enter to finish)', icon: PenTool },
+  { mode: 'nodes', title: 'Edit Path Nodes (click a segment to add, Alt+click or Delete to remove)', icon: Spline },
+];
+
+// Additional drag-to-draw shapes, rendered after the core tools
+const SHAPE_TOOLS: { mode: Exclude<DrawingMode, null>; title: string; icon: React.ElementType }[] = [
+  { mode: 'roundedRect', title: 'Draw Rounded Rectangle', icon: Squircle },
+  { mode: 'triangle', title: 'Draw Triangle', icon: Triangle },
+  { mode: 'polygon', title: 'Draw Polygon', icon: Hexagon },
+  { mode: 'star', title: 'Draw Star', icon: Star },
+  { mode: 'line', title: 'Draw Line', icon: Minus },
+  { mode: 'arrow', title: 'Draw Arrow', icon: MoveUpRight },
+];
+
 interface ToolbarProps {
   canvas: fabric.Canvas | null;
   drawingMode: DrawingMode;
   onDeleteSelected: () => void;
   onClearCanvas: () => void;
   onSetBackgroundColor: (color: string) => void;
+  onSetBackgroundFill: (style: FillStyle) => void;
   onSetZoom: (zoom: number) => void;
+  canvasSize: { width: number; height: number };
+  onResizeCanvas: (width: number, height: number, scaleContent: boolean) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  showGrid: boolean;
+  snapToGrid: boolean;
+  smartGuides: boolean;
+  showRulers: boolean;
+  onToggleGrid: (enabled: boolean) => void;
+  onToggleSnapToGrid: (enabled: boolean) => void;
+  onToggleSmartGuides: (enabled: boolean) => void;
+  onToggleRulers: (enabled: boolean) => void;
   onSetDrawingMode: (mode: DrawingMode) => void;
-  onSetTool: (tool: 'select' | 'text' | 'rectangle' | 'circle' | 'image' | 'pencil') => void;
+  onSetTool: (tool: EditorTool) => void;
   onAIText?: () => void;
   onAIImage?: () => void;
   onSave?: () => void;
@@ -46,7 +94,22 @@ export default function Toolbar({
   onDeleteSelected,
   onClearCanvas,
   onSetBackgroundColor,
+  onSetBackgroundFill,
   onSetZoom,
+  canvasSize,
+  onResizeCanvas,
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo,
+  showGrid,
+  snapToGrid,
+  smartGuides,
+  showRulers,
+  onToggleGrid,
+  onToggleSnapToGrid,
+  onToggleSmartGuides,
+  onToggleRulers,
   onSetDrawingMode,
   onSetTool,
   onAIText,
@@ -55,6 +118,42 @@ export default function Toolbar({
   zoom,
   isWalletConnected = false
 }: ToolbarProps) {
+  const [sizeInput, setSizeInput] = useState(canvasSize);
+  const [scaleContent, setScaleContent] = useState(false);
+
+  // Follow size changes made elsewhere (undo, switching pages, loading a design)
+  useEffect(() => {
+    setSizeInput({ width: canvasSize.width, height: canvasSize.height });
+  }, [canvasSize.width, canvasSize.height]);
+
+  const currentBackground = canvas?.backgroundColor;
+  const [backgroundFill, setBackgroundFill] = useState<FillStyle>(() =>
+    readFillStyle(currentBackground || CANVAS_CONFIG.BACKGROUND_COLOR, canvasSize)
+  );
+
+  // Follow background changes made elsewhere (swatches, undo, switching pages)
+  useEffect(() => {
+    setBackgroundFill(readFillStyle(
+      currentBackground || CANVAS_CONFIG.BACKGROUND_COLOR,
+      { width: canvasSize.width, height: canvasSize.height }
+    ));
+  }, [currentBackground, canvasSize.width, canvasSize.height]);
+
+  const handleBackgroundFillChange = (style: FillStyle) => {
+    setBackgroundFill(style);
+    onSetBackgroundFill(style);
+  };
+
+  const matchingPreset = CANVAS_SIZE_PRESETS.find(
+    preset => preset.width === sizeInput.width && preset.height === sizeInput.height
+  );
+
+  const handlePresetChange = (presetId: string) => {
+    const preset = CANVAS_SIZE_PRESETS.find(p => p.id === presetId);
+    if (preset) {
+      setSizeInput({ width: preset.width, height: preset.height });
+    }
+  };
 
   const handleAddText = () => {
     // Text is now handled by drawing mode, no need for prompt
@@ -77,11 +176,7 @@ export default function Toolbar({
 
   const handleExport = () => {
     if (canvas) {
-      const dataURL = canvas.toDataURL({ format: 'png' });
-      const link = document.createElement('a');
-      link.download = 'walrus-canvas-design.png';
-      link.href = dataURL;
-      link.click();
+      downloadDataURL(exportRaster(canvas).dataURL, 'walrus-canvas-design.png');
     }
   };
 
@@ -134,6 +229,24 @@ export default function Toolbar({
           >
             <Pencil className="w-5 h-5" />
           </button>
+          {PATH_TOOLS.map(({ mode, title, icon: Icon }) => (
+            <button
+              key={mode}
+              onClick={() => {
+                onSetDrawingMode(mode);
+                onSetTool(mode);
+              }}
+              className={cn(
+                "retro-button flex items-center justify-center p-4 transition-colors text-center",
+                drawingMode === mode 
+                  ? "bg-[var(--retro-accent)]" 
+                  : "hover:bg-[var(--retro-accent)]"
+              )}
+              title={title}
+            >
+              <Icon className="w-5 h-5" />
+            </button>
+          ))}
           <button
             onClick={handleAddText}
             className={cn(
@@ -181,6 +294,25 @@ export default function Toolbar({
             <Circle className="w-5 h-5" />
           </button>
           
+          {SHAPE_TOOLS.map(({ mode, title, icon: Icon }) => (
+            <button
+              key={mode}
+              onClick={() => {
+                onSetDrawingMode(mode);
+                onSetTool(mode);
+              }}
+              className={cn(
+                "retro-button flex items-center justify-center p-4 transition-colors text-center",
+                drawingMode === mode 
+                  ? "bg-[var(--retro-accent)]" 
+                  : "hover:bg-[var(--retro-accent)]"
+              )}
+              title={title}
+            >
+              <Icon className="w-5 h-5" />
+            </button>
+          ))}
+          
           <button
             onClick={handleImageClick}
             className="retro-button flex items-center justify-center p-4 transition-colors hover:bg-[var(--retro-accent)] text-center"
@@ -224,6 +356,8 @@ export default function Toolbar({
       {/* Color Palette */}
       <CollapsibleSection title="Color Palette" defaultExpanded={false}>
         <div className="space-y-3">
+          <FillEditor label="Background" value={backgroundFill} onChange={handleBackgroundFillChange} />
+
           {/* Row 1: Primary Colors */}
           <div className="grid grid-cols-5 gap-2">
             {colors.slice(0, 10).map((color) => (
@@ -364,6 +498,60 @@ export default function Toolbar({
         </div>
       </CollapsibleSection>
 
+      {/* Canvas Size */}
+      <CollapsibleSection title="Canvas Size" defaultExpanded={false}>
+        <div className="space-y-4">
+          <RetroSelect
+            label="Preset"
+            value={matchingPreset?.id || ''}
+            onValueChange={handlePresetChange}
+            placeholder="Custom"
+            options={CANVAS_SIZE_PRESETS.map(preset => ({
+              value: preset.id,
+              label: `${preset.label} (${preset.width} × ${preset.height})`
+            }))}
+          />
+
+          <div className="grid grid-cols-2 gap-2">
+            {(['width', 'height'] as const).map(dimension => (
+              <label key={dimension} className="block text-xs font-bold text-[var(--retro-text)]">
+                {dimension === 'width' ? 'Width' : 'Height'}
+                <input
+                  type="number"
+                  min={CANVAS_CONFIG.MIN_SIZE}
+                  max={CANVAS_CONFIG.MAX_SIZE}
+                  value={sizeInput[dimension]}
+                  onChange={(e) => setSizeInput(prev => ({ ...prev, [dimension]: parseInt(e.target.value) || 0 }))}
+                  className="mt-1 w-full px-2 py-1 text-sm border-2 border-[var(--retro-border)] rounded-md focus:outline-none focus:ring-2 focus:ring-[var(--retro-accent)] bg-[var(--retro-bg)] text-[var(--retro-text)]"
+                />
+              </label>
+            ))}
+          </div>
+
+          <RetroSwitch checked={scaleContent} onCheckedChange={setScaleContent} label="Scale Content to Fit" />
+
+          <button
+            onClick={() => onResizeCanvas(sizeInput.width, sizeInput.height, scaleContent)}
+            disabled={sizeInput.width === canvasSize.width && sizeInput.height === canvasSize.height}
+            className="retro-button w-full flex items-center justify-center space-x-3 p-4 hover:bg-[var(--retro-accent)] text-center disabled:opacity-50 disabled:cursor-not-allowed"
+            title={`Resize the current page (${CANVAS_CONFIG.MIN_SIZE}–${CANVAS_CONFIG.MAX_SIZE}px)`}
+          >
+            <Maximize className="w-4 h-4" />
+            <span className="text-sm font-bold text-center">Resize Page</span>
+          </button>
+        </div>
+      </CollapsibleSection>
+
+      {/* Grid & Guides */}
+      <CollapsibleSection title="Grid & Guides" defaultExpanded={false}>
+        <div className="space-y-4">
+          <RetroSwitch checked={showGrid} onCheckedChange={onToggleGrid} label="Show Grid" />
+          <RetroSwitch checked={snapToGrid} onCheckedChange={onToggleSnapToGrid} label="Snap to Grid" />
+          <RetroSwitch checked={smartGuides} onCheckedChange={onToggleSmartGuides} label="Smart Guides" />
+          <RetroSwitch checked={showRulers} onCheckedChange={onToggleRulers} label="Rulers" />
+        </div>
+      </CollapsibleSection>
+
       {/* Storage Actions */}
       <CollapsibleSection title="Storage" defaultExpanded={false}>
         <div className="space-y-4">
@@ -395,6 +583,34 @@ export default function Toolbar({
       {/* Actions */}
       <CollapsibleSection title="Actions" defaultExpanded={false}>
         <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <button
+              onClick={onUndo}
+              disabled={!canUndo}
+              className={cn(
+                "retro-button flex items-center justify-center space-x-2 p-4 transition-colors text-center",
+                canUndo ? "hover:bg-[var(--retro-accent)]" : "opacity-50 cursor-not-allowed"
+              )}
+              title="Undo (Ctrl+Z)"
+            >
+              <Undo2 className="w-5 h-5" />
+              <span className="text-sm font-bold text-center">Undo</span>
+            </button>
+
+            <button
+              onClick={onRedo}
+              disabled={!canRedo}
+              className={cn(
+                "retro-button flex items-center justify-center space-x-2 p-4 transition-colors text-center",
+                canRedo ? "hover:bg-[var(--retro-accent)]" : "opacity-50 cursor-not-allowed"
+              )}
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              <Redo2 className="w-5 h-5" />
+              <span className="text-sm font-bold text-center">Redo</span>
+            </button>
+          </div>
+
           <button
             onMouseDown={(e) => { e.preventDefault(); e.stopPropagation(); onDeleteSelected(); }}
             onClick={(e) => { e.preventDefault(); e.stopPropagation(); onDeleteSelected(); }}
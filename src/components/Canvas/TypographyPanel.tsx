@@ -0,0 +1,296 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Bold, Italic, Strikethrough, Underline } from 'lucide-react';
+import { fabric } from '@/lib/fabric';
+import { cn } from '@/utils/helpers';
+import {
+  LIST_STYLES,
+  applyCharacterStyle,
+  applyListStyle,
+  canCurveText,
+  canFitText,
+  getCharacterStyle,
+  getListStyle,
+  getTextCurve,
+  getTextFit,
+  hasTextSelection,
+  refreshTextLayout,
+  setTextCurve,
+  setTextFit,
+  type CharacterStyle
+} from '@/lib/typography';
+import { useDebouncedCommit } from '@/hooks/useDebouncedCommit';
+
+interface TypographyPanelProps {
+  canvas: fabric.Canvas;
+  text: fabric.Text;
+}
+
+// Events after which the controls have to be re-read from the text
+const TEXT_EVENTS = ['text:selection:changed', 'text:editing:entered', 'text:editing:exited', 'text:changed'];
+
+const toggleClass = (active: boolean) => cn(
+  "flex-1 flex items-center justify-center p-1 rounded",
+  active ? "bg-blue-600 text-white" : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+);
+
+// Keep the textbox's selection while clicking buttons in the panel
+const keepTextFocus = (e: React.MouseEvent) => e.preventDefault();
+
+export default function TypographyPanel({ canvas, text }: TypographyPanelProps) {
+  // Values are read straight from the text; this only triggers a re-render
+  const [, setVersion] = useState(0);
+  const scheduleCommit = useDebouncedCommit(canvas, text);
+
+  useEffect(() => {
+    const refresh = () => setVersion(version => version + 1);
+    TEXT_EVENTS.forEach(event => canvas.on(event, refresh));
+    return () => {
+      TEXT_EVENTS.forEach(event => canvas.off(event, refresh));
+    };
+  }, [canvas]);
+
+  const apply = (mutate: () => void) => {
+    mutate();
+    text.setCoords();
+    text.dirty = true;
+    canvas.requestRenderAll();
+    setVersion(version => version + 1);
+    scheduleCommit();
+  };
+
+  const setLayoutProperty = (updates: Partial<fabric.Text>) => apply(() => {
+    text.set(updates);
+    refreshTextLayout(text);
+  });
+
+  const characterStyle = getCharacterStyle(text);
+  const selectionOnly = hasTextSelection(text);
+  const updateCharacters = (updates: Partial<CharacterStyle>) => apply(() => {
+    applyCharacterStyle(text, updates);
+    refreshTextLayout(text);
+  });
+
+  const isBold = characterStyle.fontWeight === 'bold' || Number(characterStyle.fontWeight) >= 600;
+  const charSpacing = text.charSpacing || 0;
+  const lineHeight = text.lineHeight || 1;
+  const outlineColor = typeof text.stroke === 'string' && text.stroke ? text.stroke : '#000000';
+  const outlineWidth = text.stroke ? text.strokeWidth || 0 : 0;
+  const listStyle = getListStyle(text);
+  const curve = getTextCurve(text);
+  const fit = getTextFit(text);
+
+  return (
+    <div className="space-y-3">
+      {/* Character style */}
+      <div>
+        <label className="block text-xs font-medium text-gray-600 mb-1">
+          {selectionOnly ? 'Selected Characters' : 'Character Style'}
+        </label>
+        <div className="flex space-x-1">
+          <button
+            onMouseDown={keepTextFocus}
+            onClick={() => updateCharacters({ fontWeight: isBold ? 'normal' : 'bold' })}
+            className={toggleClass(isBold)}
+            title="Bold"
+          >
+            <Bold className="w-4 h-4" />
+          </button>
+          <button
+            onMouseDown={keepTextFocus}
+            onClick={() => updateCharacters({ fontStyle: characterStyle.fontStyle === 'italic' ? 'normal' : 'italic' })}
+            className={toggleClass(characterStyle.fontStyle === 'italic')}
+            title="Italic"
+          >
+            <Italic className="w-4 h-4" />
+          </button>
+          <button
+            onMouseDown={keepTextFocus}
+            onClick={() => updateCharacters({ underline: !characterStyle.underline })}
+            className={toggleClass(characterStyle.underline)}
+            title="Underline"
+          >
+            <Underline className="w-4 h-4" />
+          </button>
+          <button
+            onMouseDown={keepTextFocus}
+            onClick={() => updateCharacters({ linethrough: !characterStyle.linethrough })}
+            className={toggleClass(characterStyle.linethrough)}
+            title="Strikethrough"
+          >
+            <Strikethrough className="w-4 h-4" />
+          </button>
+          {selectionOnly && (
+            <input
+              type="color"
+              value={/^#[0-9a-f]{6}$/i.test(characterStyle.fill) ? characterStyle.fill : '#000000'}
+              onChange={(e) => updateCharacters({ fill: e.target.value })}
+              className="w-8 h-7 border border-gray-300 rounded cursor-pointer"
+              title="Color of the selected characters"
+            />
+          )}
+        </div>
+        {!selectionOnly && text instanceof fabric.IText && (
+          <p className="text-xs text-gray-500 mt-1">Select characters while editing to style them separately.</p>
+        )}
+      </div>
+
+      {/* Spacing */}
+      <div>
+        <div className="flex justify-between text-xs text-gray-600 mb-1">
+          <label className="font-medium">Letter Spacing</label>
+          <span className="text-gray-500">{charSpacing}</span>
+        </div>
+        <input
+          type="range"
+          min="-200"
+          max="800"
+          step="10"
+          value={charSpacing}
+          onChange={(e) => setLayoutProperty({ charSpacing: Number(e.target.value) })}
+          onDoubleClick={() => setLayoutProperty({ charSpacing: 0 })}
+          className="w-full"
+          title="Double-click to reset"
+        />
+      </div>
+      <div>
+        <div className="flex justify-between text-xs text-gray-600 mb-1">
+          <label className="font-medium">Line Height</label>
+          <span className="text-gray-500">{lineHeight.toFixed(2)}</span>
+        </div>
+        <input
+          type="range"
+          min="0.5"
+          max="3"
+          step="0.05"
+          value={lineHeight}
+          onChange={(e) => setLayoutProperty({ lineHeight: Number(e.target.value) })}
+          onDoubleClick={() => setLayoutProperty({ lineHeight: 1.16 })}
+          className="w-full"
+          title="Double-click to reset"
+        />
+      </div>
+
+      {/* Outline */}
+      <div>
+        <label className="block text-xs font-medium text-gray-600 mb-1">Outline</label>
+        <div className="flex items-center space-x-2">
+          <input
+            type="color"
+            value={/^#[0-9a-f]{6}$/i.test(outlineColor) ? outlineColor : '#000000'}
+            onChange={(e) => setLayoutProperty({ stroke: e.target.value, strokeWidth: outlineWidth || 1 })}
+            className="w-8 h-8 border border-gray-300 rounded cursor-pointer"
+            title="Outline color"
+          />
+          <input
+            type="range"
+            min="0"
+            max="10"
+            step="0.5"
+            value={outlineWidth}
+            onChange={(e) => {
+              const width = Number(e.target.value);
+              setLayoutProperty({ stroke: width ? outlineColor : undefined, strokeWidth: width });
+            }}
+            className="flex-1"
+            title="Outline width"
+          />
+          <span className="text-xs text-gray-500 w-8 text-right">{outlineWidth}px</span>
+        </div>
+        <label className="flex items-center space-x-2 text-xs text-gray-600 mt-1">
+          <input
+            type="checkbox"
+            checked={text.paintFirst === 'stroke'}
+            onChange={(e) => setLayoutProperty({ paintFirst: e.target.checked ? 'stroke' : 'fill' })}
+          />
+          <span>Outline behind fill</span>
+        </label>
+      </div>
+
+      {/* Lists */}
+      <div>
+        <label className="block text-xs font-medium text-gray-600 mb-1">List</label>
+        <div className="flex space-x-1">
+          {LIST_STYLES.map(style => (
+            <button
+              key={style.value}
+              onClick={() => apply(() => {
+                if (text instanceof fabric.IText && text.isEditing) text.exitEditing();
+                applyListStyle(text, style.value);
+                refreshTextLayout(text);
+              })}
+              className={cn(toggleClass(listStyle === style.value), "text-xs")}
+            >
+              {style.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Curve */}
+      <div>
+        <div className="flex justify-between text-xs text-gray-600 mb-1">
+          <label className="font-medium">Curve</label>
+          <span className="text-gray-500">{curve}</span>
+        </div>
+        <input
+          type="range"
+          min="-100"
+          max="100"
+          value={curve}
+          disabled={!curve && (!canCurveText(text) || !!fit)}
+          onChange={(e) => apply(() => setTextCurve(text, Number(e.target.value)))}
+          onDoubleClick={() => apply(() => setTextCurve(text, 0))}
+          className="w-full disabled:opacity-40"
+          title="Double-click to straighten"
+        />
+        {!curve && !canCurveText(text) && (
+          <p className="text-xs text-gray-500 mt-1">Only a single line of text can be curved.</p>
+        )}
+      </div>
+
+      {/* Auto-fit */}
+      {text.type === 'textbox' && (
+        <div>
+          <label className="flex items-center space-x-2 text-xs font-medium text-gray-600">
+            <input
+              type="checkbox"
+              checked={!!fit}
+              disabled={!fit && !canFitText(text)}
+              onChange={(e) => apply(() => setTextFit(text, e.target.checked
+                ? { height: Math.round(text.height || 0), fontSize: text.fontSize || 20 }
+                : null))}
+            />
+            <span>Shrink text to fit box</span>
+          </label>
+          {fit && (
+            <div className="grid grid-cols-2 gap-2 mt-2">
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Box Height</label>
+                <input
+                  type="number"
+                  min="10"
+                  value={fit.height}
+                  onChange={(e) => apply(() => setTextFit(text, { ...fit, height: Math.max(10, Number(e.target.value) || 10) }))}
+                  className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Max Size</label>
+                <input
+                  type="number"
+                  min="6"
+                  max="200"
+                  value={fit.fontSize}
+                  onChange={(e) => apply(() => setTextFit(text, { ...fit, fontSize: Math.max(6, Math.min(200, Number(e.target.value) || 6)) }))}
+                  className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
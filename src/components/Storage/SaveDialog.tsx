@@ -1,24 +1,43 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { fabric } from '@/lib/fabric';
 import { Save, Loader2, Copy, Check, X, AlertCircle, Wallet, Shield, Lock } from 'lucide-react';
 import { cn } from '@/utils/helpers';
+import { getDesignSummary, normalizeDesignData, type DesignDocument } from '@/utils/designDocument';
 import { useWalrus } from '@/hooks/useWalrus';
 import { useWalletService } from '@/services/walletSigner';
 import WalletModal from '@/components/Wallet/WalletModal';
+import type { OpenDesign } from '@/services/mongoDBService';
+import { useDesignRegistry } from '@/hooks/useDesignRegistry';
 
 interface SaveDialogProps {
   isOpen: boolean;
   onClose: () => void;
   canvas: fabric.Canvas | null;
+  // Full multi-page document; falls back to the visible canvas alone
+  getDesignData?: () => DesignDocument;
+  getThumbnail?: () => string | undefined;
+  currentDesign?: OpenDesign | null;
+  onDesignSaved?: (design: OpenDesign) => void;
   onLoad?: (designData: any) => void;
   onSave?: () => void; // Callback to refresh designs list after save
 }
 
-export default function SaveDialog({ isOpen, onClose, canvas, onLoad, onSave }: SaveDialogProps) {
+export default function SaveDialog({
+  isOpen,
+  onClose,
+  canvas,
+  getDesignData,
+  getThumbnail,
+  currentDesign,
+  onDesignSaved,
+  onLoad,
+  onSave
+}: SaveDialogProps) {
   const [designName, setDesignName] = useState('');
   const [isEncrypted, setIsEncrypted] = useState(false);
+  const [saveAsNew, setSaveAsNew] = useState(false);
   const [savedBlobId, setSavedBlobId] = useState('');
   const [loadBlobId, setLoadBlobId] = useState('');
   const [batchBlobIds, setBatchBlobIds] = useState('');
@@ -28,6 +47,13 @@ export default function SaveDialog({ isOpen, onClose, canvas, onLoad, onSave }:
   const [error, setError] = useState<string | null>(null);
   const [showWalletModal, setShowWalletModal] = useState(false);
 
+  // An open design is saved under its own name unless the user renames it
+  useEffect(() => {
+    if (isOpen && currentDesign) {
+      setDesignName(currentDesign.name);
+    }
+  }, [isOpen, currentDesign]);
+
   const { 
     store, 
     retrieve, 
@@ -44,6 +70,14 @@ export default function SaveDialog({ isOpen, onClose, canvas, onLoad, onSave }:
     error: walrusError 
   } = useWalrus();
   const walletService = useWalletService();
+  const {
+    isRecording,
+    error: registryError,
+    hasPendingRecord,
+    recordVersion,
+    retryRecord,
+    clearPendingRecord
+  } = useDesignRegistry();
 
   const isConnected = walletService.isConnected;
   const address = walletService.address;
@@ -55,6 +89,27 @@ export default function SaveDialog({ isOpen, onClose, canvas, onLoad, onSave }:
     (walletService.currentWallet.name as string).toLowerCase().includes('unsafe-burner') ? 'unsafe-burner' : 'slush' : 'slush';
 
 
+  // Auto-close after showing success
+  const closeAfterSave = () => {
+    setTimeout(() => {
+      onClose();
+      setDesignName('');
+      setIsEncrypted(false);
+      setSaveAsNew(false);
+      setSavedBlobId('');
+      clearPendingRecord();
+    }, 3000);
+  };
+
+  const handleRetryRecord = async () => {
+    const recorded = await retryRecord(walletService as any);
+    if (!recorded) return;
+    onDesignSaved?.({ designId: recorded.designId, name: recorded.name, designObjectId: recorded.designObjectId });
+    if (recorded.complete) {
+      closeAfterSave();
+    }
+  };
+
   const handleSave = async () => {
     if (!canvas || !designName.trim()) return;
     
@@ -78,7 +133,8 @@ export default function SaveDialog({ isOpen, onClose, canvas, onLoad, onSave }:
       // Log the wallet address being used for Walrus operations
       console.log('Using connected wallet for Walrus operations:', address);
 
-      const designData = canvas.toJSON();
+      const designData = getDesignData ? getDesignData() : normalizeDesignData(canvas.toJSON());
+      const { canvasSize, pageCount } = getDesignSummary(designData);
       
       const designToStore = {
         designData,
@@ -91,32 +147,62 @@ export default function SaveDialog({ isOpen, onClose, canvas, onLoad, onSave }:
           walletType: walletType || 'unknown',
           version: '1.0.0',
           type: 'canva-design',
-          canvasSize: {
-            width: canvas.getWidth(),
-            height: canvas.getHeight()
-          }
+          canvasSize,
+          pageCount
         }
       };
       
-      // Store to Walrus with encryption if enabled
-      const result = await store(
-        designToStore, 
-        signerToUse,
-        1, // epochs (reduced for lower WAL requirement)
-        { 'app': 'decentralized-canva', 'type': 'design' },
-        address || undefined // userAddress for encryption
-      );
+      const tags = { 'app': 'decentralized-canva', 'type': 'design' };
+      let result;
+      if (isEncrypted) {
+        // Store to Walrus with encryption; images and fonts stay inside the encrypted data
+        result = await store(
+          designToStore, 
+          signerToUse,
+          1, // epochs (reduced for lower WAL requirement)
+          tags,
+          address || undefined // userAddress for encryption
+        );
+      } else {
+        // Store as a quilt, uploading only the images and fonts this wallet hasn't stored yet
+        result = await storeDesignWithAssets(
+          { ...designToStore, metadata: { ...designToStore.metadata, tags } },
+          signerToUse,
+          1, // epochs (reduced for lower WAL requirement)
+          address || undefined // wallet whose stored assets can be reused
+        );
+      }
       setSavedBlobId(result.blobId);
       
       // Also save to MongoDB for "My Designs" section
+      let keepOpen = false;
       try {
         const { mongoDBService } = await import('../../services/mongoDBService');
-        await mongoDBService.saveUserDesign(address || '', {
+        const record = {
           name: designName,
           canvasData: designData,
-          blobId: result.blobId
-        });
+          blobId: result.blobId,
+          blobObjectId: result.blobObjectId,
+          expiryEpoch: result.expiryEpoch,
+          assetBlobs: result.assetBlobs,
+          thumbnail: getThumbnail?.()
+        };
+        // Saving the open design again records a new version of it
+        const savedDesign = currentDesign && !saveAsNew
+          ? await mongoDBService.updateUserDesign(currentDesign.designId, record)
+          : await mongoDBService.saveUserDesign(address || '', record);
         console.log('✅ Design also saved to MongoDB for quick access');
+
+        // The registry contract keeps the design's versions on-chain too; a failure stays on
+        // screen with a retry, as the histories differ until the version is recorded
+        const recorded = await recordVersion({
+          designId: savedDesign.designId,
+          designObjectId: savedDesign.designObjectId,
+          name: savedDesign.name,
+          blobId: result.blobId
+        }, signerToUse);
+        onDesignSaved?.({ designId: recorded.designId, name: recorded.name, designObjectId: recorded.designObjectId });
+        keepOpen = !recorded.complete;
         
         // Trigger refresh of designs list AFTER MongoDB save is complete
         if (onSave) {
@@ -137,13 +223,9 @@ export default function SaveDialog({ isOpen, onClose, canvas, onLoad, onSave }:
         }
       }
       
-      // Auto-close after showing success
-      setTimeout(() => {
-        onClose();
-        setDesignName('');
-        setIsEncrypted(false);
-        setSavedBlobId('');
-      }, 3000);
+      if (!keepOpen) {
+        closeAfterSave();
+      }
       
     } catch (error) {
       console.error('Save failed:', error);
@@ -192,9 +274,9 @@ export default function SaveDialog({ isOpen, onClose, canvas, onLoad, onSave }:
         // Continue with loading even if test fails
       }
       
-      // Load from Walrus with decryption if needed
-      const result = await retrieve(loadBlobId, address || undefined);
-      onLoad?.(result.data.designData);
+      // Load from Walrus with decryption if needed; quilt assets are fetched as they're shown
+      const { design } = await retrieveDesignWithAssets(loadBlobId, address || undefined);
+      onLoad?.(design.data.designData);
       
       // Close modal
       onClose();
@@ -392,6 +474,27 @@ export default function SaveDialog({ isOpen, onClose, canvas, onLoad, onSave }:
                 </div>
               )}
 
+              {/* On-chain record failure */}
+              {savedBlobId && hasPendingRecord && (
+                <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+                  <div className="flex items-center space-x-2">
+                    <AlertCircle className="w-5 h-5 text-red-600" />
+                    <span className="font-medium text-red-800">Version Not Recorded On-Chain</span>
+                  </div>
+                  <p className="mt-1 text-sm text-red-700">
+                    The version is saved, but the on-chain history doesn&apos;t have it yet: {registryError}
+                  </p>
+                  <button
+                    onClick={handleRetryRecord}
+                    disabled={isRecording}
+                    className="mt-3 flex items-center space-x-1 px-3 py-1 text-xs bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
+                  >
+                    {isRecording && <Loader2 className="w-3 h-3 animate-spin" />}
+                    <span>{isRecording ? 'Recording...' : 'Retry'}</span>
+                  </button>
+                </div>
+              )}
+
               {/* Save Form */}
               {!savedBlobId && (
                 <>
@@ -408,6 +511,21 @@ export default function SaveDialog({ isOpen, onClose, canvas, onLoad, onSave }:
                     />
                   </div>
 
+                  {currentDesign && (
+                    <div className="flex items-center space-x-3">
+                      <input
+                        type="checkbox"
+                        id="saveAsNew"
+                        checked={saveAsNew}
+                        onChange={(e) => setSaveAsNew(e.target.checked)}
+                        className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                      />
+                      <label htmlFor="saveAsNew" className="text-sm text-gray-700">
+                        Save as a new design instead of a new version of &quot;{currentDesign.name}&quot;
+                      </label>
+                    </div>
+                  )}
+
                   <div className="space-y-3">
                     <div className="flex items-center space-x-3">
                       <input
@@ -3,22 +3,42 @@
 import React, { useState, useEffect } from 'react';
 import { Save, Upload, X, Loader2, Copy, CheckCircle, ExternalLink } from 'lucide-react';
 import { cn } from '@/utils/helpers';
+import { getDesignSummary, normalizeDesignData, type DesignDocument } from '@/utils/designDocument';
 import { useWalrus } from '@/hooks/useWalrus';
 import { useWalletService, useWalletSigner } from '@/services/walletSigner';
 import { fabric } from '@/lib/fabric';
+import type { OpenDesign } from '@/services/mongoDBService';
+import { useDesignRegistry } from '@/hooks/useDesignRegistry';
 
 interface WalrusPopupProps {
   isOpen: boolean;
   onClose: () => void;
   canvas: fabric.Canvas | null;
+  // Full multi-page document; falls back to the visible canvas alone
+  getDesignData?: () => DesignDocument;
+  getThumbnail?: () => string | undefined;
+  currentDesign?: OpenDesign | null;
+  onDesignSaved?: (design: OpenDesign) => void;
   onLoad?: (designData: any) => void;
   onSave?: () => void; // Callback to refresh designs list after save
   mode: 'save' | 'load';
 }
 
-export default function WalrusPopup({ isOpen, onClose, canvas, onLoad, onSave, mode }: WalrusPopupProps) {
+export default function WalrusPopup({
+  isOpen,
+  onClose,
+  canvas,
+  getDesignData,
+  getThumbnail,
+  currentDesign,
+  onDesignSaved,
+  onLoad,
+  onSave,
+  mode
+}: WalrusPopupProps) {
   const [designName, setDesignName] = useState('');
   const [isEncrypted, setIsEncrypted] = useState(false);
+  const [saveAsNew, setSaveAsNew] = useState(false);
   const [loadBlobId, setLoadBlobId] = useState('');
   const [batchBlobIds, setBatchBlobIds] = useState('');
   const [loadedDesigns, setLoadedDesigns] = useState<any[]>([]);
@@ -43,6 +63,13 @@ export default function WalrusPopup({ isOpen, onClose, canvas, onLoad, onSave, m
   } = useWalrus();
   const walletService = useWalletService();
   const walletSigner = useWalletSigner();
+  const {
+    isRecording,
+    error: registryError,
+    hasPendingRecord,
+    recordVersion,
+    retryRecord
+  } = useDesignRegistry();
 
   const isConnected = walletService.isConnected;
   const address = walletService.address;
@@ -54,12 +81,20 @@ export default function WalrusPopup({ isOpen, onClose, canvas, onLoad, onSave, m
       setActiveTab(mode);
       setError(null);
       setDesignName('');
+      setSaveAsNew(false);
       setLoadBlobId('');
       setBatchBlobIds('');
       setLoadedDesigns([]);
     }
   }, [isOpen, mode]);
 
+  // An open design is saved under its own name unless the user renames it
+  useEffect(() => {
+    if (isOpen && currentDesign) {
+      setDesignName(currentDesign.name);
+    }
+  }, [isOpen, currentDesign]);
+
   const handleSave = async () => {
     if (!canvas || !designName.trim()) return;
 
@@ -67,7 +102,8 @@ export default function WalrusPopup({ isOpen, onClose, canvas, onLoad, onSave, m
       setError(null);
       
       // Get canvas data
-      const canvasData = canvas.toJSON();
+      const canvasData = getDesignData ? getDesignData() : normalizeDesignData(canvas.toJSON());
+      const { canvasSize, pageCount } = getDesignSummary(canvasData);
       
       // Create metadata
       const metadata = {
@@ -78,10 +114,8 @@ export default function WalrusPopup({ isOpen, onClose, canvas, onLoad, onSave, m
         walletName,
         version: '1.0.0',
         type: 'canvas-design',
-        canvasSize: {
-          width: canvas.getWidth(),
-          height: canvas.getHeight()
-        }
+        canvasSize,
+        pageCount
       };
 
       // Create blob data
@@ -112,18 +146,44 @@ export default function WalrusPopup({ isOpen, onClose, canvas, onLoad, onSave, m
         });
       }
       
-      const result = await store(blobData, walletService as any, 1, {}, address || undefined);
+      // Unencrypted designs are stored as a quilt with every embedded image and font as its
+      // own file, reusing the ones this wallet already stored; encrypted ones keep them
+      // inside the encrypted data
+      let result;
+      if (isEncrypted) {
+        result = await store(blobData, walletService as any, 1, {}, address || undefined);
+      } else {
+        result = await storeDesignWithAssets(blobData, walletService as any, 1, address || undefined);
+      }
       
       if (result.stored) {
         // Also save to MongoDB for "My Designs" section
         try {
           const { mongoDBService } = await import('../../services/mongoDBService');
-          await mongoDBService.saveUserDesign(address || '', {
+          const record = {
             name: designName,
             canvasData: canvasData,
-            blobId: result.blobId
-          });
+            blobId: result.blobId,
+            blobObjectId: result.blobObjectId,
+            expiryEpoch: result.expiryEpoch,
+            assetBlobs: result.assetBlobs,
+            thumbnail: getThumbnail?.()
+          };
+          // Saving the open design again records a new version of it
+          const savedDesign = currentDesign && !saveAsNew
+            ? await mongoDBService.updateUserDesign(currentDesign.designId, record)
+            : await mongoDBService.saveUserDesign(address || '', record);
           console.log('✅ Design also saved to MongoDB for quick access');
+
+          // The registry contract keeps the design's versions on-chain too; a failure stays on
+          // screen with a retry, as the histories differ until the version is recorded
+          const recorded = await recordVersion({
+            designId: savedDesign.designId,
+            designObjectId: savedDesign.designObjectId,
+            name: savedDesign.name,
+            blobId: result.blobId
+          }, walletService as any);
+          onDesignSaved?.({ designId: recorded.designId, name: recorded.name, designObjectId: recorded.designObjectId });
           
           // Trigger refresh of designs list AFTER MongoDB save is complete
           if (onSave) {
@@ -147,6 +207,7 @@ export default function WalrusPopup({ isOpen, onClose, canvas, onLoad, onSave, m
         // Show success message with blob ID
         setError(`✅ Design saved successfully! Blob ID: ${result.blobId}`);
         setDesignName('');
+        setSaveAsNew(false);
         
         // Show success message for a few seconds
         setTimeout(() => {
@@ -159,18 +220,26 @@ export default function WalrusPopup({ isOpen, onClose, canvas, onLoad, onSave, m
     }
   };
 
+  const handleRetryRecord = async () => {
+    const recorded = await retryRecord(walletService as any);
+    if (recorded) {
+      onDesignSaved?.({ designId: recorded.designId, name: recorded.name, designObjectId: recorded.designObjectId });
+    }
+  };
+
   const handleLoad = async () => {
     if (!loadBlobId.trim()) return;
 
     try {
       setError(null);
       
-      const result = await retrieve(loadBlobId.trim(), address || undefined);
+      // Quilt assets are fetched as the objects using them are shown
+      const { design } = await retrieveDesignWithAssets(loadBlobId.trim(), address || undefined);
       
-      if (result.data && result.data.designData) {
+      if (design.data && design.data.designData) {
         // Load the design into canvas
         if (onLoad) {
-          onLoad(result.data.designData);
+          onLoad(design.data.designData);
         }
         setError(`✅ Design loaded successfully!`);
         setLoadBlobId('');
@@ -290,6 +359,21 @@ export default function WalrusPopup({ isOpen, onClose, canvas, onLoad, onSave, m
             </div>
           )}
 
+          {/* On-chain record failure */}
+          {hasPendingRecord && (
+            <div className="mb-4 p-3 rounded-lg text-sm bg-red-50 text-red-800 border border-red-200">
+              <p>❌ The version is saved, but the on-chain history doesn&apos;t have it yet: {registryError}</p>
+              <button
+                onClick={handleRetryRecord}
+                disabled={isRecording}
+                className="mt-2 flex items-center space-x-1 px-3 py-1 text-xs bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
+              >
+                {isRecording && <Loader2 className="w-3 h-3 animate-spin" />}
+                <span>{isRecording ? 'Recording...' : 'Retry'}</span>
+              </button>
+            </div>
+          )}
+
           {/* Save Tab */}
           {activeTab === 'save' && (
             <div className="space-y-4">
@@ -306,6 +390,21 @@ export default function WalrusPopup({ isOpen, onClose, canvas, onLoad, onSave, m
                 />
               </div>
 
+              {currentDesign && (
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    id="saveAsNew"
+                    checked={saveAsNew}
+                    onChange={(e) => setSaveAsNew(e.target.checked)}
+                    className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                  />
+                  <label htmlFor="saveAsNew" className="text-sm text-gray-700">
+                    Save as a new design instead of a new version of &quot;{currentDesign.name}&quot;
+                  </label>
+                </div>
+              )}
+
               <div className="flex items-center space-x-2">
                 <input
                   type="checkbox"
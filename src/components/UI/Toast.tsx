@@ -106,7 +106,7 @@ export default function Toast({ id, type, title, message, duration = 5000, onClo
               {title}
             </p>
             {message && (
-              <p className={cn("mt-1 text-sm", config.textColor, "opacity-80")}>
+              <p className={cn("mt-1 text-sm whitespace-pre-line", config.textColor, "opacity-80")}>
                 {message}
               </p>
             )}
@@ -0,0 +1,177 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { useWalrus } from './useWalrus';
+import { useWalletService } from '@/services/walletSigner';
+import { createBrandKit, normalizeBrandKit, type BrandKit } from '@/utils/brandKit';
+import { registerDesignFonts } from '@/utils/fontLoader';
+
+interface UseBrandKitReturn {
+  brandKit: BrandKit;
+  walletAddress: string | null;
+  isLoading: boolean;
+  isSaving: boolean;
+  isBackingUp: boolean;
+  error: string | null;
+  updateBrandKit: (updates: Partial<BrandKit>) => Promise<void>;
+  backupToWalrus: (encrypted: boolean) => Promise<string>;
+  restoreFromWalrus: () => Promise<void>;
+}
+
+// The connected wallet's brand kit, kept in MongoDB with an optional (encrypted) copy on Walrus
+export const useBrandKit = (): UseBrandKitReturn => {
+  const [brandKit, setBrandKit] = useState<BrandKit>(createBrandKit);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Latest kit, so quick successive updates build on each other
+  const brandKitRef = useRef(brandKit);
+  // Saves run one at a time, so an older kit can't land after a newer one
+  const saveQueue = useRef<Promise<void>>(Promise.resolve());
+  const saveSeq = useRef(0);
+
+  const { store, retrieve } = useWalrus();
+  const walletService = useWalletService();
+  const walletAddress = walletService.address;
+
+  const replaceBrandKit = useCallback((kit: BrandKit) => {
+    brandKitRef.current = kit;
+    setBrandKit(kit);
+    // Uploaded brand fonts have to be registered before they can be picked or applied
+    registerDesignFonts(kit.fonts);
+  }, []);
+
+  useEffect(() => {
+    if (!walletAddress) {
+      replaceBrandKit(createBrandKit());
+      return;
+    }
+
+    let cancelled = false;
+    const load = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        // Import the service dynamically to avoid SSR issues
+        const { mongoDBService } = await import('../services/mongoDBService');
+        const saved = await mongoDBService.getBrandKit(walletAddress);
+        if (!cancelled) {
+          replaceBrandKit(saved ? normalizeBrandKit(saved) : createBrandKit());
+        }
+      } catch (err) {
+        console.error('Failed to load brand kit:', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load brand kit');
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [walletAddress, replaceBrandKit]);
+
+  const updateBrandKit = useCallback(async (updates: Partial<BrandKit>) => {
+    const next = { ...brandKitRef.current, ...updates };
+    replaceBrandKit(next);
+    if (!walletAddress) return;
+
+    const seq = ++saveSeq.current;
+    setIsSaving(true);
+    setError(null);
+
+    const save = saveQueue.current.then(async () => {
+      // A later update is queued behind this one and saves its changes too
+      if (seq !== saveSeq.current) return;
+      try {
+        const { mongoDBService } = await import('../services/mongoDBService');
+        await mongoDBService.saveBrandKit(walletAddress, next);
+      } catch (err) {
+        console.error('Failed to save brand kit:', err);
+        setError(err instanceof Error ? err.message : 'Failed to save brand kit');
+      }
+    });
+    saveQueue.current = save;
+    await save;
+
+    if (seq === saveSeq.current) {
+      setIsSaving(false);
+    }
+  }, [walletAddress, replaceBrandKit]);
+
+  const backupToWalrus = useCallback(async (encrypted: boolean) => {
+    if (!walletAddress) {
+      throw new Error('Wallet not connected');
+    }
+
+    try {
+      setIsBackingUp(true);
+      setError(null);
+
+      // The copy holds the kit itself; where its previous copy lives is MongoDB's business
+      const kit: Partial<BrandKit> = { ...brandKitRef.current };
+      delete kit.walrusBlobId;
+      delete kit.walrusBackupAt;
+      const result = await store({
+        designData: kit,
+        metadata: {
+          name: 'Brand Kit',
+          created: new Date().toISOString(),
+          encrypted,
+          walletAddress,
+          walletName: typeof walletService.walletName === 'string' ? walletService.walletName : 'Unknown Wallet',
+          version: '1.0.0',
+          type: 'brand-kit'
+        }
+      }, walletService as any, 1, {}, walletAddress);
+
+      await updateBrandKit({ walrusBlobId: result.blobId, walrusBackupAt: new Date().toISOString() });
+      return result.blobId;
+    } catch (err) {
+      console.error('Brand kit backup failed:', err);
+      setError(err instanceof Error ? err.message : 'Brand kit backup failed');
+      throw err;
+    } finally {
+      setIsBackingUp(false);
+    }
+  }, [walletAddress, walletService, store, updateBrandKit]);
+
+  // Replace the kit with its latest Walrus copy
+  const restoreFromWalrus = useCallback(async () => {
+    const { walrusBlobId, walrusBackupAt } = brandKitRef.current;
+    if (!walletAddress || !walrusBlobId) return;
+
+    try {
+      setIsBackingUp(true);
+      setError(null);
+
+      const result = await retrieve(walrusBlobId, walletAddress);
+      if (result.data.metadata?.type !== 'brand-kit' || !result.data.designData) {
+        throw new Error('The Walrus blob is not a brand kit');
+      }
+      await updateBrandKit({ ...normalizeBrandKit(result.data.designData), walrusBlobId, walrusBackupAt });
+    } catch (err) {
+      console.error('Brand kit restore failed:', err);
+      setError(err instanceof Error ? err.message : 'Brand kit restore failed');
+    } finally {
+      setIsBackingUp(false);
+    }
+  }, [walletAddress, retrieve, updateBrandKit]);
+
+  return {
+    brandKit,
+    walletAddress,
+    isLoading,
+    isSaving,
+    isBackingUp,
+    error,
+    updateBrandKit,
+    backupToWalrus,
+    restoreFromWalrus
+  };
+};
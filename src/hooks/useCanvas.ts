@@ -1,8 +1,146 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
 import { fabric } from '@/lib/fabric';
 import { CANVAS_CONFIG } from '@/utils/constants';
+import { findGuideSnap, snapToGrid, type GuideLine } from '@/utils/canvasSnapping';
+import { parseClipboardObjects, serializeClipboardObjects } from '@/utils/canvasClipboard';
+import { copyToClipboard, readFileAsDataURL, generateId } from '@/utils/helpers';
+import {
+  createDesignDocument,
+  createPage,
+  getDesignFontFamilies,
+  normalizeDesignData,
+  type DesignDocument,
+  type DesignPage,
+} from '@/utils/designDocument';
+import { createArrow, createRegularPolygon, createStar } from '@/lib/fabricShapes';
+import {
+  contoursToPathCommands,
+  createPointMapper,
+  drawPathOverlay,
+  findNodeAt,
+  findSegmentAt,
+  getPathMatrix,
+  insertNode,
+  moveNodePart,
+  NODE_HIT_RADIUS,
+  pathToContours,
+  removeNodePart,
+  setPathCommands,
+  type NodeRef,
+  type PathContour,
+  type PathNode,
+  type PathPoint,
+} from '@/lib/pathEditing';
+import { exportRaster } from '@/lib/exportService';
+import { exportPagesToPdf, type PdfExportOptions } from '@/lib/pdfExport';
+import { renderCanvasPreview, renderPagePreview } from '@/lib/designPreview';
+import { loadSvgObjects, type SvgImportResult } from '@/lib/svgImport';
+import { createFabricFill, resizeGradientFill, type FillStyle } from '@/lib/fillStyles';
+import { hasTextLayout, isTextObject, refreshTextLayout } from '@/lib/typography';
+import { getDesignFonts, registerDesignFonts } from '@/utils/fontLoader';
+import {
+  applyImageCrop,
+  cancelImageCrop,
+  constrainCropFrame,
+  drawCropOverlay,
+  isMaskShape,
+  maskImageWithShape,
+  releaseMask,
+  setCropFrameAspectRatio,
+  startImageCrop,
+  type CropSession,
+} from '@/lib/imageCrop';
+
+export type DrawingMode =
+  | 'select'
+  | 'rectangle'
+  | 'roundedRect'
+  | 'circle'
+  | 'triangle'
+  | 'polygon'
+  | 'star'
+  | 'line'
+  | 'arrow'
+  | 'text'
+  | 'pencil'
+  | 'pen'
+  | 'nodes'
+  | null;
+
+// Tools offered by the toolbar: every drawing mode plus image insertion
+export type EditorTool = Exclude<DrawingMode, null> | 'image';
+
+// Shapes drawn by dragging out a bounding box from the start point
+const BOX_SHAPE_MODES: DrawingMode[] = ['rectangle', 'roundedRect', 'triangle', 'polygon', 'star'];
+
+// Shapes drawn by dragging from one end point to the other
+const LINE_SHAPE_MODES: DrawingMode[] = ['line', 'arrow'];
+
+// Styling applied while a shape is being dragged out
+const DRAFT_SHAPE_STYLE = {
+  fill: 'transparent',
+  stroke: '#007bff',
+  strokeWidth: 2,
+  strokeDashArray: [5, 5],
+  selectable: false,
+  evented: false
+};
+
+// Fill colors for finished shapes
+const SHAPE_FILLS: Partial<Record<Exclude<DrawingMode, null>, string>> = {
+  rectangle: '#ff0000',
+  roundedRect: '#ff8000',
+  circle: '#00ff00',
+  triangle: '#0000ff',
+  polygon: '#800080',
+  star: '#ffd700',
+  pen: '#c0c0c0',
+};
+
+// Modes that handle pointer input themselves instead of selecting objects
+const PATH_EDIT_MODES: DrawingMode[] = ['pen', 'nodes'];
+
+export type AlignMode = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+// Custom object properties that must survive history snapshots
+const HISTORY_PROPERTIES = ['originalFontSize'];
+
+const PAGE_THUMBNAIL_WIDTH = 120;
+// Delay after the last change before the active page's thumbnail is re-rendered
+const PAGE_THUMBNAIL_DELAY = 400;
+const PAGE_THUMBNAIL_EVENTS = ['object:added', 'object:removed', 'object:modified'];
+
+function renderThumbnail(canvas: fabric.StaticCanvas): string {
+  return renderCanvasPreview(canvas, PAGE_THUMBNAIL_WIDTH);
+}
+
+function renderPageThumbnail(page: DesignPage): Promise<string> {
+  return renderPagePreview(page, PAGE_THUMBNAIL_WIDTH);
+}
+
+// Anchors placed so far by the pen tool, in canvas coordinates
+interface PenState {
+  nodes: PathNode[];
+  pointer: PathPoint | null;
+  dragging: boolean;
+}
+
+// Path whose nodes are being edited in node mode
+interface NodeEditSession {
+  path: fabric.Path;
+  contours: PathContour[];
+  selected: NodeRef | null;
+  dragging: boolean;
+  changed: boolean;
+}
 
-export type DrawingMode = 'select' | 'rectangle' | 'circle' | 'text' | 'pencil' | null;
+interface CanvasHistory {
+  undoStack: string[];
+  redoStack: string[];
+  current: string | null;
+}
 
 export interface CanvasState {
   canvas: fabric.Canvas | null;
@@ -16,6 +154,15 @@ export interface CanvasState {
   currentShape: fabric.Object | null;
   isPencilDrawing: boolean;
   pencilPath: fabric.Path | null;
+  canUndo: boolean;
+  canRedo: boolean;
+  showGrid: boolean;
+  snapToGrid: boolean;
+  smartGuides: boolean;
+  pages: DesignPage[];
+  activePageIndex: number;
+  isCropping: boolean;
+  cropAspectRatio: number | null;
 }
 
 export function useCanvas(containerRef: React.RefObject<HTMLDivElement | null>) {
@@ -31,18 +178,112 @@ export function useCanvas(containerRef: React.RefObject<HTMLDivElement | null>)
     currentShape: null,
     isPencilDrawing: false,
     pencilPath: null,
+    canUndo: false,
+    canRedo: false,
+    showGrid: false,
+    snapToGrid: false,
+    smartGuides: true,
+    pages: [createPage()],
+    activePageIndex: 0,
+    isCropping: false,
+    cropAspectRatio: null,
   });
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const stateRef = useRef(state);
   const lastSelectedRef = useRef<fabric.Object[]>([]);
   const fabricCanvasRef = useRef<fabric.Canvas | null>(null);
+  const historyRef = useRef<CanvasHistory>({ undoStack: [], redoStack: [], current: null });
+  // Depth counter: while > 0, canvas events are not recorded in history
+  const historyLockRef = useRef(0);
+  const guidesRef = useRef<GuideLine[]>([]);
+  const penRef = useRef<PenState>({ nodes: [], pointer: null, dragging: false });
+  const nodeEditRef = useRef<NodeEditSession | null>(null);
+  const cropRef = useRef<CropSession | null>(null);
+  const backgroundCommitRef = useRef<NodeJS.Timeout | null>(null);
+  // Serialized copy of the last copied objects, so later edits don't leak into pastes
+  const clipboardRef = useRef<string | null>(null);
+  const pasteCountRef = useRef(0);
+  // Undo/redo stacks of the pages that aren't currently displayed
+  const pageHistoriesRef = useRef(new Map<string, CanvasHistory>());
   
   // Keep state ref in sync with state
   useEffect(() => {
     stateRef.current = state;
   }, [state]);
 
+  // Snapshots carry the document size so resizing can be undone
+  const takeSnapshot = useCallback((canvas: fabric.Canvas) => {
+    return JSON.stringify({
+      ...(canvas as any).toJSON(HISTORY_PROPERTIES),
+      width: canvas.getWidth(),
+      height: canvas.getHeight()
+    });
+  }, []);
+
+  const syncHistoryState = useCallback(() => {
+    const history = historyRef.current;
+    setState(prev => ({
+      ...prev,
+      canUndo: history.undoStack.length > 0,
+      canRedo: history.redoStack.length > 0
+    }));
+  }, []);
+
+  const resetHistory = useCallback((canvas: fabric.Canvas) => {
+    historyRef.current = { undoStack: [], redoStack: [], current: takeSnapshot(canvas) };
+    syncHistoryState();
+  }, [takeSnapshot, syncHistoryState]);
+
+  // Push the previous canvas state onto the undo stack when the canvas changes
+  const recordHistory = useCallback(() => {
+    const canvas = fabricCanvasRef.current;
+    if (!canvas || historyLockRef.current > 0) return;
+
+    const history = historyRef.current;
+    const snapshot = takeSnapshot(canvas);
+    if (snapshot === history.current) return;
+
+    if (history.current !== null) {
+      history.undoStack.push(history.current);
+      if (history.undoStack.length > CANVAS_CONFIG.HISTORY_LIMIT) {
+        history.undoStack.shift();
+      }
+    }
+    history.current = snapshot;
+    history.redoStack = [];
+    syncHistoryState();
+  }, [takeSnapshot, syncHistoryState]);
+
+  // Run a batch of canvas mutations as a single history entry
+  const withHistoryBatch = useCallback((mutate: () => void) => {
+    historyLockRef.current++;
+    try {
+      mutate();
+    } finally {
+      historyLockRef.current--;
+    }
+    recordHistory();
+  }, [recordHistory]);
+
+  const restoreSnapshot = useCallback((canvas: fabric.Canvas, snapshot: string) => {
+    historyLockRef.current++;
+    canvas.discardActiveObject();
+    // loadFromJSON would copy width/height onto the canvas without resizing its element
+    const { width, height, ...data } = JSON.parse(snapshot);
+    if (width !== canvas.getWidth() || height !== canvas.getHeight()) {
+      canvas.setDimensions({ width, height });
+    }
+    canvas.loadFromJSON(data, () => {
+      canvas.renderAll();
+      historyLockRef.current--;
+      historyRef.current.current = snapshot;
+      syncHistoryState();
+    });
+    lastSelectedRef.current = [];
+    setState(prev => ({ ...prev, selectedObjects: [] }));
+  }, [syncHistoryState]);
+
   const resetDrawingState = useCallback(() => {
     setState(prev => ({
       ...prev,
@@ -54,6 +295,98 @@ export function useCanvas(containerRef: React.RefObject<HTMLDivElement | null>)
     }));
   }, []);
 
+  // Turn the pen tool's anchors into a path object; fewer than two anchors are discarded
+  const commitPenPath = useCallback((canvas: fabric.Canvas, closed = false) => {
+    // Double-clicking to finish places extra anchors on top of the last one
+    const nodes = penRef.current.nodes.filter((node, i, all) =>
+      i === 0 || Math.hypot(node.x - all[i - 1].x, node.y - all[i - 1].y) > 1
+    );
+    penRef.current = { nodes: [], pointer: null, dragging: false };
+    canvas.clearContext(canvas.getSelectionContext());
+
+    if (nodes.length >= 2) {
+      const path = new fabric.Path(contoursToPathCommands([{ nodes, closed }]) as any, {
+        fill: closed ? SHAPE_FILLS.pen : '',
+        stroke: '#000000',
+        strokeWidth: 2,
+        strokeLineCap: 'round',
+        strokeLineJoin: 'round'
+      });
+      canvas.add(path);
+    }
+    canvas.requestRenderAll();
+  }, []);
+
+  const startNodeEditing = useCallback((canvas: fabric.Canvas, path: fabric.Path) => {
+    nodeEditRef.current = {
+      path,
+      contours: pathToContours(path.path as any),
+      selected: null,
+      dragging: false,
+      changed: false
+    };
+    canvas.discardActiveObject();
+    canvas.requestRenderAll();
+  }, []);
+
+  const stopNodeEditing = useCallback((canvas: fabric.Canvas) => {
+    if (!nodeEditRef.current) return;
+
+    nodeEditRef.current = null;
+    canvas.clearContext(canvas.getSelectionContext());
+    canvas.requestRenderAll();
+  }, []);
+
+  // Leave crop mode, keeping the framed crop or restoring the image. The whole crop is one history step.
+  const finishCrop = useCallback((canvas: fabric.Canvas, keep: boolean) => {
+    const session = cropRef.current;
+    if (!session) return;
+
+    cropRef.current = null;
+    if (keep) {
+      applyImageCrop(canvas, session);
+    } else {
+      cancelImageCrop(canvas, session);
+    }
+    historyLockRef.current--;
+
+    // Reselect the image unless the crop ended because something else was selected or it was removed
+    const active = canvas.getActiveObject();
+    if ((!active || active === session.frame) && canvas.getObjects().includes(session.image)) {
+      canvas.setActiveObject(session.image);
+    }
+    if (keep) {
+      canvas.fire('object:modified', { target: session.image });
+    }
+    canvas.clearContext(canvas.getSelectionContext());
+    canvas.requestRenderAll();
+    setState(prev => ({ ...prev, isCropping: false, cropAspectRatio: null }));
+  }, []);
+
+  // Write edited nodes back to the path; a path with no segments left is removed
+  const applyNodeEdit = useCallback((canvas: fabric.Canvas, session: NodeEditSession) => {
+    if (session.contours.length === 0) {
+      stopNodeEditing(canvas);
+      canvas.remove(session.path);
+      return;
+    }
+
+    setPathCommands(session.path, contoursToPathCommands(session.contours));
+    session.changed = true;
+    canvas.requestRenderAll();
+  }, [stopNodeEditing]);
+
+  const removePathNode = useCallback((canvas: fabric.Canvas, session: NodeEditSession, ref: NodeRef) => {
+    session.contours = removeNodePart(session.contours, ref);
+    session.selected = null;
+    applyNodeEdit(canvas, session);
+    // Removing the last segment deletes the whole path, which records itself
+    if (nodeEditRef.current) {
+      session.changed = false;
+      canvas.fire('object:modified', { target: session.path });
+    }
+  }, [applyNodeEdit]);
+
   const initializeCanvas = useCallback(() => {
     if (!containerRef.current || !canvasRef.current) return;
 
@@ -98,6 +431,10 @@ export function useCanvas(containerRef: React.RefObject<HTMLDivElement | null>)
 
       canvas.on('selection:updated', (e) => {
         console.log('Selection updated:', e.selected?.length || 0, 'objects');
+        // Selecting something else ends crop mode, keeping the crop
+        if (cropRef.current && e.deselected?.includes(cropRef.current.frame)) {
+          finishCrop(canvas, true);
+        }
         setState(prev => ({
           ...prev,
           selectedObjects: e.selected || []
@@ -107,6 +444,10 @@ export function useCanvas(containerRef: React.RefObject<HTMLDivElement | null>)
 
       canvas.on('selection:cleared', (e) => {
         console.log('Selection cleared');
+        if (cropRef.current) {
+          finishCrop(canvas, true);
+          return;
+        }
         // Ignore synthetic selection clear that immediately follows deletion
         const anyTarget = (e as any)?.deselected?.[0] || canvas.getActiveObject();
         if (anyTarget && (anyTarget as any).__deleted) {
@@ -148,6 +489,13 @@ export function useCanvas(containerRef: React.RefObject<HTMLDivElement | null>)
       // Add debugging for object changes
       canvas.on('object:added', (e) => {
         console.log('Object added:', e.target?.type, 'Total objects:', canvas.getObjects().length);
+        // Objects keep their id across saves, so versions of a design can be compared object
+        // by object; pasted and duplicated copies get their own
+        const target = e.target as any;
+        if (target && (!target.id || canvas.getObjects().some(object => object !== target && (object as any).id === target.id))) {
+          target.id = generateId();
+        }
+        recordHistory();
       });
 
       canvas.on('object:removed', (e) => {
@@ -156,14 +504,40 @@ export function useCanvas(containerRef: React.RefObject<HTMLDivElement | null>)
         if ((e.target as any)?.__deleted) {
           setState(prev => ({ ...prev, selectedObjects: [] }));
         }
+        // Undo, load and clear replace objects, so a node edit session can't outlive its path
+        if (nodeEditRef.current?.path === e.target) {
+          stopNodeEditing(canvas);
+        }
+        // Deleting the frame, or replacing the canvas contents, abandons the crop
+        if (cropRef.current && (cropRef.current.frame === e.target || cropRef.current.image === e.target)) {
+          finishCrop(canvas, false);
+        }
+        recordHistory();
       });
 
       canvas.on('object:modified', (e) => {
         console.log('Object modified:', e.target?.type, 'Total objects:', canvas.getObjects().length);
+        // Resizing or restyling text re-fits and re-curves it before the change is recorded
+        if (isTextObject(e.target) && hasTextLayout(e.target)) {
+          refreshTextLayout(e.target);
+        }
+        recordHistory();
+      });
+
+      canvas.on('text:changed', (e) => {
+        const target = (e as any).target as fabric.Object | undefined;
+        if (isTextObject(target) && hasTextLayout(target)) {
+          refreshTextLayout(target);
+        }
       });
 
       // Handle text editing completion - delete empty text boxes
       canvas.on('text:editing:exited', (e) => {
+        // List markers are added to new lines and renumbered once typing is done
+        if (isTextObject(e.target) && hasTextLayout(e.target)) {
+          refreshTextLayout(e.target, { lists: true });
+        }
+
         const textObject = e.target as fabric.Textbox;
         if (textObject && textObject.type === 'textbox') {
           const text = textObject.text?.trim() || '';
@@ -177,6 +551,120 @@ export function useCanvas(containerRef: React.RefObject<HTMLDivElement | null>)
         }
       });
 
+      // Grid snapping and smart guides while dragging
+      canvas.on('object:moving', (e) => {
+        const target = e.target;
+        if (cropRef.current && target === cropRef.current.frame) {
+          constrainCropFrame(cropRef.current);
+          return;
+        }
+
+        const { snapToGrid: gridSnap, smartGuides } = stateRef.current;
+        if (!target || (!gridSnap && !smartGuides)) return;
+
+        let snappedX = false;
+        let snappedY = false;
+        guidesRef.current = [];
+
+        if (smartGuides) {
+          const selected = canvas.getActiveObjects();
+          const others = canvas.getObjects()
+            .filter(obj => obj !== target && obj.visible !== false && !selected.includes(obj))
+            .map(obj => obj.getBoundingRect(true, true));
+          const threshold = CANVAS_CONFIG.SNAP_THRESHOLD / canvas.getZoom();
+          const snap = findGuideSnap(target.getBoundingRect(true, true), others, threshold);
+
+          if (snap.dx !== null) {
+            target.set('left', target.left! + snap.dx);
+            snappedX = true;
+          }
+          if (snap.dy !== null) {
+            target.set('top', target.top! + snap.dy);
+            snappedY = true;
+          }
+          guidesRef.current = snap.guides;
+        }
+
+        if (gridSnap) {
+          if (!snappedX) target.set('left', snapToGrid(target.left!, CANVAS_CONFIG.GRID_SIZE));
+          if (!snappedY) target.set('top', snapToGrid(target.top!, CANVAS_CONFIG.GRID_SIZE));
+        }
+        target.setCoords();
+      });
+
+      canvas.on('object:scaling', (e) => {
+        const target = e.target;
+        if (cropRef.current && target === cropRef.current.frame) {
+          constrainCropFrame(cropRef.current);
+          return;
+        }
+        if (!target || !stateRef.current.snapToGrid) return;
+
+        // Snap the scaled size to whole grid cells
+        const grid = CANVAS_CONFIG.GRID_SIZE;
+        const width = target.width || 0;
+        const height = target.height || 0;
+        if (width > 0) {
+          const scaledWidth = Math.max(grid, snapToGrid(width * (target.scaleX || 1), grid));
+          target.set('scaleX', scaledWidth / width);
+        }
+        if (height > 0) {
+          const scaledHeight = Math.max(grid, snapToGrid(height * (target.scaleY || 1), grid));
+          target.set('scaleY', scaledHeight / height);
+        }
+        target.setCoords();
+      });
+
+      // Guides and path editing overlays are drawn on the top (selection) context so they never reach exports
+      canvas.on('before:render', () => {
+        if (guidesRef.current.length > 0 || penRef.current.nodes.length > 0 || nodeEditRef.current || cropRef.current) {
+          canvas.clearContext(canvas.getSelectionContext());
+        }
+      });
+
+      canvas.on('after:render', () => {
+        const ctx = canvas.getSelectionContext();
+        const vpt = canvas.viewportTransform || [1, 0, 0, 1, 0, 0];
+
+        const pen = penRef.current;
+        if (pen.nodes.length > 0) {
+          drawPathOverlay(ctx, [{ nodes: pen.nodes, closed: false }], createPointMapper(vpt), {
+            preview: pen.dragging ? null : pen.pointer
+          });
+        }
+
+        const session = nodeEditRef.current;
+        if (session) {
+          const toScreen = createPointMapper(fabric.util.multiplyTransformMatrices(vpt, getPathMatrix(session.path)));
+          drawPathOverlay(ctx, session.contours, toScreen, { selected: session.selected });
+        }
+
+        if (cropRef.current) {
+          drawCropOverlay(ctx, cropRef.current, vpt);
+          // Redraw the frame's handles above the dimming
+          canvas.drawControls(ctx);
+        }
+
+        if (guidesRef.current.length === 0) return;
+
+        ctx.save();
+        ctx.transform(vpt[0], vpt[1], vpt[2], vpt[3], vpt[4], vpt[5]);
+        ctx.strokeStyle = '#ff00ff';
+        ctx.lineWidth = 1 / canvas.getZoom();
+        guidesRef.current.forEach(guide => {
+          ctx.beginPath();
+          if (guide.orientation === 'vertical') {
+            ctx.moveTo(guide.position, guide.start);
+            ctx.lineTo(guide.position, guide.end);
+          } else {
+            ctx.moveTo(guide.start, guide.position);
+            ctx.lineTo(guide.end, guide.position);
+          }
+          ctx.stroke();
+        });
+        ctx.restore();
+      });
+
       canvas.on('mouse:wheel', (opt) => {
         const delta = opt.e.deltaY;
         let zoom = canvas.getZoom();
@@ -202,6 +690,77 @@ export function useCanvas(containerRef: React.RefObject<HTMLDivElement | null>)
           return;
         }
 
+        // Pen: click places a corner anchor, dragging pulls out its curve handles
+        if (currentState.drawingMode === 'pen') {
+          const pen = penRef.current;
+          const first = pen.nodes[0];
+          const screenPointer = canvas.getPointer(opt.e, true);
+          const toScreen = createPointMapper(canvas.viewportTransform || [1, 0, 0, 1, 0, 0]);
+
+          // Clicking the first anchor again closes the path
+          if (first && pen.nodes.length > 2) {
+            const start = toScreen(first);
+            if (Math.hypot(start.x - screenPointer.x, start.y - screenPointer.y) <= NODE_HIT_RADIUS) {
+              commitPenPath(canvas, true);
+              return;
+            }
+          }
+
+          const pointer = canvas.getPointer(opt.e);
+          pen.nodes.push({ x: pointer.x, y: pointer.y, handleIn: null, handleOut: null });
+          pen.dragging = true;
+          canvas.requestRenderAll();
+          return;
+        }
+
+        // Nodes: drag anchors and handles, click a segment to add a node, Alt+click to delete one
+        if (currentState.drawingMode === 'nodes') {
+          const session = nodeEditRef.current;
+          const screenPointer = canvas.getPointer(opt.e, true);
+
+          if (session) {
+            const vpt = canvas.viewportTransform || [1, 0, 0, 1, 0, 0];
+            const toScreen = createPointMapper(fabric.util.multiplyTransformMatrices(vpt, getPathMatrix(session.path)));
+            const hit = findNodeAt(session.contours, screenPointer, toScreen);
+
+            if (hit && (opt.e as MouseEvent).altKey) {
+              removePathNode(canvas, session, hit);
+              return;
+            }
+
+            if (hit) {
+              session.selected = hit;
+              session.dragging = true;
+              canvas.requestRenderAll();
+              return;
+            }
+
+            const segment = findSegmentAt(session.contours, screenPointer, toScreen);
+            if (segment) {
+              const node = insertNode(session.contours, segment.contour, segment.segment, segment.t);
+              session.selected = { contour: segment.contour, node, part: 'anchor' };
+              session.dragging = true;
+              applyNodeEdit(canvas, session);
+              return;
+            }
+          }
+
+          // Otherwise pick the top-most path under the pointer, or stop editing on empty space
+          const pointer = canvas.getPointer(opt.e);
+          const path = [...canvas.getObjects()].reverse().find(object =>
+            object.type === 'path' &&
+            object.visible !== false &&
+            object.evented !== false &&
+            object.containsPoint(new fabric.Point(pointer.x, pointer.y), undefined, true, true)
+          );
+          if (path) {
+            startNodeEditing(canvas, path as fabric.Path);
+          } else {
+            stopNodeEditing(canvas);
+          }
+          return;
+        }
+
         // If we're in select mode or clicking on an existing object, don't create new shapes
         if (currentState.drawingMode === 'select' || opt.target) {
           console.log('In select mode or clicked on existing object, not creating new shape');
@@ -219,19 +778,30 @@ export function useCanvas(containerRef: React.RefObject<HTMLDivElement | null>)
         
         let newShape: fabric.Object;
         
+        const boxOptions = {
+          left: pointer.x,
+          top: pointer.y,
+          width: 0,
+          height: 0,
+          ...DRAFT_SHAPE_STYLE
+        };
+        
         if (currentState.drawingMode === 'rectangle') {
-          newShape = new fabric.Rect({
-            left: pointer.x,
-            top: pointer.y,
-            width: 0,
-            height: 0,
-            fill: 'transparent',
-            stroke: '#007bff',
-            strokeWidth: 2,
-            strokeDashArray: [5, 5],
-            selectable: false,
-            evented: false
-          });
+          newShape = new fabric.Rect(boxOptions);
+        } else if (currentState.drawingMode === 'roundedRect') {
+          newShape = new fabric.Rect({ ...boxOptions, rx: 16, ry: 16 });
+        } else if (currentState.drawingMode === 'triangle') {
+          newShape = new fabric.Triangle(boxOptions);
+        } else if (currentState.drawingMode === 'polygon') {
+          newShape = createRegularPolygon(boxOptions);
+        } else if (currentState.drawingMode === 'star') {
+          newShape = createStar(boxOptions);
+        } else if (currentState.drawingMode === 'line' || currentState.drawingMode === 'arrow') {
+          const points = [pointer.x, pointer.y, pointer.x, pointer.y];
+          const lineOptions = { ...DRAFT_SHAPE_STYLE, fill: undefined };
+          newShape = currentState.drawingMode === 'arrow'
+            ? createArrow(points, lineOptions)
+            : new fabric.Line(points, lineOptions);
         } else if (currentState.drawingMode === 'circle') {
           newShape = new fabric.Circle({
             left: pointer.x,
@@ -276,6 +846,8 @@ export function useCanvas(containerRef: React.RefObject<HTMLDivElement | null>)
           return;
         }
         
+        // The in-progress shape is recorded once the drag completes
+        historyLockRef.current++;
         canvas.add(newShape);
         
         setState(prev => ({
@@ -291,24 +863,55 @@ export function useCanvas(containerRef: React.RefObject<HTMLDivElement | null>)
         
         // In pencil mode, Fabric free drawing handles rendering
         if (currentState.drawingMode === 'pencil') return;
+
+        if (currentState.drawingMode === 'pen') {
+          const pen = penRef.current;
+          if (pen.nodes.length === 0) return;
+
+          const pointer = canvas.getPointer(opt.e);
+          pen.pointer = { x: pointer.x, y: pointer.y };
+          if (pen.dragging) {
+            // Handles stay mirrored so the curve passes smoothly through the anchor
+            const anchor = pen.nodes[pen.nodes.length - 1];
+            anchor.handleOut = { x: pointer.x, y: pointer.y };
+            anchor.handleIn = { x: 2 * anchor.x - pointer.x, y: 2 * anchor.y - pointer.y };
+          }
+          canvas.requestRenderAll();
+          return;
+        }
+
+        if (currentState.drawingMode === 'nodes') {
+          const session = nodeEditRef.current;
+          if (!session?.dragging || !session.selected) return;
+
+          const vpt = canvas.viewportTransform || [1, 0, 0, 1, 0, 0];
+          const toLocal = createPointMapper(
+            fabric.util.invertTransform(fabric.util.multiplyTransformMatrices(vpt, getPathMatrix(session.path)))
+          );
+          moveNodePart(session.contours, session.selected, toLocal(canvas.getPointer(opt.e, true)));
+          applyNodeEdit(canvas, session);
+          return;
+        }
         
         if (!currentState.isDrawing || !currentState.currentShape || currentState.drawingMode === 'select') return;
         
         const pointer = canvas.getPointer(opt.e);
         const { x: startX, y: startY } = currentState.startPoint!;
         
-        if (currentState.drawingMode === 'rectangle') {
-          const rect = currentState.currentShape as fabric.Rect;
+        if (BOX_SHAPE_MODES.includes(currentState.drawingMode)) {
+          const shape = currentState.currentShape;
           if (pointer.x > startX) {
-            rect.set({ width: pointer.x - startX });
+            shape.set({ width: pointer.x - startX });
           } else {
-            rect.set({ left: pointer.x, width: startX - pointer.x });
+            shape.set({ left: pointer.x, width: startX - pointer.x });
           }
           if (pointer.y > startY) {
-            rect.set({ height: pointer.y - startY });
+            shape.set({ height: pointer.y - startY });
           } else {
-            rect.set({ top: pointer.y, height: startY - pointer.y });
+            shape.set({ top: pointer.y, height: startY - pointer.y });
           }
+        } else if (LINE_SHAPE_MODES.includes(currentState.drawingMode)) {
+          (currentState.currentShape as fabric.Line).set({ x2: pointer.x, y2: pointer.y });
         } else if (currentState.drawingMode === 'circle') {
           const circle = currentState.currentShape as fabric.Circle;
           const dx = pointer.x - startX;
@@ -351,9 +954,41 @@ export function useCanvas(containerRef: React.RefObject<HTMLDivElement | null>)
 
       canvas.on('mouse:up', (opt) => {
         const currentState = stateRef.current;
+
+        if (guidesRef.current.length > 0) {
+          guidesRef.current = [];
+          canvas.clearContext(canvas.getSelectionContext());
+          canvas.requestRenderAll();
+        }
         
         // In pencil mode, Fabric free drawing handles completion
         if (currentState.drawingMode === 'pencil') return;
+
+        if (currentState.drawingMode === 'pen') {
+          const pen = penRef.current;
+          const anchor = pen.nodes[pen.nodes.length - 1];
+          // A click without a real drag leaves a corner anchor
+          if (pen.dragging && anchor?.handleOut &&
+            Math.hypot(anchor.handleOut.x - anchor.x, anchor.handleOut.y - anchor.y) * canvas.getZoom() < 2) {
+            anchor.handleIn = null;
+            anchor.handleOut = null;
+          }
+          pen.dragging = false;
+          canvas.requestRenderAll();
+          return;
+        }
+
+        if (currentState.drawingMode === 'nodes') {
+          const session = nodeEditRef.current;
+          if (!session?.dragging) return;
+
+          session.dragging = false;
+          if (session.changed) {
+            session.changed = false;
+            canvas.fire('object:modified', { target: session.path });
+          }
+          return;
+        }
         
         if (!currentState.isDrawing || !currentState.currentShape || currentState.drawingMode === 'select') return;
         
@@ -362,10 +997,13 @@ export function useCanvas(containerRef: React.RefObject<HTMLDivElement | null>)
         
         // Check minimum size
         let hasMinimumSize = false;
-        if (currentState.drawingMode === 'rectangle') {
+        if (BOX_SHAPE_MODES.includes(currentState.drawingMode)) {
           const width = Math.abs(pointer.x - startX);
           const height = Math.abs(pointer.y - startY);
           hasMinimumSize = width > 5 && height > 5;
+        } else if (LINE_SHAPE_MODES.includes(currentState.drawingMode)) {
+          const length = Math.sqrt(Math.pow(pointer.x - startX, 2) + Math.pow(pointer.y - startY, 2));
+          hasMinimumSize = length > 5;
         } else if (currentState.drawingMode === 'circle') {
           const diameter = Math.sqrt(Math.pow(pointer.x - startX, 2) + Math.pow(pointer.y - startY, 2));
           hasMinimumSize = diameter > 10; // Minimum diameter of 10 pixels
@@ -378,20 +1016,19 @@ export function useCanvas(containerRef: React.RefObject<HTMLDivElement | null>)
         if (hasMinimumSize) {
           // Finalize the shape
           const shape = currentState.currentShape;
-          if (currentState.drawingMode === 'rectangle') {
+          if (BOX_SHAPE_MODES.includes(currentState.drawingMode) || currentState.drawingMode === 'circle') {
             shape.set({
-              fill: '#ff0000',
+              fill: SHAPE_FILLS[currentState.drawingMode!],
               stroke: '#000000',
               strokeWidth: 1,
               strokeDashArray: undefined,
               selectable: true,
               evented: true
             });
-          } else if (currentState.drawingMode === 'circle') {
+          } else if (LINE_SHAPE_MODES.includes(currentState.drawingMode)) {
             shape.set({
-              fill: '#00ff00',
               stroke: '#000000',
-              strokeWidth: 1,
+              strokeWidth: 3,
               strokeDashArray: undefined,
               selectable: true,
               evented: true
@@ -464,6 +1101,12 @@ export function useCanvas(containerRef: React.RefObject<HTMLDivElement | null>)
         
         canvas.renderAll();
         
+        historyLockRef.current--;
+        // Text boxes are recorded when editing finishes (object:modified)
+        if (hasMinimumSize && currentState.drawingMode !== 'text') {
+          recordHistory();
+        }
+        
         // Reset drawing state
         resetDrawingState();
 
@@ -472,6 +1115,15 @@ export function useCanvas(containerRef: React.RefObject<HTMLDivElement | null>)
         canvas.renderAll();
       });
 
+      // Double-click finishes an open pen path
+      canvas.on('mouse:dblclick', () => {
+        if (stateRef.current.drawingMode === 'pen') {
+          commitPenPath(canvas);
+        }
+      });
+
+      resetHistory(canvas);
+
       setState(prev => ({
         ...prev,
         canvas,
@@ -487,7 +1139,7 @@ export function useCanvas(containerRef: React.RefObject<HTMLDivElement | null>)
         error: error instanceof Error ? error.message : 'Canvas initialization failed'
       }));
     }
-  }, [containerRef, resetDrawingState]);
+  }, [containerRef, resetDrawingState, recordHistory, resetHistory, commitPenPath, startNodeEditing, stopNodeEditing, applyNodeEdit, removePathNode, finishCrop]);
 
   const addText = useCallback((text: string, options?: any) => {
     if (!state.canvas) return;
@@ -651,6 +1303,47 @@ export function useCanvas(containerRef: React.RefObject<HTMLDivElement | null>)
     });
   }, [state.canvas]);
 
+  // Import SVG markup as vector objects, split into separate editable objects unless asGroup
+  const importSvg = useCallback(async (markup: string, asGroup = false): Promise<SvgImportResult> => {
+    if (!state.canvas) throw new Error('Canvas is not ready');
+
+    const canvasInstance = state.canvas;
+    const result = await loadSvgObjects(markup);
+    const imported = result.object;
+
+    // Shrink artwork larger than the page so it lands fully visible
+    const fit = Math.min(
+      1,
+      (canvasInstance.getWidth() * 0.8) / (imported.getScaledWidth() || 1),
+      (canvasInstance.getHeight() * 0.8) / (imported.getScaledHeight() || 1)
+    );
+    imported.set({
+      scaleX: (imported.scaleX || 1) * fit,
+      scaleY: (imported.scaleY || 1) * fit
+    });
+
+    setState(prev => ({ ...prev, drawingMode: 'select' }));
+    canvasInstance.discardActiveObject();
+
+    let objects: fabric.Object[] = [imported];
+    withHistoryBatch(() => {
+      canvasInstance.add(imported);
+      canvasInstance.centerObject(imported);
+      imported.setCoords();
+      if (!asGroup && imported.type === 'group') {
+        objects = (imported as fabric.Group).toActiveSelection().getObjects();
+      }
+    });
+    // toActiveSelection swaps the active object silently; reselect so selection listeners update
+    canvasInstance.discardActiveObject();
+    canvasInstance.setActiveObject(objects.length > 1
+      ? new fabric.ActiveSelection(objects, { canvas: canvasInstance })
+      : objects[0]);
+    canvasInstance.requestRenderAll();
+
+    return result;
+  }, [state.canvas, withHistoryBatch]);
+
   const deleteSelected = useCallback(() => {
     if (!state.canvas) return;
 
@@ -670,7 +1363,7 @@ export function useCanvas(containerRef: React.RefObject<HTMLDivElement | null>)
 
     const handledObjects = new Set<fabric.Object>();
 
-    targets.forEach(target => {
+    withHistoryBatch(() => targets.forEach(target => {
       if (!target || handledObjects.has(target)) {
         return;
       }
@@ -694,7 +1387,7 @@ export function useCanvas(containerRef: React.RefObject<HTMLDivElement | null>)
       }
 
       canvasInstance.remove(target);
-    });
+    }));
 
     // Important: discard selection AFTER removals to avoid Fabric re-grouping/refresh bringing them back
     canvasInstance.discardActiveObject();
@@ -706,46 +1399,765 @@ export function useCanvas(containerRef: React.RefObject<HTMLDivElement | null>)
       ...prev,
       selectedObjects: []
     }));
-  }, [state.canvas, state.selectedObjects]);
+  }, [state.canvas, state.selectedObjects, withHistoryBatch]);
 
   const clearCanvas = useCallback(() => {
     if (!state.canvas) return;
 
-    state.canvas.clear();
-    state.canvas.backgroundColor = CANVAS_CONFIG.BACKGROUND_COLOR;
+    withHistoryBatch(() => {
+      state.canvas!.clear();
+      state.canvas!.backgroundColor = CANVAS_CONFIG.BACKGROUND_COLOR;
+    });
     state.canvas.renderAll();
-  }, [state.canvas]);
+  }, [state.canvas, withHistoryBatch]);
+
+  // Serialize the displayed page back into the page list; its history is parked until it is shown again
+  const captureActivePage = useCallback((canvas: fabric.Canvas) => {
+    // Mid-crop the image is shown uncropped; serialize it as framed
+    finishCrop(canvas, true);
+    const pages = [...state.pages];
+    const active = pages[state.activePageIndex];
+    pages[state.activePageIndex] = {
+      ...active,
+      width: canvas.getWidth(),
+      height: canvas.getHeight(),
+      background: typeof canvas.backgroundColor === 'string' ? canvas.backgroundColor : active.background,
+      canvasData: (canvas as any).toJSON(HISTORY_PROPERTIES),
+      thumbnail: renderThumbnail(canvas)
+    };
+    pageHistoriesRef.current.set(active.id, historyRef.current);
+    return pages;
+  }, [state.pages, state.activePageIndex, finishCrop]);
+
+  // Put a page on the editor canvas, resizing it and restoring that page's undo history
+  const showPage = useCallback((canvas: fabric.Canvas, page: DesignPage) => {
+    if (penRef.current.nodes.length > 0) {
+      commitPenPath(canvas);
+    }
+    stopNodeEditing(canvas);
+    canvas.discardActiveObject();
+    lastSelectedRef.current = [];
+
+    historyLockRef.current++;
+    canvas.setDimensions({ width: page.width, height: page.height });
+    return new Promise<void>(resolve => {
+      canvas.loadFromJSON(page.canvasData, () => {
+        if (!canvas.backgroundColor) {
+          canvas.backgroundColor = page.background;
+        }
+        canvas.renderAll();
+        historyLockRef.current--;
+
+        const history = pageHistoriesRef.current.get(page.id);
+        historyRef.current = history
+          ? { ...history, current: takeSnapshot(canvas) }
+          : { undoStack: [], redoStack: [], current: takeSnapshot(canvas) };
+        syncHistoryState();
+        resolve();
+      });
+    });
+  }, [commitPenPath, stopNodeEditing, takeSnapshot, syncHistoryState]);
+
+  const displayPages = useCallback((pages: DesignPage[], index: number) => {
+    if (!state.canvas) return Promise.resolve();
+
+    setState(prev => ({ ...prev, pages, activePageIndex: index, selectedObjects: [] }));
+    return showPage(state.canvas, pages[index]);
+  }, [state.canvas, showPage]);
+
+  const switchPage = useCallback((index: number) => {
+    if (!state.canvas || index === state.activePageIndex || !state.pages[index]) return;
+
+    displayPages(captureActivePage(state.canvas), index);
+  }, [state.canvas, state.activePageIndex, state.pages, displayPages, captureActivePage]);
+
+  // New pages match the size of the page they're added after
+  const addPage = useCallback(() => {
+    if (!state.canvas) return;
+
+    const pages = captureActivePage(state.canvas);
+    const index = state.activePageIndex + 1;
+    pages.splice(index, 0, createPage({
+      name: `Page ${pages.length + 1}`,
+      width: state.canvas.getWidth(),
+      height: state.canvas.getHeight()
+    }));
+    displayPages(pages, index);
+  }, [state.canvas, state.activePageIndex, captureActivePage, displayPages]);
+
+  const duplicatePage = useCallback((index: number) => {
+    if (!state.canvas || !state.pages[index]) return;
+
+    const pages = captureActivePage(state.canvas);
+    const source = pages[index];
+    pages.splice(index + 1, 0, {
+      ...source,
+      id: generateId(),
+      name: `${source.name} copy`,
+      canvasData: JSON.parse(JSON.stringify(source.canvasData))
+    });
+    displayPages(pages, index + 1);
+  }, [state.canvas, state.pages, captureActivePage, displayPages]);
+
+  const deletePage = useCallback((index: number) => {
+    if (!state.canvas || state.pages.length <= 1 || !state.pages[index]) return;
+
+    pageHistoriesRef.current.delete(state.pages[index].id);
+    if (index !== state.activePageIndex) {
+      const pages = state.pages.filter((_, i) => i !== index);
+      const activePageIndex = state.activePageIndex - (index < state.activePageIndex ? 1 : 0);
+      setState(prev => ({ ...prev, pages, activePageIndex }));
+      return;
+    }
+
+    const pages = state.pages.filter((_, i) => i !== index);
+    displayPages(pages, Math.min(index, pages.length - 1));
+  }, [state.canvas, state.pages, state.activePageIndex, displayPages]);
+
+  // Reordering never changes which page is displayed, so the canvas is left alone
+  const movePage = useCallback((from: number, to: number) => {
+    if (from === to || !state.pages[from] || to < 0 || to >= state.pages.length) return;
+
+    const activeId = state.pages[state.activePageIndex].id;
+    const pages = [...state.pages];
+    const [page] = pages.splice(from, 1);
+    pages.splice(to, 0, page);
+    setState(prev => ({
+      ...prev,
+      pages,
+      activePageIndex: pages.findIndex(p => p.id === activeId)
+    }));
+  }, [state.pages, state.activePageIndex]);
+
+  const renamePage = useCallback((index: number, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    setState(prev => ({
+      ...prev,
+      pages: prev.pages.map((page, i) => (i === index ? { ...page, name: trimmed } : page))
+    }));
+  }, []);
+
+  // Every page, including unsaved edits on the displayed one, in the stored document format
+  // Uploaded fonts the design uses are stored with it
+  const getDesignDocument = useCallback((): DesignDocument => {
+    const pages = state.canvas ? captureActivePage(state.canvas) : state.pages;
+    return createDesignDocument(pages, getDesignFonts(getDesignFontFamilies(pages)));
+  }, [state.canvas, state.pages, captureActivePage]);
+
+  // Preview of the design's first page, e.g. for its saved versions
+  const getDesignThumbnail = useCallback((): string | undefined => {
+    if (state.canvas && state.activePageIndex === 0) {
+      return renderThumbnail(state.canvas);
+    }
+    return state.pages[0]?.thumbnail;
+  }, [state.canvas, state.activePageIndex, state.pages]);
+
+  // Mirror the displayed page's size and preview into the page list
+  const refreshActivePage = useCallback((canvas: fabric.Canvas) => {
+    const width = canvas.getWidth();
+    const height = canvas.getHeight();
+    const thumbnail = renderThumbnail(canvas);
+    setState(prev => ({
+      ...prev,
+      pages: prev.pages.map((page, i) => (i === prev.activePageIndex ? { ...page, width, height, thumbnail } : page))
+    }));
+  }, []);
+
+  // Keep the displayed page's thumbnail current while it is edited
+  useEffect(() => {
+    const canvas = state.canvas;
+    if (!canvas) return;
+
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const refresh = () => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => refreshActivePage(canvas), PAGE_THUMBNAIL_DELAY);
+    };
+
+    refresh();
+    PAGE_THUMBNAIL_EVENTS.forEach(event => canvas.on(event, refresh));
+    return () => {
+      if (timer) clearTimeout(timer);
+      PAGE_THUMBNAIL_EVENTS.forEach(event => canvas.off(event, refresh));
+    };
+  }, [state.canvas, refreshActivePage]);
+
+  // Change the displayed page's document size. Content keeps its position unless
+  // scaleContent is set, which scales it uniformly and centres it in the new size.
+  const resizeCanvas = useCallback((width: number, height: number, scaleContent = false) => {
+    const canvas = state.canvas;
+    if (!canvas) return;
+
+    const clampSize = (size: number) =>
+      Math.min(CANVAS_CONFIG.MAX_SIZE, Math.max(CANVAS_CONFIG.MIN_SIZE, Math.round(size)));
+    const newWidth = clampSize(width);
+    const newHeight = clampSize(height);
+    const oldWidth = canvas.getWidth();
+    const oldHeight = canvas.getHeight();
+    if (newWidth === oldWidth && newHeight === oldHeight) return;
+
+    stopNodeEditing(canvas);
+    canvas.discardActiveObject();
+    withHistoryBatch(() => {
+      if (scaleContent) {
+        const scale = Math.min(newWidth / oldWidth, newHeight / oldHeight);
+        const offsetX = (newWidth - oldWidth * scale) / 2;
+        const offsetY = (newHeight - oldHeight * scale) / 2;
+
+        canvas.getObjects().forEach(object => {
+          object.set({
+            left: (object.left || 0) * scale + offsetX,
+            top: (object.top || 0) * scale + offsetY,
+            scaleX: (object.scaleX || 1) * scale,
+            scaleY: (object.scaleY || 1) * scale
+          });
+          object.setCoords();
+        });
+      }
+      resizeGradientFill(canvas.backgroundColor, { width: oldWidth, height: oldHeight }, { width: newWidth, height: newHeight });
+      canvas.setDimensions({ width: newWidth, height: newHeight });
+    });
+    canvas.renderAll();
+    refreshActivePage(canvas);
+  }, [state.canvas, stopNodeEditing, withHistoryBatch, refreshActivePage]);
 
   const exportCanvas = useCallback((format: 'json' | 'svg' | 'png' = 'json') => {
     if (!state.canvas) return null;
 
     switch (format) {
       case 'json':
-        return state.canvas.toJSON();
+        return getDesignDocument();
       case 'svg':
         return state.canvas.toSVG();
       case 'png':
-        return state.canvas.toDataURL({ format: 'png' });
+        return exportRaster(state.canvas).dataURL;
       default:
         return null;
     }
-  }, [state.canvas]);
+  }, [state.canvas, getDesignDocument]);
 
+  // One PDF page per design page
+  const exportPdf = useCallback((options: Partial<PdfExportOptions> = {}) => {
+    return exportPagesToPdf(getDesignDocument().pages, options);
+  }, [getDesignDocument]);
+
+  // Replace the whole document; accepts multi-page documents and single-canvas JSON
   const loadCanvas = useCallback((data: any) => {
     if (!state.canvas) return;
 
-    state.canvas.loadFromJSON(data, () => {
-      state.canvas!.renderAll();
+    const { pages, fonts } = normalizeDesignData(data);
+    // Loading is an undoable step, so loading the wrong design doesn't lose the current work:
+    // each loaded page takes over the undo history of the page at its position, with the
+    // content it replaces as the step to undo
+    const histories = new Map<string, CanvasHistory>();
+    pages.forEach((page, index) => {
+      const previous = state.pages[index];
+      if (!previous) return;
+
+      const isActive = index === state.activePageIndex;
+      const history = isActive ? historyRef.current : pageHistoriesRef.current.get(previous.id);
+      const snapshot = isActive
+        ? takeSnapshot(state.canvas!)
+        : history?.current ?? JSON.stringify({ ...previous.canvasData, width: previous.width, height: previous.height });
+      histories.set(page.id, {
+        undoStack: [...(history?.undoStack || []), snapshot].slice(-CANVAS_CONFIG.HISTORY_LIMIT),
+        redoStack: [],
+        current: null
+      });
     });
-  }, [state.canvas]);
+    pageHistoriesRef.current = histories;
+    // The design's own fonts have to be available before its text is measured
+    registerDesignFonts(fonts).then(() => displayPages(pages, 0)).then(() => {
+      pages.forEach((page, index) => {
+        if (index === 0) return;
+        renderPageThumbnail(page).then(thumbnail => {
+          setState(prev => ({
+            ...prev,
+            pages: prev.pages.map(p => (p.id === page.id ? { ...p, thumbnail } : p))
+          }));
+        });
+      });
+    });
+  }, [state.canvas, state.pages, state.activePageIndex, takeSnapshot, displayPages]);
 
   const setBackgroundColor = useCallback((color: string) => {
     if (!state.canvas) return;
 
     state.canvas.backgroundColor = color;
     state.canvas.renderAll();
+    recordHistory();
+  }, [state.canvas, recordHistory]);
+
+  // Gradient or pattern background; like the property panel, edits render live and are
+  // recorded once they pause
+  const setBackgroundFill = useCallback(async (style: FillStyle) => {
+    const canvas = state.canvas;
+    if (!canvas) return;
+
+    try {
+      canvas.backgroundColor = await createFabricFill(style, { width: canvas.getWidth(), height: canvas.getHeight() }) as any;
+    } catch (error) {
+      console.error('Failed to set background:', error);
+      return;
+    }
+    canvas.renderAll();
+
+    if (backgroundCommitRef.current) {
+      clearTimeout(backgroundCommitRef.current);
+    }
+    backgroundCommitRef.current = setTimeout(() => {
+      backgroundCommitRef.current = null;
+      recordHistory();
+    }, 300);
+  }, [state.canvas, recordHistory]);
+
+  const undo = useCallback(() => {
+    if (!state.canvas) return;
+
+    const history = historyRef.current;
+    const previous = history.undoStack.pop();
+    if (previous === undefined || history.current === null) return;
+
+    history.redoStack.push(history.current);
+    restoreSnapshot(state.canvas, previous);
+  }, [state.canvas, restoreSnapshot]);
+
+  const redo = useCallback(() => {
+    if (!state.canvas) return;
+
+    const history = historyRef.current;
+    const next = history.redoStack.pop();
+    if (next === undefined || history.current === null) return;
+
+    history.undoStack.push(history.current);
+    restoreSnapshot(state.canvas, next);
+  }, [state.canvas, restoreSnapshot]);
+
+  // Render and record a change made outside Fabric's own interaction handlers
+  const commitObjectChange = useCallback((object: fabric.Object) => {
+    if (!state.canvas) return;
+
+    state.canvas.requestRenderAll();
+    state.canvas.fire('object:modified', { target: object });
+  }, [state.canvas]);
+
+  const bringForward = useCallback((object: fabric.Object) => {
+    if (!state.canvas) return;
+
+    state.canvas.bringForward(object);
+    commitObjectChange(object);
+  }, [state.canvas, commitObjectChange]);
+
+  const sendBackward = useCallback((object: fabric.Object) => {
+    if (!state.canvas) return;
+
+    state.canvas.sendBackwards(object);
+    commitObjectChange(object);
+  }, [state.canvas, commitObjectChange]);
+
+  const moveObjectTo = useCallback((object: fabric.Object, index: number) => {
+    if (!state.canvas) return;
+
+    const lastIndex = state.canvas.getObjects().length - 1;
+    state.canvas.moveTo(object, Math.max(0, Math.min(lastIndex, index)));
+    commitObjectChange(object);
+  }, [state.canvas, commitObjectChange]);
+
+  const renameObject = useCallback((object: fabric.Object, name: string) => {
+    if (!state.canvas) return;
+
+    object.set('name', name.trim() || undefined);
+    commitObjectChange(object);
+  }, [state.canvas, commitObjectChange]);
+
+  const setObjectVisibility = useCallback((object: fabric.Object, visible: boolean) => {
+    if (!state.canvas) return;
+
+    object.set('visible', visible);
+    if (!visible && state.canvas.getActiveObjects().includes(object)) {
+      state.canvas.discardActiveObject();
+    }
+    commitObjectChange(object);
+  }, [state.canvas, commitObjectChange]);
+
+  const setObjectLocked = useCallback((object: fabric.Object, locked: boolean) => {
+    if (!state.canvas) return;
+
+    object.set({
+      selectable: !locked,
+      evented: !locked
+    });
+    if (locked && state.canvas.getActiveObjects().includes(object)) {
+      state.canvas.discardActiveObject();
+    }
+    commitObjectChange(object);
+  }, [state.canvas, commitObjectChange]);
+
+  const selectObject = useCallback((object: fabric.Object) => {
+    if (!state.canvas || !object.visible || !object.selectable) return;
+
+    // setActiveObject fires selection:created/updated, which keeps selectedObjects in sync
+    state.canvas.setActiveObject(object);
+    state.canvas.requestRenderAll();
+  }, [state.canvas]);
+
+  const groupSelected = useCallback(() => {
+    if (!state.canvas) return;
+
+    const active = state.canvas.getActiveObject();
+    if (!active || active.type !== 'activeSelection') return;
+
+    let group: fabric.Group | null = null;
+    withHistoryBatch(() => {
+      group = (active as fabric.ActiveSelection).toGroup();
+    });
+    if (group) {
+      // toGroup swaps the active object silently; reselect so selection listeners update
+      state.canvas.discardActiveObject();
+      state.canvas.setActiveObject(group);
+    }
+    state.canvas.requestRenderAll();
+  }, [state.canvas, withHistoryBatch]);
+
+  const ungroupSelected = useCallback(() => {
+    if (!state.canvas) return;
+
+    const active = state.canvas.getActiveObject();
+    if (!active || active.type !== 'group') return;
+
+    let objects: fabric.Object[] = [];
+    withHistoryBatch(() => {
+      objects = (active as fabric.Group).toActiveSelection().getObjects();
+    });
+    // toActiveSelection swaps the active object silently; reselect so selection listeners update
+    state.canvas.discardActiveObject();
+    state.canvas.setActiveObject(new fabric.ActiveSelection(objects, { canvas: state.canvas }));
+    state.canvas.requestRenderAll();
+  }, [state.canvas, withHistoryBatch]);
+
+  // Crop mode for the selected image: drag the frame's handles, then apply or cancel
+  const startCrop = useCallback(() => {
+    if (!state.canvas || cropRef.current) return false;
+
+    const image = state.canvas.getActiveObject();
+    if (!image || image.type !== 'image') return false;
+
+    stopNodeEditing(state.canvas);
+    // Nothing is recorded until the crop is applied
+    historyLockRef.current++;
+    cropRef.current = startImageCrop(state.canvas, image as fabric.Image);
+    setState(prev => ({ ...prev, drawingMode: 'select', isCropping: true, cropAspectRatio: null }));
+    return true;
+  }, [state.canvas, stopNodeEditing]);
+
+  const applyCrop = useCallback(() => {
+    if (state.canvas) finishCrop(state.canvas, true);
+  }, [state.canvas, finishCrop]);
+
+  const cancelCrop = useCallback(() => {
+    if (state.canvas) finishCrop(state.canvas, false);
+  }, [state.canvas, finishCrop]);
+
+  const setCropAspectRatio = useCallback((aspectRatio: number | null) => {
+    if (!state.canvas || !cropRef.current) return;
+
+    setCropFrameAspectRatio(cropRef.current, aspectRatio);
+    state.canvas.requestRenderAll();
+    setState(prev => ({ ...prev, cropAspectRatio: aspectRatio }));
+  }, [state.canvas]);
+
+  // Mask the selected image with the other selected object (a shape or text)
+  const maskSelectedImage = useCallback(() => {
+    if (!state.canvas) return false;
+
+    const canvasInstance = state.canvas;
+    const selected = canvasInstance.getActiveObjects();
+    const image = selected.find(obj => obj.type === 'image') as fabric.Image | undefined;
+    const shape = selected.find(obj => obj !== image && isMaskShape(obj));
+    if (selected.length !== 2 || !image || !shape) return false;
+
+    // Dissolving the selection bakes its transform into both objects
+    canvasInstance.discardActiveObject();
+    withHistoryBatch(() => {
+      canvasInstance.remove(shape);
+      maskImageWithShape(image, shape);
+    });
+    canvasInstance.setActiveObject(image);
+    canvasInstance.requestRenderAll();
+    return true;
+  }, [state.canvas, withHistoryBatch]);
+
+  // Turn the selected image's mask back into a canvas object just above the image
+  const releaseImageMask = useCallback(() => {
+    if (!state.canvas) return false;
+
+    const canvasInstance = state.canvas;
+    const image = canvasInstance.getActiveObject();
+    if (!image || image.type !== 'image' || !image.clipPath) return false;
+
+    withHistoryBatch(() => {
+      const shape = releaseMask(image as fabric.Image);
+      if (shape) {
+        canvasInstance.insertAt(shape, canvasInstance.getObjects().indexOf(image) + 1, false);
+      }
+    });
+    canvasInstance.requestRenderAll();
+    return true;
+  }, [state.canvas, withHistoryBatch]);
+
+  // Apply a layout change to the objects of the current multi-selection in canvas
+  // coordinates, then restore the selection around them
+  const arrangeSelection = useCallback((arrange: (objects: fabric.Object[]) => void) => {
+    if (!state.canvas) return;
+
+    const canvasInstance = state.canvas;
+    const active = canvasInstance.getActiveObject();
+    if (!active || active.type !== 'activeSelection') return;
+
+    const objects = (active as fabric.ActiveSelection).getObjects();
+    // Dissolving the selection bakes its transform into each object
+    canvasInstance.discardActiveObject();
+    withHistoryBatch(() => {
+      arrange(objects);
+      objects.forEach(obj => obj.setCoords());
+    });
+
+    canvasInstance.setActiveObject(new fabric.ActiveSelection(objects, { canvas: canvasInstance }));
+    canvasInstance.requestRenderAll();
+  }, [state.canvas, withHistoryBatch]);
+
+  const alignSelected = useCallback((mode: AlignMode) => {
+    arrangeSelection(objects => {
+      const rects = objects.map(obj => obj.getBoundingRect(true, true));
+      const left = Math.min(...rects.map(r => r.left));
+      const top = Math.min(...rects.map(r => r.top));
+      const right = Math.max(...rects.map(r => r.left + r.width));
+      const bottom = Math.max(...rects.map(r => r.top + r.height));
+
+      objects.forEach((obj, i) => {
+        const rect = rects[i];
+        switch (mode) {
+          case 'left':
+            obj.set('left', obj.left! + (left - rect.left));
+            break;
+          case 'center':
+            obj.set('left', obj.left! + ((left + right) / 2 - (rect.left + rect.width / 2)));
+            break;
+          case 'right':
+            obj.set('left', obj.left! + (right - (rect.left + rect.width)));
+            break;
+          case 'top':
+            obj.set('top', obj.top! + (top - rect.top));
+            break;
+          case 'middle':
+            obj.set('top', obj.top! + ((top + bottom) / 2 - (rect.top + rect.height / 2)));
+            break;
+          case 'bottom':
+            obj.set('top', obj.top! + (bottom - (rect.top + rect.height)));
+            break;
+        }
+      });
+    });
+  }, [arrangeSelection]);
+
+  // Space objects so the gaps between neighbours are equal; the outermost objects stay put
+  const distributeSelected = useCallback((axis: DistributeAxis) => {
+    arrangeSelection(objects => {
+      if (objects.length < 3) return;
+
+      const start = axis === 'horizontal' ? 'left' : 'top';
+      const size = axis === 'horizontal' ? 'width' : 'height';
+      const items = objects
+        .map(obj => ({ obj, rect: obj.getBoundingRect(true, true) }))
+        .sort((a, b) => a.rect[start] - b.rect[start]);
+
+      const first = items[0].rect;
+      const last = items[items.length - 1].rect;
+      const span = last[start] + last[size] - first[start];
+      const occupied = items.reduce((sum, item) => sum + item.rect[size], 0);
+      const gap = (span - occupied) / (items.length - 1);
+
+      let cursor = first[start];
+      items.forEach(({ obj, rect }) => {
+        obj.set(start, obj[start]! + (cursor - rect[start]));
+        cursor += rect[size] + gap;
+      });
+    });
+  }, [arrangeSelection]);
+
+  // Move the selection by a fixed step; returns false when nothing is selected
+  const nudgeSelected = useCallback((dx: number, dy: number) => {
+    if (!state.canvas) return false;
+
+    const active = state.canvas.getActiveObject();
+    if (!active) return false;
+
+    active.set({
+      left: (active.left || 0) + (active.lockMovementX ? 0 : dx),
+      top: (active.top || 0) + (active.lockMovementY ? 0 : dy)
+    });
+    active.setCoords();
+    commitObjectChange(active);
+    return true;
+  }, [state.canvas, commitObjectChange]);
+
+  const selectAll = useCallback(() => {
+    if (!state.canvas) return 0;
+
+    const objects = state.canvas.getObjects().filter(obj => obj.visible !== false && obj.selectable !== false);
+    if (objects.length === 0) return 0;
+
+    state.canvas.discardActiveObject();
+    state.canvas.setActiveObject(
+      objects.length === 1 ? objects[0] : new fabric.ActiveSelection(objects, { canvas: state.canvas })
+    );
+    state.canvas.requestRenderAll();
+    return objects.length;
   }, [state.canvas]);
 
+  // Serialize the selection in stacking order, with canvas coordinates rather than
+  // coordinates relative to the active selection
+  const serializeSelection = useCallback((canvasInstance: fabric.Canvas) => {
+    const active = canvasInstance.getActiveObjects();
+    return canvasInstance.getObjects()
+      .filter(obj => active.includes(obj))
+      .map(obj => {
+        if (obj.group?.type !== 'activeSelection') return obj.toObject(HISTORY_PROPERTIES);
+
+        // Give the object its canvas transform just while serializing it, then put it back
+        const saved = fabric.util.saveObjectTransform(obj);
+        const options = fabric.util.qrDecompose(obj.calcTransformMatrix());
+        obj.set({
+          flipX: false,
+          flipY: false,
+          scaleX: options.scaleX,
+          scaleY: options.scaleY,
+          skewX: options.skewX,
+          skewY: options.skewY,
+          angle: options.angle
+        });
+        obj.setPositionByOrigin(new fabric.Point(options.translateX, options.translateY), 'center', 'center');
+        const serialized = obj.toObject(HISTORY_PROPERTIES);
+        obj.set(saved);
+        return serialized;
+      });
+  }, []);
+
+  // Add serialized objects shifted by `offset` and select them, as a single history entry
+  const addSerializedObjects = useCallback((objects: Record<string, any>[], offset: number) => {
+    if (!state.canvas || objects.length === 0) return;
+
+    const canvasInstance = state.canvas;
+    fabric.util.enlivenObjects(objects, (enlivened: fabric.Object[]) => {
+      canvasInstance.discardActiveObject();
+
+      withHistoryBatch(() => {
+        enlivened.forEach(obj => {
+          obj.set({ left: (obj.left || 0) + offset, top: (obj.top || 0) + offset });
+          canvasInstance.add(obj);
+        });
+
+        // Select before the snapshot so selection children serialize in canvas coordinates
+        const selectable = enlivened.filter(obj => obj.selectable !== false);
+        if (selectable.length === 1) {
+          canvasInstance.setActiveObject(selectable[0]);
+        } else if (selectable.length > 1) {
+          canvasInstance.setActiveObject(new fabric.ActiveSelection(selectable, { canvas: canvasInstance }));
+        }
+      });
+      canvasInstance.requestRenderAll();
+    }, '');
+  }, [state.canvas, withHistoryBatch]);
+
+  // Paste a clipboard payload; repeated pastes of the same payload cascade so copies don't stack
+  const pasteSerialized = useCallback((text: string) => {
+    const objects = parseClipboardObjects(text);
+    if (!objects) return false;
+
+    pasteCountRef.current = text === clipboardRef.current ? pasteCountRef.current + 1 : 1;
+    clipboardRef.current = text;
+    addSerializedObjects(objects, CANVAS_CONFIG.PASTE_OFFSET * pasteCountRef.current);
+    return true;
+  }, [addSerializedObjects]);
+
+  // Copy to the editor clipboard and, as JSON, to the system clipboard for other tabs/designs
+  const copySelected = useCallback(() => {
+    if (!state.canvas) return false;
+
+    const objects = serializeSelection(state.canvas);
+    if (objects.length === 0) return false;
+
+    const text = serializeClipboardObjects(objects);
+    clipboardRef.current = text;
+    pasteCountRef.current = 0;
+    copyToClipboard(text).catch(error => {
+      // Permission denied or document not focused; pasting within this editor still works
+      console.warn('Could not write to the system clipboard:', error);
+    });
+    return true;
+  }, [state.canvas, serializeSelection]);
+
+  const cutSelected = useCallback(() => {
+    if (!copySelected()) return false;
+
+    deleteSelected();
+    return true;
+  }, [copySelected, deleteSelected]);
+
+  // Paste from the editor clipboard
+  const paste = useCallback(() => {
+    return clipboardRef.current ? pasteSerialized(clipboardRef.current) : false;
+  }, [pasteSerialized]);
+
+  // Paste from a native paste event: canvas objects first, then images, then plain text
+  const pasteClipboardData = useCallback((data: DataTransfer | null) => {
+    if (!state.canvas) return false;
+
+    const text = data?.getData('text/plain') || '';
+    if (pasteSerialized(text)) return true;
+
+    const imageFile = Array.from(data?.items || [])
+      .find(item => item.kind === 'file' && item.type.startsWith('image/'))
+      ?.getAsFile();
+    if (imageFile) {
+      readFileAsDataURL(imageFile)
+        .then(url => addImage(url))
+        .catch(error => console.error('Failed to paste image:', error));
+      return true;
+    }
+
+    if (text.trim()) {
+      addText(text.trim());
+      return true;
+    }
+
+    return paste();
+  }, [state.canvas, pasteSerialized, addImage, addText, paste]);
+
+  const duplicateSelected = useCallback(() => {
+    if (!state.canvas) return false;
+
+    const objects = serializeSelection(state.canvas);
+    if (objects.length === 0) return false;
+
+    addSerializedObjects(objects, CANVAS_CONFIG.PASTE_OFFSET);
+    return true;
+  }, [state.canvas, serializeSelection, addSerializedObjects]);
+
+  const setShowGrid = useCallback((showGrid: boolean) => {
+    setState(prev => ({ ...prev, showGrid }));
+  }, []);
+
+  const setSnapToGrid = useCallback((snapToGrid: boolean) => {
+    setState(prev => ({ ...prev, snapToGrid }));
+  }, []);
+
+  const setSmartGuides = useCallback((smartGuides: boolean) => {
+    setState(prev => ({ ...prev, smartGuides }));
+  }, []);
+
   const setZoom = useCallback((zoom: number) => {
     if (!state.canvas) return;
 
@@ -779,6 +2191,8 @@ export function useCanvas(containerRef: React.RefObject<HTMLDivElement | null>)
     if (state.canvas && state.isDrawing && state.currentShape) {
       state.canvas.remove(state.currentShape);
       state.canvas.renderAll();
+      // Release the lock taken when the cancelled shape was started
+      historyLockRef.current = Math.max(0, historyLockRef.current - 1);
     }
     
     // Reset drawing state
@@ -791,6 +2205,33 @@ export function useCanvas(containerRef: React.RefObject<HTMLDivElement | null>)
     
     // Update canvas cursor based on mode
     if (state.canvas) {
+      // Leaving the pen keeps the path drawn so far; leaving node mode ends the edit session
+      if (mode !== 'pen' && penRef.current.nodes.length > 0) {
+        commitPenPath(state.canvas);
+      }
+      if (mode !== 'nodes') {
+        stopNodeEditing(state.canvas);
+      }
+      // Any drawing tool ends crop mode, keeping the crop
+      if (mode !== 'select') {
+        finishCrop(state.canvas, true);
+      }
+
+      // Pen and node modes do their own hit-testing, so objects must not grab the pointer
+      const isPathEditMode = PATH_EDIT_MODES.includes(mode);
+      state.canvas.selection = !isPathEditMode;
+      state.canvas.skipTargetFind = isPathEditMode;
+      if (mode === 'nodes' && !nodeEditRef.current) {
+        // Start editing straight away when a path is already selected
+        const selected = state.canvas.getActiveObject();
+        if (selected?.type === 'path') {
+          startNodeEditing(state.canvas, selected as fabric.Path);
+        }
+      } else if (isPathEditMode) {
+        state.canvas.discardActiveObject();
+        state.canvas.requestRenderAll();
+      }
+
       // Configure Fabric free drawing for pencil mode
       if (mode === 'pencil') {
         state.canvas.isDrawingMode = true;
@@ -800,11 +2241,39 @@ export function useCanvas(containerRef: React.RefObject<HTMLDivElement | null>)
       } else {
         state.canvas.isDrawingMode = false;
       }
-      const cursor = mode === 'select' ? 'default' : 'crosshair';
+      const cursor = mode === 'select' || mode === 'nodes' ? 'default' : 'crosshair';
       state.canvas.defaultCursor = cursor;
       state.canvas.hoverCursor = cursor;
     }
-  }, [state.canvas, state.isDrawing, state.currentShape, resetDrawingState]);
+  }, [state.canvas, state.isDrawing, state.currentShape, resetDrawingState, commitPenPath, stopNodeEditing, startNodeEditing, finishCrop]);
+
+  // Finish the pen path in progress (Enter), leaving it open
+  const finishPath = useCallback(() => {
+    if (!state.canvas) return;
+
+    commitPenPath(state.canvas);
+  }, [state.canvas, commitPenPath]);
+
+  // Discard the pen path in progress, or end node editing (Escape)
+  const cancelPath = useCallback(() => {
+    if (!state.canvas) return;
+
+    if (penRef.current.nodes.length > 0) {
+      penRef.current = { nodes: [], pointer: null, dragging: false };
+      state.canvas.clearContext(state.canvas.getSelectionContext());
+      state.canvas.requestRenderAll();
+    }
+    stopNodeEditing(state.canvas);
+  }, [state.canvas, stopNodeEditing]);
+
+  // Delete the selected anchor, or collapse the selected handle, of the path being edited
+  const deletePathNode = useCallback(() => {
+    const session = nodeEditRef.current;
+    if (!state.canvas || !session?.selected) return false;
+
+    removePathNode(state.canvas, session, session.selected);
+    return true;
+  }, [state.canvas, removePathNode]);
 
   useEffect(() => {
     initializeCanvas();
@@ -839,14 +2308,58 @@ export function useCanvas(containerRef: React.RefObject<HTMLDivElement | null>)
     addRectangle,
     addCircle,
     addImage,
+    importSvg,
     deleteSelected,
     clearCanvas,
     exportCanvas,
+    exportPdf,
     loadCanvas,
     setBackgroundColor,
+    setBackgroundFill,
     setZoom,
     centerCanvas,
     setDrawingMode,
     resetDrawingState,
+    finishPath,
+    cancelPath,
+    deletePathNode,
+    undo,
+    redo,
+    bringForward,
+    sendBackward,
+    moveObjectTo,
+    renameObject,
+    setObjectVisibility,
+    setObjectLocked,
+    selectObject,
+    groupSelected,
+    ungroupSelected,
+    startCrop,
+    applyCrop,
+    cancelCrop,
+    setCropAspectRatio,
+    maskSelectedImage,
+    releaseImageMask,
+    alignSelected,
+    distributeSelected,
+    nudgeSelected,
+    selectAll,
+    copySelected,
+    cutSelected,
+    paste,
+    pasteClipboardData,
+    duplicateSelected,
+    setShowGrid,
+    setSnapToGrid,
+    setSmartGuides,
+    switchPage,
+    addPage,
+    duplicatePage,
+    deletePage,
+    movePage,
+    renamePage,
+    getDesignDocument,
+    getDesignThumbnail,
+    resizeCanvas,
   };
 }
@@ -0,0 +1,33 @@
+import { useCallback, useEffect, useRef } from 'react';
+import type { fabric } from '@/lib/fabric';
+
+// Sliders preview live; history records one step once dragging settles
+const COMMIT_DELAY = 300;
+
+/**
+ * For panels that edit an object live: returns a function to call after each change, which
+ * fires one object:modified, and so records one history step, once the changes pause.
+ * Undo/redo and selection changes replace the object; a commit still pending then belongs to
+ * the previous object, so it is recorded rather than dropped.
+ */
+export function useDebouncedCommit(canvas: fabric.Canvas, object: fabric.Object) {
+  const commitTimer = useRef<NodeJS.Timeout | null>(null);
+
+  useEffect(() => {
+    const timers = commitTimer;
+    return () => {
+      if (!timers.current) return;
+      clearTimeout(timers.current);
+      timers.current = null;
+      canvas.fire('object:modified', { target: object });
+    };
+  }, [canvas, object]);
+
+  return useCallback(() => {
+    if (commitTimer.current) clearTimeout(commitTimer.current);
+    commitTimer.current = setTimeout(() => {
+      commitTimer.current = null;
+      canvas.fire('object:modified', { target: object });
+    }, COMMIT_DELAY);
+  }, [canvas, object]);
+}
@@ -0,0 +1,92 @@
+import { useState, useCallback } from 'react';
+import type { Signer } from '@mysten/sui/cryptography';
+import { sealIntegration } from '@/services/sealIntegration';
+
+// A saved version to record in the registry contract
+export interface DesignRegistryRecord {
+  designId: string;
+  designObjectId?: string; // Missing until the design is created on-chain
+  name: string;
+  blobId: string;
+}
+
+// The record with the design's object ID as far as it is known; incomplete when recording failed
+export interface DesignRegistryResult extends DesignRegistryRecord {
+  complete: boolean;
+}
+
+// How far recording a version got, so a retry picks up where it failed
+interface PendingRecord extends DesignRegistryRecord {
+  recorded: boolean; // The registry transaction went through
+  linked: boolean; // MongoDB knows the design's object
+}
+
+interface UseDesignRegistryReturn {
+  isRecording: boolean;
+  error: string | null;
+  hasPendingRecord: boolean;
+  recordVersion: (record: DesignRegistryRecord, signer: Signer) => Promise<DesignRegistryResult>;
+  retryRecord: (signer: Signer) => Promise<DesignRegistryResult | null>;
+  clearPendingRecord: () => void;
+}
+
+// Keeps a design's saved versions on-chain as well; a version that fails to be recorded is kept
+// so the user can retry, since the two histories differ until then
+export const useDesignRegistry = (): UseDesignRegistryReturn => {
+  const [pending, setPending] = useState<PendingRecord | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const record = useCallback(async (next: PendingRecord, signer: Signer): Promise<DesignRegistryResult> => {
+    let { designObjectId, recorded, linked } = next;
+    try {
+      setIsRecording(true);
+      setError(null);
+
+      if (!recorded) {
+        designObjectId = await sealIntegration.recordDesignVersion(designObjectId, next.name, next.blobId, signer);
+        recorded = true;
+      }
+      // The first recorded version creates the design on-chain
+      if (!linked && designObjectId) {
+        // Import the service dynamically to avoid SSR issues
+        const { mongoDBService } = await import('../services/mongoDBService');
+        await mongoDBService.setDesignObjectId(next.designId, designObjectId);
+        linked = true;
+      }
+
+      setPending(null);
+      return { designId: next.designId, designObjectId, name: next.name, blobId: next.blobId, complete: true };
+    } catch (err) {
+      console.error('Failed to record design version on-chain:', err);
+      setError(err instanceof Error ? err.message : 'Failed to record the version on-chain');
+      setPending({ ...next, designObjectId, recorded, linked });
+      return { designId: next.designId, designObjectId, name: next.name, blobId: next.blobId, complete: false };
+    } finally {
+      setIsRecording(false);
+    }
+  }, []);
+
+  const recordVersion = useCallback((next: DesignRegistryRecord, signer: Signer) => (
+    record({ ...next, recorded: false, linked: !!next.designObjectId }, signer)
+  ), [record]);
+
+  const retryRecord = useCallback(async (signer: Signer) => {
+    if (!pending) return null;
+    return record(pending, signer);
+  }, [pending, record]);
+
+  const clearPendingRecord = useCallback(() => {
+    setPending(null);
+    setError(null);
+  }, []);
+
+  return {
+    isRecording,
+    error,
+    hasPendingRecord: pending !== null,
+    recordVersion,
+    retryRecord,
+    clearPendingRecord
+  };
+};
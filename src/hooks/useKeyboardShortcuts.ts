@@ -0,0 +1,39 @@
+import { useEffect, useRef } from 'react';
+import { fabric } from '@/lib/fabric';
+import { SHORTCUTS, matchesShortcut, isEditableTarget, type ShortcutHandlers } from '@/utils/shortcuts';
+
+// Dispatch window keystrokes to the handlers bound for each registered shortcut
+export function useKeyboardShortcuts(
+  canvas: fabric.Canvas | null,
+  handlers: ShortcutHandlers,
+  enabled = true
+) {
+  // Handlers change every render; read the latest without re-binding the listener
+  const handlersRef = useRef(handlers);
+  useEffect(() => {
+    handlersRef.current = handlers;
+  }, [handlers]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const activeObject = canvas?.getActiveObject() as fabric.Textbox | null | undefined;
+      const isEditing = Boolean(activeObject?.isEditing) || isEditableTarget(e.target);
+
+      for (const shortcut of SHORTCUTS) {
+        const handler = handlersRef.current[shortcut.id];
+        if (!handler || (isEditing && !shortcut.allowWhileEditing)) continue;
+        if (!shortcut.keys.some(combo => matchesShortcut(e, combo))) continue;
+
+        if (handler(e) !== false) {
+          e.preventDefault();
+          return;
+        }
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [canvas, enabled]);
+}
@@ -5,7 +5,7 @@ interface UseMongoDBDesignsReturn {
   designs: UserDesignDocument[];
   isLoading: boolean;
   error: string | null;
-  loadDesignToCanvas: (designId: string, canvas: any) => Promise<void>;
+  loadDesignToCanvas: (designId: string, onLoad: (designData: any) => void) => Promise<void>;
   deleteDesign: (designId: string) => Promise<void>;
   refreshDesigns: (walletAddress: string) => Promise<void>;
 }
@@ -15,11 +15,7 @@ export const useMongoDBDesigns = (): UseMongoDBDesignsReturn => {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const loadDesignToCanvas = useCallback(async (designId: string, canvas: any) => {
-    if (!canvas) {
-      throw new Error('Canvas not available');
-    }
-
+  const loadDesignToCanvas = useCallback(async (designId: string, onLoad: (designData: any) => void) => {
     try {
       setIsLoading(true);
       setError(null);
@@ -28,17 +24,8 @@ export const useMongoDBDesigns = (): UseMongoDBDesignsReturn => {
       const { mongoDBService } = await import('../services/mongoDBService');
       const canvasData = await mongoDBService.loadDesignToCanvas(designId);
       
-      // Load the JSON data directly into the canvas
-      await new Promise<void>((resolve, reject) => {
-        canvas.loadFromJSON(canvasData, () => {
-          // Canvas loaded successfully
-          canvas.renderAll();
-          resolve();
-        }, (error: any) => {
-          console.error('Canvas load error:', error);
-          reject(new Error('Failed to load design to canvas'));
-        });
-      });
+      // The editor handles both multi-page documents and older single-canvas designs
+      onLoad(canvasData);
 
       console.log('✅ Design loaded to canvas successfully');
     } catch (err) {
@@ -1,6 +1,7 @@
 import { useState, useCallback } from 'react';
 import { walrusClient, type WalrusBlobData, type WalrusStoreResult, type WalrusRetrieveResult } from '@/services/walrusClient';
 import type { Signer } from '@mysten/sui/cryptography';
+import type { StoredBlob } from '@/utils/blobLifetime';
 
 export interface WalrusState {
   isStoring: boolean;
@@ -10,6 +11,7 @@ export interface WalrusState {
   isDecrypting: boolean;
   isBatchLoading: boolean;
   isLoadingWithAssets: boolean;
+  isExtending: boolean;
   error: string | null;
 }
 
@@ -22,6 +24,7 @@ export function useWalrus() {
     isDecrypting: false,
     isBatchLoading: false,
     isLoadingWithAssets: false,
+    isExtending: false,
     error: null,
   });
 
@@ -161,38 +164,63 @@ export function useWalrus() {
 
   const storeDesignWithAssets = useCallback(async (
     designData: WalrusBlobData,
-    assets: { [key: string]: Uint8Array } = {},
     signer: Signer,
     epochs: number = 1,
-    userAddress?: string
+    walletAddress?: string
   ) => {
     try {
       setState(prev => ({ ...prev, isStoring: true, error: null }));
       
-      // Show encryption state if data is encrypted
-      if (designData.metadata.encrypted) {
-        setState(prev => ({ ...prev, isEncrypting: true }));
-      }
-      
-      const result = await walrusClient.storeDesignWithAssets(designData, assets, signer, epochs, userAddress);
+      const result = await walrusClient.storeDesignWithAssets(designData, signer, epochs, walletAddress);
       
       setState(prev => ({ 
         ...prev, 
-        isStoring: false, 
-        isEncrypting: false 
+        isStoring: false
       }));
       return result;
     } catch (error) {
       setState(prev => ({ 
         ...prev, 
         isStoring: false,
-        isEncrypting: false,
         error: error instanceof Error ? error.message : 'Storage with assets failed' 
       }));
       throw error;
     }
   }, []);
 
+  const extendBlobs = useCallback(async (blobs: StoredBlob[], epochs: number, signer: Signer) => {
+    try {
+      setState(prev => ({ ...prev, isExtending: true, error: null }));
+      
+      const result = await walrusClient.extendBlobs(blobs, epochs, signer);
+      
+      setState(prev => ({ 
+        ...prev, 
+        isExtending: false
+      }));
+      return result;
+    } catch (error) {
+      setState(prev => ({ 
+        ...prev, 
+        isExtending: false,
+        error: error instanceof Error ? error.message : 'Storage extension failed' 
+      }));
+      throw error;
+    }
+  }, []);
+
+  const getEpochInfo = useCallback(async () => {
+    try {
+      return await walrusClient.getEpochInfo();
+    } catch (error) {
+      setState(prev => ({ 
+        ...prev, 
+        error: error instanceof Error ? error.message : 'Failed to get epoch info' 
+      }));
+      throw error;
+    }
+  }, []);
+
   const getSystemInfo = useCallback(async () => {
     try {
       return await walrusClient.getSystemInfo();
@@ -224,7 +252,9 @@ export function useWalrus() {
     retrieveMultiple,
     retrieveDesignWithAssets,
     storeDesignWithAssets,
+    extendBlobs,
     delete: deleteBlob,
+    getEpochInfo,
     getSystemInfo,
     testBlobId,
   };
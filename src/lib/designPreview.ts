@@ -0,0 +1,48 @@
+import { fabric } from './fabric';
+import { normalizeDesignData, type DesignPage } from '@/utils/designDocument';
+import { registerDesignFonts } from '@/utils/fontLoader';
+
+// Render the whole page at the given width, independent of the current zoom and pan
+export function renderCanvasPreview(canvas: fabric.StaticCanvas, width: number): string {
+  const viewportTransform = canvas.viewportTransform;
+  canvas.viewportTransform = [1, 0, 0, 1, 0, 0];
+  try {
+    return canvas.toDataURL({ format: 'png', multiplier: width / (canvas.getWidth() || 1) });
+  } finally {
+    canvas.viewportTransform = viewportTransform;
+  }
+}
+
+// Preview of a page that isn't on the editor canvas, rendered offscreen
+export function renderPagePreview(page: DesignPage, width: number): Promise<string> {
+  return new Promise(resolve => {
+    const offscreen = new fabric.StaticCanvas(null, {
+      width: page.width,
+      height: page.height,
+      enableRetinaScaling: false
+    });
+    offscreen.loadFromJSON(page.canvasData, () => {
+      const preview = renderCanvasPreview(offscreen, width);
+      offscreen.dispose();
+      resolve(preview);
+    });
+  });
+}
+
+export interface PagePreview {
+  width: number;
+  height: number;
+  preview: string;
+}
+
+// Previews of every page of a stored design (document or single-canvas JSON), with its
+// uploaded fonts loaded first
+export async function renderDesignPreviews(designData: any, width: number): Promise<PagePreview[]> {
+  const { pages, fonts } = normalizeDesignData(designData);
+  await registerDesignFonts(fonts);
+  return Promise.all(pages.map(async page => ({
+    width: page.width,
+    height: page.height,
+    preview: await renderPagePreview(page, width)
+  })));
+}
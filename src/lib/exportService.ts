@@ -0,0 +1,139 @@
+// Raster export of the editor canvas: format, resolution, background and region options.
+// Everything is rendered in document coordinates, independent of the current zoom and pan.
+import { fabric } from 'fabric';
+
+export type RasterFormat = 'png' | 'jpeg' | 'webp';
+
+export interface RasterExportOptions {
+  format: RasterFormat;
+  // Output pixels per document pixel
+  multiplier: number;
+  // 0..1, used by JPEG and WebP only
+  quality: number;
+  // Leave the page background out; ignored for JPEG, which has no alpha channel
+  transparent: boolean;
+  selectionOnly: boolean;
+  // Trim the output to the bounds of the exported objects instead of the whole page
+  cropToContent: boolean;
+}
+
+export interface RasterExportResult {
+  dataURL: string;
+  width: number;
+  height: number;
+  // Size in bytes of the decoded image
+  size: number;
+  // Browsers without WebP encoding fall back to PNG, so this reflects what was produced
+  mimeType: string;
+  extension: string;
+}
+
+export const EXPORT_MULTIPLIERS = [1, 2, 3, 4];
+
+export const DEFAULT_RASTER_EXPORT: RasterExportOptions = {
+  format: 'png',
+  multiplier: 1,
+  quality: 0.92,
+  transparent: false,
+  selectionOnly: false,
+  cropToContent: false,
+};
+
+export function isLossyFormat(format: RasterFormat): boolean {
+  return format !== 'png';
+}
+
+interface Region {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+function getContentBounds(objects: fabric.Object[]): Region | null {
+  if (objects.length === 0) return null;
+
+  let left = Infinity;
+  let top = Infinity;
+  let right = -Infinity;
+  let bottom = -Infinity;
+  objects.forEach(object => {
+    const rect = object.getBoundingRect(true, true);
+    left = Math.min(left, rect.left);
+    top = Math.min(top, rect.top);
+    right = Math.max(right, rect.left + rect.width);
+    bottom = Math.max(bottom, rect.top + rect.height);
+  });
+
+  return {
+    left: Math.floor(left),
+    top: Math.floor(top),
+    width: Math.max(1, Math.ceil(right - left)),
+    height: Math.max(1, Math.ceil(bottom - top))
+  };
+}
+
+export function getDataURLSize(dataURL: string): number {
+  const base64 = dataURL.slice(dataURL.indexOf(',') + 1);
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.floor((base64.length * 3) / 4) - padding;
+}
+
+export function exportRaster(
+  canvas: fabric.Canvas,
+  options: Partial<RasterExportOptions> = {}
+): RasterExportResult {
+  const settings = { ...DEFAULT_RASTER_EXPORT, ...options };
+  const selected = canvas.getActiveObjects();
+  const exported = settings.selectionOnly && selected.length > 0
+    ? selected
+    : canvas.getObjects().filter(object => object.visible !== false);
+
+  const region = (settings.selectionOnly || settings.cropToContent) && getContentBounds(exported);
+  const bounds: Region = region || { left: 0, top: 0, width: canvas.getWidth(), height: canvas.getHeight() };
+
+  // Temporarily hide what isn't exported, drop the background and reset the viewport
+  const hidden = exported === selected
+    ? canvas.getObjects().filter(object => object.visible !== false && !selected.includes(object))
+    : [];
+  const viewportTransform = canvas.viewportTransform;
+  const backgroundColor = canvas.backgroundColor;
+  const dropBackground = settings.transparent && settings.format !== 'jpeg';
+
+  hidden.forEach(object => { object.visible = false; });
+  if (dropBackground) canvas.backgroundColor = '';
+  canvas.viewportTransform = [1, 0, 0, 1, 0, 0];
+
+  let dataURL: string;
+  try {
+    dataURL = canvas.toDataURL({
+      format: settings.format,
+      quality: settings.quality,
+      multiplier: settings.multiplier,
+      ...bounds
+    });
+  } finally {
+    hidden.forEach(object => { object.visible = true; });
+    canvas.backgroundColor = backgroundColor;
+    canvas.viewportTransform = viewportTransform;
+  }
+
+  const mimeType = dataURL.slice(5, dataURL.indexOf(';'));
+  return {
+    dataURL,
+    width: Math.round(bounds.width * settings.multiplier),
+    height: Math.round(bounds.height * settings.multiplier),
+    size: getDataURLSize(dataURL),
+    mimeType,
+    extension: mimeType === 'image/jpeg' ? 'jpg' : mimeType.replace('image/', '')
+  };
+}
+
+export function downloadDataURL(dataURL: string, filename: string): void {
+  const link = document.createElement('a');
+  link.href = dataURL;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+}
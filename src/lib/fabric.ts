@@ -1,5 +1,51 @@
 // Dynamic import wrapper for Fabric.js to handle SSR
 import { fabric } from 'fabric';
+// Register custom shape classes so canvas JSON containing them can be revived
+import './fabricShapes';
+import { isAssetRef, resolveAssetRef } from '@/utils/designAssets';
+
+// Custom object properties persisted in every canvas JSON export (ids that match objects
+// across versions, layer names, lock state, text layout options from lib/typography)
+export const CUSTOM_OBJECT_PROPERTIES = ['id', 'name', 'selectable', 'evented', 'listStyle', 'textCurve', 'textFit'];
+
+const baseToObject = fabric.Object.prototype.toObject;
+fabric.Object.prototype.toObject = function (propertiesToInclude?: string[]) {
+  return baseToObject.call(this, [...CUSTOM_OBJECT_PROPERTIES, ...(propertiesToInclude || [])]);
+};
+
+// Textbox sizes itself from its wrapped lines even when the text follows a path; give it the
+// path's bounds the way fabric.Text does, so curved text isn't clipped by the object cache
+const baseTextboxInitDimensions = fabric.Textbox.prototype.initDimensions;
+fabric.Textbox.prototype.initDimensions = function (this: fabric.Textbox) {
+  baseTextboxInitDimensions.call(this);
+  const path: fabric.Path | undefined = (this as any).path;
+  if (path && !(this as any).__skipDimension) {
+    const margin = this.getHeightOfLine(0) * 1.1;
+    this.width = Math.max(this.width || 0, (path.width || 0) + margin);
+    this.height = (path.height || 0) + margin;
+  }
+};
+
+// WebGL image filters only cover textureSize pixels; raise it so adjusted photos aren't
+// cropped. Devices that can't allocate it fall back to the 2D filter backend.
+fabric.textureSize = 4096;
+
+// Images and patterns of designs stored as Walrus quilts are asset references; fetch each
+// one when an object using it is loaded. Fabric gets a data URL, so the image is embedded
+// again when the design is exported or saved elsewhere.
+const baseLoadImage = fabric.util.loadImage;
+fabric.util.loadImage = function (url: string, callback?: any, context?: any, crossOrigin?: any) {
+  if (!isAssetRef(url)) {
+    return baseLoadImage.call(fabric.util, url, callback, context, crossOrigin);
+  }
+  resolveAssetRef(url).then(
+    source => baseLoadImage.call(fabric.util, source, callback, context, crossOrigin),
+    error => {
+      console.error('Failed to load design asset:', url, error);
+      callback?.call(context, null, true);
+    }
+  );
+} as typeof fabric.util.loadImage;
 
 // Re-export fabric with proper typing
 export { fabric };
@@ -0,0 +1,161 @@
+// Custom Fabric.js shape classes used by the drawing tools.
+// Each class is registered on the fabric namespace so loadFromJSON can revive it.
+import { fabric } from 'fabric';
+
+export type ArrowHeadPosition = 'none' | 'start' | 'end' | 'both';
+
+// Vertices of a regular polygon inscribed in a width x height ellipse, centered on 0,0
+export function getRegularPolygonPoints(sides: number, width: number, height: number): fabric.Point[] {
+  const count = Math.max(3, Math.round(sides));
+  return Array.from({ length: count }, (_, i) => {
+    const angle = -Math.PI / 2 + (2 * Math.PI * i) / count;
+    return new fabric.Point((Math.cos(angle) * width) / 2, (Math.sin(angle) * height) / 2);
+  });
+}
+
+// Alternating outer/inner vertices of a star inscribed in a width x height ellipse
+export function getStarPoints(points: number, innerRadius: number, width: number, height: number): fabric.Point[] {
+  const count = Math.max(3, Math.round(points)) * 2;
+  return Array.from({ length: count }, (_, i) => {
+    const angle = -Math.PI / 2 + (Math.PI * i) / (count / 2);
+    const radius = i % 2 === 0 ? 1 : innerRadius;
+    return new fabric.Point((Math.cos(angle) * width * radius) / 2, (Math.sin(angle) * height * radius) / 2);
+  });
+}
+
+function tracePolygon(ctx: CanvasRenderingContext2D, points: fabric.Point[]) {
+  ctx.beginPath();
+  points.forEach((point, i) => {
+    if (i === 0) ctx.moveTo(point.x, point.y);
+    else ctx.lineTo(point.x, point.y);
+  });
+  ctx.closePath();
+}
+
+function toSvgPoints(points: fabric.Point[]): string {
+  return points.map(point => `${point.x},${point.y}`).join(' ');
+}
+
+// Triangle for an arrow head pointing from (fromX, fromY) to the tip at (toX, toY)
+function getArrowHeadPoints(fromX: number, fromY: number, toX: number, toY: number, size: number): fabric.Point[] {
+  const angle = Math.atan2(toY - fromY, toX - fromX);
+  return [
+    new fabric.Point(toX, toY),
+    new fabric.Point(toX - size * Math.cos(angle - Math.PI / 6), toY - size * Math.sin(angle - Math.PI / 6)),
+    new fabric.Point(toX - size * Math.cos(angle + Math.PI / 6), toY - size * Math.sin(angle + Math.PI / 6)),
+  ];
+}
+
+const f = fabric as any;
+
+if (!f.Arrow) {
+  f.Arrow = fabric.util.createClass(fabric.Line, {
+    type: 'arrow',
+    arrowHeads: 'end' as ArrowHeadPosition,
+    headSize: 12,
+    // Heads extend past the line's bounding box, so skip the clipped object cache
+    objectCaching: false,
+
+    getArrowHeads(this: any): fabric.Point[][] {
+      const p = this.calcLinePoints();
+      const size = Math.max(this.headSize, this.strokeWidth * 3);
+      const heads: fabric.Point[][] = [];
+      if (this.arrowHeads === 'end' || this.arrowHeads === 'both') {
+        heads.push(getArrowHeadPoints(p.x1, p.y1, p.x2, p.y2, size));
+      }
+      if (this.arrowHeads === 'start' || this.arrowHeads === 'both') {
+        heads.push(getArrowHeadPoints(p.x2, p.y2, p.x1, p.y1, size));
+      }
+      return heads;
+    },
+
+    _render(this: any, ctx: CanvasRenderingContext2D) {
+      this.callSuper('_render', ctx);
+      if (!this.stroke) return;
+
+      ctx.save();
+      ctx.fillStyle = this.stroke;
+      this.getArrowHeads().forEach((head: fabric.Point[]) => {
+        tracePolygon(ctx, head);
+        ctx.fill();
+      });
+      ctx.restore();
+    },
+
+    toObject(this: any, propertiesToInclude?: string[]) {
+      return this.callSuper('toObject', ['arrowHeads', 'headSize'].concat(propertiesToInclude || []));
+    },
+
+    _toSVG(this: any) {
+      const markup = this.callSuper('_toSVG');
+      this.getArrowHeads().forEach((head: fabric.Point[]) => {
+        markup.push(`<polygon points="${toSvgPoints(head)}" fill="${this.stroke}" stroke="none" />\n`);
+      });
+      return markup;
+    },
+  });
+
+  f.Arrow.fromObject = (object: any, callback: (arrow: fabric.Object) => void) => {
+    const options = (fabric.util.object as any).clone(object, true);
+    options.points = [object.x1, object.y1, object.x2, object.y2];
+    f.Object._fromObject('Arrow', options, (instance: any) => {
+      delete instance.points;
+      callback?.(instance);
+    }, 'points');
+  };
+}
+
+// Shapes drawn from their own width/height box rather than a points array, so
+// resizing from the property panel or by dragging regenerates the vertices
+function createBoxPolygonClass(type: string, extraProperties: string[], getPoints: (shape: any) => fabric.Point[]) {
+  const klass = fabric.util.createClass(fabric.Object, {
+    type,
+    cacheProperties: fabric.Object.prototype.cacheProperties!.concat(extraProperties),
+
+    _render(this: any, ctx: CanvasRenderingContext2D) {
+      tracePolygon(ctx, getPoints(this));
+      this._renderPaintInOrder(ctx);
+    },
+
+    toObject(this: any, propertiesToInclude?: string[]) {
+      return this.callSuper('toObject', extraProperties.concat(propertiesToInclude || []));
+    },
+
+    _toSVG(this: any) {
+      return ['<polygon ', 'COMMON_PARTS', 'points="', toSvgPoints(getPoints(this)), '" />\n'];
+    },
+  });
+
+  klass.fromObject = (object: any, callback: (shape: fabric.Object) => void) => {
+    return f.Object._fromObject(type.charAt(0).toUpperCase() + type.slice(1), object, callback);
+  };
+
+  return klass;
+}
+
+if (!f.RegularPolygon) {
+  f.RegularPolygon = createBoxPolygonClass('regularPolygon', ['sides'], shape =>
+    getRegularPolygonPoints(shape.sides, shape.width, shape.height)
+  );
+  f.RegularPolygon.prototype.sides = 6;
+}
+
+if (!f.Star) {
+  f.Star = createBoxPolygonClass('star', ['starPoints', 'innerRadius'], shape =>
+    getStarPoints(shape.starPoints, shape.innerRadius, shape.width, shape.height)
+  );
+  f.Star.prototype.starPoints = 5;
+  f.Star.prototype.innerRadius = 0.5;
+}
+
+export function createArrow(points: number[], options: Record<string, any> = {}): fabric.Line {
+  return new f.Arrow(points, options);
+}
+
+export function createRegularPolygon(options: Record<string, any> = {}): fabric.Object {
+  return new f.RegularPolygon(options);
+}
+
+export function createStar(options: Record<string, any> = {}): fabric.Object {
+  return new f.Star(options);
+}
@@ -0,0 +1,214 @@
+// Editable fill styles (solid, linear/radial gradient, image pattern) and their conversion to and
+// from Fabric fills. Object gradients use percentage units so they follow the object's size;
+// canvas backgrounds have no size of their own, so theirs are laid out in canvas pixels.
+import { fabric } from 'fabric';
+
+export type FillKind = 'solid' | 'linear' | 'radial' | 'pattern';
+
+export type PatternRepeat = 'repeat' | 'repeat-x' | 'repeat-y' | 'no-repeat';
+
+export interface GradientStop {
+  // 0..1 along the gradient
+  offset: number;
+  // #rrggbb
+  color: string;
+  opacity: number;
+}
+
+export type FillStyle =
+  | { kind: 'solid'; color: string }
+  // Angle in degrees, 0 runs left to right, 90 top to bottom
+  | { kind: 'linear'; stops: GradientStop[]; angle: number }
+  | { kind: 'radial'; stops: GradientStop[] }
+  // Source is an image URL (usually a data URL); scale is the tile size multiplier
+  | { kind: 'pattern'; source: string; repeat: PatternRepeat; scale: number };
+
+export type FabricFill = string | fabric.Gradient | fabric.Pattern;
+
+export interface FillArea {
+  width: number;
+  height: number;
+}
+
+export const FILL_KINDS: { kind: FillKind; label: string }[] = [
+  { kind: 'solid', label: 'Solid' },
+  { kind: 'linear', label: 'Linear' },
+  { kind: 'radial', label: 'Radial' },
+  { kind: 'pattern', label: 'Pattern' },
+];
+
+export const PATTERN_REPEATS: { value: PatternRepeat; label: string }[] = [
+  { value: 'repeat', label: 'Tile' },
+  { value: 'repeat-x', label: 'Horizontal' },
+  { value: 'repeat-y', label: 'Vertical' },
+  { value: 'no-repeat', label: 'Once' },
+];
+
+function toHexColor(color: string): string {
+  return `#${new fabric.Color(color).toHex().toLowerCase()}`;
+}
+
+function toStops(colorStops: fabric.Gradient['colorStops']): GradientStop[] {
+  return (colorStops || []).map(stop => ({
+    offset: stop.offset,
+    color: toHexColor(stop.color),
+    opacity: (stop as { opacity?: number }).opacity ?? new fabric.Color(stop.color).getAlpha()
+  }));
+}
+
+// Gradient from the current color to white, used when switching a solid fill to a gradient
+export function defaultGradientStops(color: string): GradientStop[] {
+  const start = color && color !== 'transparent' ? toHexColor(color) : '#000000';
+  return [
+    { offset: 0, color: start, opacity: 1 },
+    { offset: 1, color: '#ffffff', opacity: 1 }
+  ];
+}
+
+// The editable style behind a Fabric fill; `area` is needed for pixel-unit gradients
+export function readFillStyle(fill: unknown, area?: FillArea): FillStyle {
+  if (fill instanceof fabric.Gradient) {
+    // Stops keep Fabric's order so an editor's stop indexes survive a round trip
+    const stops = toStops(fill.colorStops);
+    if (fill.type === 'radial') return { kind: 'radial', stops };
+
+    const coords = fill.coords || {};
+    const pixels = (fill as any).gradientUnits !== 'percentage';
+    const scaleX = pixels && area ? area.width || 1 : 1;
+    const scaleY = pixels && area ? area.height || 1 : 1;
+    const dx = ((coords.x2 || 0) - (coords.x1 || 0)) / scaleX;
+    const dy = ((coords.y2 || 0) - (coords.y1 || 0)) / scaleY;
+    const angle = Math.round((Math.atan2(dy, dx) * 180) / Math.PI);
+    return { kind: 'linear', stops, angle: (angle + 360) % 360 };
+  }
+
+  if (fill instanceof fabric.Pattern) {
+    const source = typeof fill.source === 'string' ? fill.source : (fill.source as HTMLImageElement)?.src || '';
+    const transform = (fill as any).patternTransform as number[] | null;
+    return {
+      kind: 'pattern',
+      source,
+      repeat: (fill.repeat as PatternRepeat) || 'repeat',
+      scale: transform ? transform[0] : 1
+    };
+  }
+
+  return { kind: 'solid', color: typeof fill === 'string' ? fill : '' };
+}
+
+// A representative flat color for a fill, e.g. for a swatch or when switching back to solid
+export function getFillColor(style: FillStyle): string {
+  if (style.kind === 'solid') return style.color;
+  if (style.kind === 'pattern') return '#808080';
+  return style.stops[0]?.color || '#000000';
+}
+
+// CSS equivalent, for previews in the editor UI
+export function fillStyleToCss(style: FillStyle): string {
+  if (style.kind === 'solid') return style.color || 'transparent';
+  if (style.kind === 'pattern') return `url(${style.source})`;
+
+  const stops = [...style.stops]
+    .sort((a, b) => a.offset - b.offset)
+    .map(stop => {
+      const [r, g, b] = new fabric.Color(stop.color).getSource();
+      return `rgba(${r}, ${g}, ${b}, ${stop.opacity}) ${Math.round(stop.offset * 100)}%`;
+    })
+    .join(', ');
+  return style.kind === 'linear'
+    ? `linear-gradient(${style.angle + 90}deg, ${stops})`
+    : `radial-gradient(circle, ${stops})`;
+}
+
+function createGradient(style: Extract<FillStyle, { kind: 'linear' | 'radial' }>, area?: FillArea): fabric.Gradient {
+  const width = area?.width || 1;
+  const height = area?.height || 1;
+  const colorStops = style.stops.map(stop => ({ offset: stop.offset, color: stop.color, opacity: stop.opacity }));
+
+  if (style.kind === 'radial') {
+    return new fabric.Gradient({
+      type: 'radial',
+      gradientUnits: area ? 'pixels' : 'percentage',
+      coords: { x1: width / 2, y1: height / 2, r1: 0, x2: width / 2, y2: height / 2, r2: area ? Math.max(width, height) / 2 : 0.5 },
+      colorStops
+    } as any);
+  }
+
+  const radians = (style.angle * Math.PI) / 180;
+  const dx = Math.cos(radians) / 2;
+  const dy = Math.sin(radians) / 2;
+  return new fabric.Gradient({
+    type: 'linear',
+    gradientUnits: area ? 'pixels' : 'percentage',
+    coords: {
+      x1: (0.5 - dx) * width,
+      y1: (0.5 - dy) * height,
+      x2: (0.5 + dx) * width,
+      y2: (0.5 + dy) * height
+    },
+    colorStops
+  } as any);
+}
+
+// Pattern images are reused across edits of the same pattern (e.g. while dragging the scale)
+const patternImages = new Map<string, Promise<HTMLImageElement>>();
+
+function loadPatternImage(source: string): Promise<HTMLImageElement> {
+  let image = patternImages.get(source);
+  if (!image) {
+    image = new Promise((resolve, reject) => {
+      fabric.util.loadImage(source, (element: HTMLImageElement | null, isError?: boolean) => {
+        if (!element || isError) {
+          patternImages.delete(source);
+          reject(new Error('Could not load the pattern image'));
+        } else {
+          resolve(element);
+        }
+      }, null, 'anonymous');
+    });
+    patternImages.set(source, image);
+  }
+  return image;
+}
+
+// Build the Fabric fill for a style. Pass `area` for canvas backgrounds, which need pixel units.
+export async function createFabricFill(style: FillStyle, area?: FillArea): Promise<FabricFill> {
+  switch (style.kind) {
+    case 'solid':
+      return style.color;
+    case 'linear':
+    case 'radial':
+      return createGradient(style, area);
+    case 'pattern': {
+      const source = await loadPatternImage(style.source);
+      return new fabric.Pattern({
+        source,
+        repeat: style.repeat,
+        patternTransform: [style.scale, 0, 0, style.scale, 0, 0]
+      } as any);
+    }
+  }
+}
+
+// Stretch a pixel-unit (background) gradient laid out for one canvas size to another
+export function resizeGradientFill(fill: unknown, from: FillArea, to: FillArea): void {
+  if (!(fill instanceof fabric.Gradient) || (fill as any).gradientUnits === 'percentage') return;
+
+  const scaleX = to.width / (from.width || 1);
+  const scaleY = to.height / (from.height || 1);
+  const scaleR = Math.max(to.width, to.height) / (Math.max(from.width, from.height) || 1);
+  const coords = fill.coords || {};
+  fill.coords = {
+    ...coords,
+    x1: (coords.x1 || 0) * scaleX,
+    y1: (coords.y1 || 0) * scaleY,
+    x2: (coords.x2 || 0) * scaleX,
+    y2: (coords.y2 || 0) * scaleY,
+    ...(fill.type === 'radial' ? { r1: (coords.r1 || 0) * scaleR, r2: (coords.r2 || 0) * scaleR } : {})
+  };
+}
+
+// Gradients and patterns can't be expressed as a single color
+export function isPaintServer(fill: unknown): boolean {
+  return fill instanceof fabric.Gradient || fill instanceof fabric.Pattern;
+}
@@ -0,0 +1,278 @@
+// Image cropping and masking. Cropping edits the image's own cropX/cropY/width/height and
+// masking sets a shape as its clipPath, so both serialize with the image's standard JSON.
+import { fabric } from 'fabric';
+
+export interface CropAspectRatio {
+  label: string;
+  // Width / height of the cropped area, null for free cropping
+  value: number | null;
+}
+
+export const CROP_ASPECT_RATIOS: CropAspectRatio[] = [
+  { label: 'Free', value: null },
+  { label: '1:1', value: 1 },
+  { label: '4:3', value: 4 / 3 },
+  { label: '3:4', value: 3 / 4 },
+  { label: '16:9', value: 16 / 9 },
+  { label: '9:16', value: 9 / 16 },
+];
+
+// Objects that can be used as an image mask
+export const MASK_SHAPE_TYPES = [
+  'rect', 'circle', 'ellipse', 'triangle', 'polygon', 'regularPolygon', 'star', 'path',
+  'text', 'i-text', 'textbox',
+];
+
+// Smallest crop, in source image pixels
+const MIN_CROP_SIZE = 10;
+
+const OVERLAY_COLOR = 'rgba(0, 0, 0, 0.55)';
+
+interface SavedImageState {
+  cropX: number;
+  cropY: number;
+  width: number;
+  height: number;
+  left: number;
+  top: number;
+  clipPath?: fabric.Object;
+  selectable?: boolean;
+  evented?: boolean;
+}
+
+export interface CropSession {
+  image: fabric.Image;
+  // Editable frame over the image; its handles resize the crop
+  frame: fabric.Rect;
+  aspectRatio: number | null;
+  saved: SavedImageState;
+}
+
+interface CropArea {
+  // Centre and half size in the image's local (source pixel) coordinates
+  center: fabric.Point;
+  halfWidth: number;
+  halfHeight: number;
+}
+
+function getCropArea(session: CropSession): CropArea {
+  const { image, frame } = session;
+  const toImage = fabric.util.invertTransform(image.calcTransformMatrix());
+  return {
+    center: fabric.util.transformPoint(frame.getCenterPoint(), toImage),
+    halfWidth: ((frame.width || 0) * (frame.scaleX || 1)) / (2 * (image.scaleX || 1)),
+    halfHeight: ((frame.height || 0) * (frame.scaleY || 1)) / (2 * (image.scaleY || 1))
+  };
+}
+
+function setCropArea(session: CropSession, area: CropArea): void {
+  const { image, frame } = session;
+  frame.set({
+    scaleX: (area.halfWidth * 2 * (image.scaleX || 1)) / (frame.width || 1),
+    scaleY: (area.halfHeight * 2 * (image.scaleY || 1)) / (frame.height || 1)
+  });
+  frame.setPositionByOrigin(fabric.util.transformPoint(area.center, image.calcTransformMatrix()), 'center', 'center');
+  frame.setCoords();
+}
+
+// Show the whole source image with a frame over the part that is currently visible
+export function startImageCrop(canvas: fabric.Canvas, image: fabric.Image): CropSession {
+  const { width: sourceWidth, height: sourceHeight } = image.getOriginalSize();
+  const saved: SavedImageState = {
+    cropX: image.cropX || 0,
+    cropY: image.cropY || 0,
+    width: image.width || sourceWidth,
+    height: image.height || sourceHeight,
+    left: image.left || 0,
+    top: image.top || 0,
+    clipPath: image.clipPath,
+    selectable: image.selectable,
+    evented: image.evented
+  };
+  const center = image.getCenterPoint();
+
+  // Uncrop in place: move the image so the cropped area stays where it was on the canvas
+  image.set({ cropX: 0, cropY: 0, width: sourceWidth, height: sourceHeight, clipPath: undefined });
+  image.setPositionByOrigin(center, 'center', 'center');
+  const cropCenter = fabric.util.transformPoint(
+    new fabric.Point(
+      saved.cropX + saved.width / 2 - sourceWidth / 2,
+      saved.cropY + saved.height / 2 - sourceHeight / 2
+    ),
+    image.calcTransformMatrix()
+  );
+  image.setPositionByOrigin(center.subtract(cropCenter.subtract(center)), 'center', 'center');
+  image.set({ selectable: false, evented: false, dirty: true });
+  image.setCoords();
+
+  const frame = new fabric.Rect({
+    left: center.x,
+    top: center.y,
+    originX: 'center',
+    originY: 'center',
+    width: saved.width,
+    height: saved.height,
+    scaleX: image.scaleX,
+    scaleY: image.scaleY,
+    angle: image.angle,
+    fill: 'transparent',
+    stroke: '#ffffff',
+    strokeWidth: 1,
+    strokeDashArray: [6, 4],
+    strokeUniform: true,
+    borderColor: '#ffffff',
+    cornerColor: '#ffffff',
+    cornerStrokeColor: '#000000',
+    cornerSize: 10,
+    transparentCorners: false,
+    lockRotation: true,
+    lockScalingFlip: true,
+    lockSkewingX: true,
+    lockSkewingY: true,
+    excludeFromExport: true
+  });
+  frame.setControlVisible('mtr', false);
+
+  canvas.add(frame);
+  canvas.setActiveObject(frame);
+  canvas.requestRenderAll();
+
+  return { image, frame, aspectRatio: null, saved };
+}
+
+// Keep the frame inside the image and at the locked aspect ratio while it is dragged or resized
+export function constrainCropFrame(session: CropSession): void {
+  const sourceWidth = session.image.width || 1;
+  const sourceHeight = session.image.height || 1;
+  const { center, halfWidth, halfHeight } = getCropArea(session);
+  const minHalf = Math.min(MIN_CROP_SIZE, sourceWidth, sourceHeight) / 2;
+
+  let width = Math.max(minHalf, Math.min(halfWidth, sourceWidth / 2));
+  let height = Math.max(minHalf, Math.min(halfHeight, sourceHeight / 2));
+  if (session.aspectRatio) {
+    // Shrink whichever side is too long for the ratio, then fit both within the image
+    height = Math.min(height, width / session.aspectRatio);
+    width = height * session.aspectRatio;
+    const fit = Math.min(1, sourceWidth / 2 / width, sourceHeight / 2 / height);
+    width *= fit;
+    height *= fit;
+  }
+
+  setCropArea(session, {
+    center: new fabric.Point(
+      Math.max(width - sourceWidth / 2, Math.min(sourceWidth / 2 - width, center.x)),
+      Math.max(height - sourceHeight / 2, Math.min(sourceHeight / 2 - height, center.y))
+    ),
+    halfWidth: width,
+    halfHeight: height
+  });
+}
+
+export function setCropFrameAspectRatio(session: CropSession, aspectRatio: number | null): void {
+  session.aspectRatio = aspectRatio;
+  // With a locked ratio only the corner handles, which scale uniformly, are offered
+  const sides = aspectRatio === null;
+  session.frame.setControlsVisibility({ ml: sides, mr: sides, mt: sides, mb: sides });
+  constrainCropFrame(session);
+}
+
+// Crop the image to the frame and remove the frame
+export function applyImageCrop(canvas: fabric.Canvas, session: CropSession): void {
+  const { image, frame, saved } = session;
+  const { halfWidth, halfHeight, center } = getCropArea(session);
+  const cropX = center.x - halfWidth + (image.width || 0) / 2;
+  const cropY = center.y - halfHeight + (image.height || 0) / 2;
+  const position = frame.getCenterPoint();
+
+  canvas.remove(frame);
+  image.set({
+    cropX,
+    cropY,
+    width: halfWidth * 2,
+    height: halfHeight * 2,
+    clipPath: saved.clipPath,
+    selectable: saved.selectable,
+    evented: saved.evented,
+    dirty: true
+  });
+
+  // The mask is positioned relative to the image centre; keep it over the same part of the picture
+  if (saved.clipPath && !saved.clipPath.absolutePositioned) {
+    saved.clipPath.set({
+      left: (saved.clipPath.left || 0) + saved.cropX + saved.width / 2 - (cropX + halfWidth),
+      top: (saved.clipPath.top || 0) + saved.cropY + saved.height / 2 - (cropY + halfHeight)
+    });
+  }
+
+  image.setPositionByOrigin(position, 'center', 'center');
+  image.setCoords();
+}
+
+// Put the image back exactly as it was before cropping started
+export function cancelImageCrop(canvas: fabric.Canvas, session: CropSession): void {
+  canvas.remove(session.frame);
+  session.image.set({ ...session.saved, dirty: true });
+  session.image.setCoords();
+}
+
+// Dim the parts of the image outside the frame; drawn on the top context so it never reaches exports
+export function drawCropOverlay(ctx: CanvasRenderingContext2D, session: CropSession, vpt: number[]): void {
+  const { image } = session;
+  const width = image.width || 0;
+  const height = image.height || 0;
+  const { center, halfWidth, halfHeight } = getCropArea(session);
+  const matrix = fabric.util.multiplyTransformMatrices(vpt, image.calcTransformMatrix());
+
+  ctx.save();
+  ctx.transform(matrix[0], matrix[1], matrix[2], matrix[3], matrix[4], matrix[5]);
+  ctx.beginPath();
+  ctx.rect(-width / 2, -height / 2, width, height);
+  ctx.rect(center.x - halfWidth, center.y - halfHeight, halfWidth * 2, halfHeight * 2);
+  ctx.fillStyle = OVERLAY_COLOR;
+  ctx.fill('evenodd');
+  ctx.restore();
+}
+
+export function isMaskShape(object: fabric.Object): boolean {
+  return MASK_SHAPE_TYPES.includes(object.type || '');
+}
+
+// Give an object the transform matrix it should have, relative to whatever it is drawn in
+function setObjectTransform(object: fabric.Object, matrix: number[]): void {
+  const options = fabric.util.qrDecompose(matrix);
+  object.set({
+    flipX: false,
+    flipY: false,
+    scaleX: options.scaleX,
+    scaleY: options.scaleY,
+    skewX: options.skewX,
+    skewY: options.skewY,
+    angle: options.angle
+  });
+  object.setPositionByOrigin(new fabric.Point(options.translateX, options.translateY), 'center', 'center');
+}
+
+// Use a shape (already taken off the canvas) as the image's mask, keeping it where it was drawn
+export function maskImageWithShape(image: fabric.Image, shape: fabric.Object): void {
+  setObjectTransform(shape, fabric.util.multiplyTransformMatrices(
+    fabric.util.invertTransform(image.calcTransformMatrix()),
+    shape.calcTransformMatrix()
+  ));
+  shape.setCoords();
+  image.set({ clipPath: shape, dirty: true });
+}
+
+// Detach the image's mask and return it positioned on the canvas, ready to be added back
+export function releaseMask(image: fabric.Image): fabric.Object | null {
+  const shape = image.clipPath;
+  if (!shape) return null;
+
+  const matrix = shape.absolutePositioned
+    ? shape.calcTransformMatrix()
+    : fabric.util.multiplyTransformMatrices(image.calcTransformMatrix(), shape.calcTransformMatrix());
+  shape.absolutePositioned = false;
+  setObjectTransform(shape, matrix);
+  shape.setCoords();
+  image.set({ clipPath: undefined, dirty: true });
+  return shape;
+}
@@ -0,0 +1,105 @@
+// Non-destructive image adjustments built on fabric.Image.filters. The source pixels are
+// never changed; the filter stack is part of the image's JSON, so it survives save/load.
+import { fabric } from 'fabric';
+
+export interface ImageAdjustments {
+  // -1..1, 0 is unchanged
+  brightness: number;
+  contrast: number;
+  saturation: number;
+  // -1..1, a fraction of a full turn around the colour wheel
+  hue: number;
+  // 0..1
+  blur: number;
+  // Block size in pixels, 1 is off
+  pixelate: number;
+  grayscale: boolean;
+  sepia: boolean;
+  invert: boolean;
+}
+
+export type ImageAdjustmentSlider = 'brightness' | 'contrast' | 'saturation' | 'hue' | 'blur' | 'pixelate';
+export type ImageAdjustmentToggle = 'grayscale' | 'sepia' | 'invert';
+
+export const DEFAULT_IMAGE_ADJUSTMENTS: ImageAdjustments = {
+  brightness: 0,
+  contrast: 0,
+  saturation: 0,
+  hue: 0,
+  blur: 0,
+  pixelate: 1,
+  grayscale: false,
+  sepia: false,
+  invert: false,
+};
+
+export const IMAGE_ADJUSTMENT_SLIDERS: {
+  key: ImageAdjustmentSlider;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}[] = [
+  { key: 'brightness', label: 'Brightness', min: -1, max: 1, step: 0.01 },
+  { key: 'contrast', label: 'Contrast', min: -1, max: 1, step: 0.01 },
+  { key: 'saturation', label: 'Saturation', min: -1, max: 1, step: 0.01 },
+  { key: 'hue', label: 'Hue', min: -1, max: 1, step: 0.01 },
+  { key: 'blur', label: 'Blur', min: 0, max: 1, step: 0.01 },
+  { key: 'pixelate', label: 'Pixelate', min: 1, max: 40, step: 1 },
+];
+
+export const IMAGE_ADJUSTMENT_TOGGLES: { key: ImageAdjustmentToggle; label: string }[] = [
+  { key: 'grayscale', label: 'Grayscale' },
+  { key: 'sepia', label: 'Sepia' },
+  { key: 'invert', label: 'Invert' },
+];
+
+// Serialized filters carry their class name as `type`
+type TypedFilter = fabric.IBaseFilter & { type?: string; [key: string]: unknown };
+
+function findFilter(image: fabric.Image, type: string): TypedFilter | undefined {
+  return (image.filters as TypedFilter[] | undefined)?.find(filter => filter?.type === type);
+}
+
+function filterValue(image: fabric.Image, type: string, key: string, fallback: number): number {
+  const value = findFilter(image, type)?.[key];
+  return typeof value === 'number' ? value : fallback;
+}
+
+export function getImageAdjustments(image: fabric.Image): ImageAdjustments {
+  return {
+    brightness: filterValue(image, 'Brightness', 'brightness', 0),
+    contrast: filterValue(image, 'Contrast', 'contrast', 0),
+    saturation: filterValue(image, 'Saturation', 'saturation', 0),
+    hue: filterValue(image, 'HueRotation', 'rotation', 0),
+    blur: filterValue(image, 'Blur', 'blur', 0),
+    pixelate: filterValue(image, 'Pixelate', 'blocksize', 1),
+    grayscale: !!findFilter(image, 'Grayscale'),
+    sepia: !!findFilter(image, 'Sepia'),
+    invert: !!findFilter(image, 'Invert'),
+  };
+}
+
+export function hasImageAdjustments(image: fabric.Image): boolean {
+  return (image.filters || []).length > 0;
+}
+
+// Rebuild the filter stack in a fixed order, leaving out adjustments at their neutral value
+export function applyImageAdjustments(image: fabric.Image, adjustments: ImageAdjustments): void {
+  const { filters } = fabric.Image;
+  const stack: fabric.IBaseFilter[] = [];
+
+  if (adjustments.brightness !== 0) stack.push(new filters.Brightness({ brightness: adjustments.brightness }));
+  if (adjustments.contrast !== 0) stack.push(new filters.Contrast({ contrast: adjustments.contrast }));
+  if (adjustments.saturation !== 0) stack.push(new filters.Saturation({ saturation: adjustments.saturation }));
+  if (adjustments.hue !== 0) stack.push(new filters.HueRotation({ rotation: adjustments.hue }));
+  if (adjustments.grayscale) stack.push(new filters.Grayscale());
+  if (adjustments.sepia) stack.push(new filters.Sepia());
+  if (adjustments.invert) stack.push(new filters.Invert());
+  if (adjustments.blur > 0) stack.push(new filters.Blur({ blur: adjustments.blur }));
+  if (adjustments.pixelate > 1) stack.push(new filters.Pixelate({ blocksize: adjustments.pixelate }));
+
+  image.filters = stack;
+  image.applyFilters();
+  image.dirty = true;
+}
@@ -0,0 +1,164 @@
+// Drop shadows, stroke styling and blend modes. All of them map onto standard Fabric object
+// properties (shadow, strokeDashArray, strokeLineCap/Join, globalCompositeOperation), so they
+// serialize with the object's own JSON.
+import { fabric } from 'fabric';
+
+export interface ShadowSettings {
+  // #rrggbb
+  color: string;
+  opacity: number;
+  blur: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+export type DashStyle = 'solid' | 'dashed' | 'dotted' | 'dash-dot';
+export type LineCap = 'butt' | 'round' | 'square';
+export type LineJoin = 'miter' | 'round' | 'bevel';
+
+export interface ObjectEffects {
+  shadow: ShadowSettings | null;
+  // 'custom' is a dash array that didn't come from a preset (e.g. an imported SVG); it's kept as is
+  dashStyle: DashStyle | 'custom';
+  lineCap: LineCap;
+  lineJoin: LineJoin;
+  // A canvas globalCompositeOperation
+  blendMode: string;
+}
+
+export const DEFAULT_SHADOW: ShadowSettings = {
+  color: '#000000',
+  opacity: 0.35,
+  blur: 10,
+  offsetX: 4,
+  offsetY: 4,
+};
+
+export const SHADOW_SLIDERS: { key: 'blur' | 'offsetX' | 'offsetY'; label: string; min: number; max: number }[] = [
+  { key: 'blur', label: 'Blur', min: 0, max: 50 },
+  { key: 'offsetX', label: 'Offset X', min: -50, max: 50 },
+  { key: 'offsetY', label: 'Offset Y', min: -50, max: 50 },
+];
+
+// Dash and gap lengths in multiples of the stroke width, so a preset looks the same at any width
+const DASH_PATTERNS: Record<DashStyle, number[] | null> = {
+  solid: null,
+  dashed: [4, 3],
+  dotted: [1, 2],
+  'dash-dot': [6, 3, 1, 3],
+};
+
+export const DASH_STYLES: { value: DashStyle; label: string }[] = [
+  { value: 'solid', label: 'Solid' },
+  { value: 'dashed', label: 'Dashed' },
+  { value: 'dotted', label: 'Dotted' },
+  { value: 'dash-dot', label: 'Dash-dot' },
+];
+
+export const LINE_CAPS: { value: LineCap; label: string }[] = [
+  { value: 'butt', label: 'Butt' },
+  { value: 'round', label: 'Round' },
+  { value: 'square', label: 'Square' },
+];
+
+export const LINE_JOINS: { value: LineJoin; label: string }[] = [
+  { value: 'miter', label: 'Miter' },
+  { value: 'round', label: 'Round' },
+  { value: 'bevel', label: 'Bevel' },
+];
+
+export const BLEND_MODES: { value: string; label: string }[] = [
+  { value: 'source-over', label: 'Normal' },
+  { value: 'multiply', label: 'Multiply' },
+  { value: 'screen', label: 'Screen' },
+  { value: 'overlay', label: 'Overlay' },
+  { value: 'darken', label: 'Darken' },
+  { value: 'lighten', label: 'Lighten' },
+  { value: 'color-dodge', label: 'Color Dodge' },
+  { value: 'color-burn', label: 'Color Burn' },
+  { value: 'hard-light', label: 'Hard Light' },
+  { value: 'soft-light', label: 'Soft Light' },
+  { value: 'difference', label: 'Difference' },
+  { value: 'exclusion', label: 'Exclusion' },
+  { value: 'hue', label: 'Hue' },
+  { value: 'saturation', label: 'Saturation' },
+  { value: 'color', label: 'Color' },
+  { value: 'luminosity', label: 'Luminosity' },
+];
+
+function dashUnit(object: fabric.Object): number {
+  return Math.max(1, object.strokeWidth || 0);
+}
+
+function readShadow(shadow: fabric.Object['shadow']): ShadowSettings | null {
+  if (!shadow) return null;
+  const value = typeof shadow === 'string' ? new fabric.Shadow(shadow) : shadow;
+  const color = new fabric.Color(value.color || DEFAULT_SHADOW.color);
+  return {
+    color: `#${color.toHex().toLowerCase()}`,
+    opacity: color.getAlpha(),
+    blur: value.blur || 0,
+    offsetX: value.offsetX || 0,
+    offsetY: value.offsetY || 0
+  };
+}
+
+function readDashStyle(object: fabric.Object, unit = dashUnit(object)): DashStyle | 'custom' {
+  const dashArray = object.strokeDashArray;
+  if (!dashArray || dashArray.length === 0) return 'solid';
+
+  const match = DASH_STYLES.find(({ value }) => {
+    const pattern = DASH_PATTERNS[value];
+    return pattern && pattern.length === dashArray.length &&
+      pattern.every((length, i) => Math.abs(length * unit - dashArray[i]) < 0.01);
+  });
+  return match ? match.value : 'custom';
+}
+
+export function getObjectEffects(object: fabric.Object): ObjectEffects {
+  return {
+    shadow: readShadow(object.shadow),
+    dashStyle: readDashStyle(object),
+    lineCap: (object.strokeLineCap as LineCap) || 'butt',
+    lineJoin: (object.strokeLineJoin as LineJoin) || 'miter',
+    blendMode: object.globalCompositeOperation || 'source-over'
+  };
+}
+
+export function applyObjectEffects(object: fabric.Object, effects: ObjectEffects): void {
+  const { shadow } = effects;
+  const [r, g, b] = shadow ? new fabric.Color(shadow.color).getSource() : [0, 0, 0];
+
+  object.set({
+    shadow: shadow
+      ? new fabric.Shadow({
+          color: `rgba(${r}, ${g}, ${b}, ${shadow.opacity})`,
+          blur: shadow.blur,
+          offsetX: shadow.offsetX,
+          offsetY: shadow.offsetY
+        })
+      : undefined,
+    strokeLineCap: effects.lineCap,
+    strokeLineJoin: effects.lineJoin,
+    globalCompositeOperation: effects.blendMode,
+    dirty: true
+  });
+
+  if (effects.dashStyle !== 'custom') {
+    setDashStyle(object, effects.dashStyle);
+  }
+}
+
+function setDashStyle(object: fabric.Object, style: DashStyle): void {
+  const pattern = DASH_PATTERNS[style];
+  const unit = dashUnit(object);
+  object.set('strokeDashArray', pattern ? pattern.map(length => length * unit) : undefined);
+}
+
+// Keep a preset dash pattern in proportion after the stroke width changes; custom ones are left alone
+export function rescaleDashArray(object: fabric.Object, previousWidth: number): void {
+  const style = readDashStyle(object, Math.max(1, previousWidth));
+  if (style !== 'solid' && style !== 'custom') {
+    setDashStyle(object, style);
+  }
+}
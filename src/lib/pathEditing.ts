@@ -0,0 +1,356 @@
+// Anchor/handle model for editable Bézier paths, shared by the pen and node-editing tools.
+// Node coordinates are in the path's own (untransformed) coordinate space.
+import { fabric } from 'fabric';
+
+export interface PathPoint {
+  x: number;
+  y: number;
+}
+
+export interface PathNode extends PathPoint {
+  handleIn: PathPoint | null;
+  handleOut: PathPoint | null;
+}
+
+export interface PathContour {
+  nodes: PathNode[];
+  closed: boolean;
+}
+
+export type NodePart = 'anchor' | 'handleIn' | 'handleOut';
+
+export interface NodeRef {
+  contour: number;
+  node: number;
+  part: NodePart;
+}
+
+// Screen-space radius (px) within which nodes and segments respond to the pointer
+export const NODE_HIT_RADIUS = 6;
+
+const SEGMENT_SAMPLES = 24;
+
+const samePoint = (a: PathPoint, b: PathPoint) => Math.abs(a.x - b.x) < 0.01 && Math.abs(a.y - b.y) < 0.01;
+
+const lerp = (a: PathPoint, b: PathPoint, t: number): PathPoint => ({
+  x: a.x + (b.x - a.x) * t,
+  y: a.y + (b.y - a.y) * t,
+});
+
+// Parse Fabric's simplified path commands (M, L, C, Q, Z in absolute coordinates) into contours
+export function pathToContours(commands: any[]): PathContour[] {
+  const contours: PathContour[] = [];
+  let contour: PathContour | null = null;
+
+  const lastNode = () => contour!.nodes[contour!.nodes.length - 1];
+
+  commands.forEach(command => {
+    const [type, ...args] = command as [string, ...number[]];
+
+    if (type === 'M') {
+      contour = { nodes: [{ x: args[0], y: args[1], handleIn: null, handleOut: null }], closed: false };
+      contours.push(contour);
+      return;
+    }
+    if (!contour) return;
+
+    if (type === 'L') {
+      contour.nodes.push({ x: args[0], y: args[1], handleIn: null, handleOut: null });
+    } else if (type === 'C') {
+      lastNode().handleOut = { x: args[0], y: args[1] };
+      contour.nodes.push({ x: args[4], y: args[5], handleIn: { x: args[2], y: args[3] }, handleOut: null });
+    } else if (type === 'Q') {
+      // Elevate quadratic segments to cubic so every curve has two handles
+      const start = lastNode();
+      const control = { x: args[0], y: args[1] };
+      const end = { x: args[2], y: args[3] };
+      start.handleOut = lerp(start, control, 2 / 3);
+      contour.nodes.push({ ...end, handleIn: lerp(end, control, 2 / 3), handleOut: null });
+    } else if (type === 'Z' || type === 'z') {
+      contour.closed = true;
+      // A closing segment that ends on the start point duplicates the first node
+      const nodes = contour.nodes;
+      if (nodes.length > 1 && samePoint(nodes[0], nodes[nodes.length - 1])) {
+        nodes[0].handleIn = nodes[nodes.length - 1].handleIn;
+        nodes.pop();
+      }
+    }
+  });
+
+  return contours.filter(c => c.nodes.length > 0);
+}
+
+function segmentCommand(from: PathNode, to: PathNode): any[] {
+  if (!from.handleOut && !to.handleIn) {
+    return ['L', to.x, to.y];
+  }
+  const c1 = from.handleOut || from;
+  const c2 = to.handleIn || to;
+  return ['C', c1.x, c1.y, c2.x, c2.y, to.x, to.y];
+}
+
+export function contoursToPathCommands(contours: PathContour[]): any[] {
+  const commands: any[] = [];
+  contours.forEach(({ nodes, closed }) => {
+    if (nodes.length === 0) return;
+    commands.push(['M', nodes[0].x, nodes[0].y]);
+    for (let i = 1; i < nodes.length; i++) {
+      commands.push(segmentCommand(nodes[i - 1], nodes[i]));
+    }
+    if (closed && nodes.length > 1) {
+      commands.push(segmentCommand(nodes[nodes.length - 1], nodes[0]));
+      commands.push(['Z']);
+    }
+  });
+  return commands;
+}
+
+// Matrix mapping the path's own coordinates to canvas coordinates
+export function getPathMatrix(path: fabric.Path): number[] {
+  const offset = path.pathOffset || { x: 0, y: 0 };
+  return fabric.util.multiplyTransformMatrices(path.calcTransformMatrix(), [1, 0, 0, 1, -offset.x, -offset.y]);
+}
+
+// Replace a path's commands, recomputing its box while keeping existing points where they are on the canvas
+export function setPathCommands(path: fabric.Path, commands: any[]) {
+  const reference = new fabric.Point(0, 0);
+  const before = fabric.util.transformPoint(reference, getPathMatrix(path));
+
+  (path as any)._setPath(commands, { left: path.left, top: path.top });
+
+  const after = fabric.util.transformPoint(reference, getPathMatrix(path));
+  path.set({
+    left: (path.left || 0) + before.x - after.x,
+    top: (path.top || 0) + before.y - after.y,
+  });
+  path.dirty = true;
+  path.setCoords();
+}
+
+function cubicPoint(p0: PathPoint, p1: PathPoint, p2: PathPoint, p3: PathPoint, t: number): PathPoint {
+  const mt = 1 - t;
+  const a = mt * mt * mt;
+  const b = 3 * mt * mt * t;
+  const c = 3 * mt * t * t;
+  const d = t * t * t;
+  return {
+    x: a * p0.x + b * p1.x + c * p2.x + d * p3.x,
+    y: a * p0.y + b * p1.y + c * p2.y + d * p3.y,
+  };
+}
+
+function segmentPoints(contour: PathContour, index: number) {
+  const from = contour.nodes[index];
+  const to = contour.nodes[(index + 1) % contour.nodes.length];
+  return [from, from.handleOut || from, to.handleIn || to, to] as const;
+}
+
+function segmentCount(contour: PathContour): number {
+  if (contour.nodes.length < 2) return 0;
+  return contour.closed ? contour.nodes.length : contour.nodes.length - 1;
+}
+
+function distanceToSegment(point: PathPoint, a: PathPoint, b: PathPoint): { distance: number; t: number } {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSq));
+  const projected = lerp(a, b, t);
+  return { distance: Math.hypot(point.x - projected.x, point.y - projected.y), t };
+}
+
+// Hit-test anchors and handles; `toScreen` maps node coordinates to the pointer's coordinate space
+export function findNodeAt(
+  contours: PathContour[],
+  point: PathPoint,
+  toScreen: (p: PathPoint) => PathPoint,
+  radius = NODE_HIT_RADIUS
+): NodeRef | null {
+  let best: NodeRef | null = null;
+  let bestDistance = radius;
+
+  contours.forEach((contour, contourIndex) => {
+    contour.nodes.forEach((node, nodeIndex) => {
+      // Anchors win ties so a collapsed handle never hides its anchor
+      (['anchor', 'handleIn', 'handleOut'] as NodePart[]).forEach(part => {
+        const target = part === 'anchor' ? node : node[part];
+        if (!target) return;
+        const screen = toScreen(target);
+        const distance = Math.hypot(screen.x - point.x, screen.y - point.y);
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          best = { contour: contourIndex, node: nodeIndex, part };
+        }
+      });
+    });
+  });
+
+  return best;
+}
+
+// Find the segment nearest the pointer, returning the curve parameter at the closest point
+export function findSegmentAt(
+  contours: PathContour[],
+  point: PathPoint,
+  toScreen: (p: PathPoint) => PathPoint,
+  radius = NODE_HIT_RADIUS
+): { contour: number; segment: number; t: number } | null {
+  let best: { contour: number; segment: number; t: number } | null = null;
+  let bestDistance = radius;
+
+  contours.forEach((contour, contourIndex) => {
+    for (let segment = 0; segment < segmentCount(contour); segment++) {
+      const [p0, p1, p2, p3] = segmentPoints(contour, segment);
+      let previous = toScreen(p0);
+      for (let step = 1; step <= SEGMENT_SAMPLES; step++) {
+        const current = toScreen(cubicPoint(p0, p1, p2, p3, step / SEGMENT_SAMPLES));
+        const hit = distanceToSegment(point, previous, current);
+        if (hit.distance < bestDistance) {
+          bestDistance = hit.distance;
+          best = { contour: contourIndex, segment, t: (step - 1 + hit.t) / SEGMENT_SAMPLES };
+        }
+        previous = current;
+      }
+    }
+  });
+
+  return best;
+}
+
+// Split a segment at t (de Casteljau) so the curve keeps its shape; returns the new node's index
+export function insertNode(contours: PathContour[], contourIndex: number, segment: number, t: number): number {
+  const contour = contours[contourIndex];
+  const [p0, p1, p2, p3] = segmentPoints(contour, segment);
+  const from = contour.nodes[segment];
+  const to = contour.nodes[(segment + 1) % contour.nodes.length];
+  const isCurve = Boolean(from.handleOut || to.handleIn);
+
+  let node: PathNode;
+  if (isCurve) {
+    const a = lerp(p0, p1, t);
+    const b = lerp(p1, p2, t);
+    const c = lerp(p2, p3, t);
+    const d = lerp(a, b, t);
+    const e = lerp(b, c, t);
+    const split = lerp(d, e, t);
+    from.handleOut = a;
+    to.handleIn = c;
+    node = { ...split, handleIn: d, handleOut: e };
+  } else {
+    node = { ...lerp(p0, p3, t), handleIn: null, handleOut: null };
+  }
+
+  contour.nodes.splice(segment + 1, 0, node);
+  return segment + 1;
+}
+
+// Delete an anchor (dropping contours that can no longer form a segment) or collapse a handle
+export function removeNodePart(contours: PathContour[], ref: NodeRef): PathContour[] {
+  const contour = contours[ref.contour];
+  if (!contour) return contours;
+
+  if (ref.part !== 'anchor') {
+    contour.nodes[ref.node][ref.part] = null;
+    return contours;
+  }
+
+  contour.nodes.splice(ref.node, 1);
+  return contours.filter(c => c.nodes.length > 1);
+}
+
+// Move an anchor together with its handles, or a single handle, to `point`
+export function moveNodePart(contours: PathContour[], ref: NodeRef, point: PathPoint) {
+  const node = contours[ref.contour]?.nodes[ref.node];
+  if (!node) return;
+
+  if (ref.part === 'anchor') {
+    const dx = point.x - node.x;
+    const dy = point.y - node.y;
+    node.x = point.x;
+    node.y = point.y;
+    if (node.handleIn) node.handleIn = { x: node.handleIn.x + dx, y: node.handleIn.y + dy };
+    if (node.handleOut) node.handleOut = { x: node.handleOut.x + dx, y: node.handleOut.y + dy };
+  } else {
+    node[ref.part] = { x: point.x, y: point.y };
+  }
+}
+
+interface OverlayOptions {
+  selected?: NodeRef | null;
+  // Pointer position for the rubber-band segment while placing pen points
+  preview?: PathPoint | null;
+  drawOutline?: boolean;
+}
+
+// Draw anchors, handles and (optionally) the path outline; all points are mapped through `toScreen`
+export function drawPathOverlay(
+  ctx: CanvasRenderingContext2D,
+  contours: PathContour[],
+  toScreen: (p: PathPoint) => PathPoint,
+  { selected = null, preview = null, drawOutline = true }: OverlayOptions = {}
+) {
+  ctx.save();
+  ctx.lineWidth = 1;
+  ctx.strokeStyle = '#007bff';
+
+  if (drawOutline) {
+    contours.forEach(contour => {
+      if (contour.nodes.length === 0) return;
+      ctx.beginPath();
+      const start = toScreen(contour.nodes[0]);
+      ctx.moveTo(start.x, start.y);
+      for (let segment = 0; segment < segmentCount(contour); segment++) {
+        const [, p1, p2, p3] = segmentPoints(contour, segment).map(toScreen);
+        ctx.bezierCurveTo(p1.x, p1.y, p2.x, p2.y, p3.x, p3.y);
+      }
+      ctx.stroke();
+    });
+  }
+
+  const lastContour = contours[contours.length - 1];
+  const lastNode = lastContour?.nodes[lastContour.nodes.length - 1];
+  if (preview && lastNode) {
+    const from = toScreen(lastNode);
+    const control = toScreen(lastNode.handleOut || lastNode);
+    const to = toScreen(preview);
+    ctx.setLineDash([4, 4]);
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.quadraticCurveTo(control.x, control.y, to.x, to.y);
+    ctx.stroke();
+    ctx.setLineDash([]);
+  }
+
+  contours.forEach((contour, contourIndex) => {
+    contour.nodes.forEach((node, nodeIndex) => {
+      const anchor = toScreen(node);
+      const isSelectedNode = selected?.contour === contourIndex && selected.node === nodeIndex;
+
+      (['handleIn', 'handleOut'] as const).forEach(part => {
+        const handle = node[part];
+        if (!handle) return;
+        const screen = toScreen(handle);
+        ctx.beginPath();
+        ctx.moveTo(anchor.x, anchor.y);
+        ctx.lineTo(screen.x, screen.y);
+        ctx.stroke();
+        ctx.beginPath();
+        ctx.arc(screen.x, screen.y, 3.5, 0, Math.PI * 2);
+        ctx.fillStyle = isSelectedNode && selected!.part === part ? '#007bff' : '#ffffff';
+        ctx.fill();
+        ctx.stroke();
+      });
+
+      ctx.fillStyle = isSelectedNode ? '#007bff' : '#ffffff';
+      ctx.fillRect(anchor.x - 4, anchor.y - 4, 8, 8);
+      ctx.strokeRect(anchor.x - 4, anchor.y - 4, 8, 8);
+    });
+  });
+
+  ctx.restore();
+}
+
+// Map points through a transform matrix, e.g. from canvas coordinates to the screen via the viewport
+export function createPointMapper(matrix: number[]): (p: PathPoint) => PathPoint {
+  return p => fabric.util.transformPoint(new fabric.Point(p.x, p.y), matrix);
+}
@@ -0,0 +1,498 @@
+// Client-side PDF export built from the Fabric object model. Shapes, paths and text are
+// written as PDF vector operators with embedded fonts; images are embedded as PNGs, and
+// object types without a vector mapping fall back to a rasterized copy.
+import { fabric } from 'fabric';
+import fontkit from '@pdf-lib/fontkit';
+import {
+  LineCapStyle,
+  PDFDocument,
+  PDFFont,
+  PDFPage,
+  StandardFonts,
+  clip,
+  concatTransformationMatrix,
+  endPath,
+  popGraphicsState,
+  pushGraphicsState,
+  rectangle,
+  rgb,
+  type RGB
+} from 'pdf-lib';
+import { getFontInfo } from '@/utils/fontLoader';
+import type { DesignPage } from '@/utils/designDocument';
+import { getRegularPolygonPoints, getStarPoints } from './fabricShapes';
+import { isPaintServer } from './fillStyles';
+
+export interface PdfExportOptions {
+  // Extra artwork area around each page, in millimetres
+  bleed: number;
+  cropMarks: boolean;
+}
+
+export const DEFAULT_PDF_EXPORT: PdfExportOptions = {
+  bleed: 0,
+  cropMarks: false,
+};
+
+// Canvas pixels are treated as CSS pixels (96 per inch); PDF units are points (72 per inch)
+const POINTS_PER_PIXEL = 72 / 96;
+const POINTS_PER_MM = 72 / 25.4;
+const CROP_MARK_OFFSET = 3;
+const CROP_MARK_LENGTH = 12;
+const CROP_MARK_WIDTH = 0.25;
+// Resolution of the rasterized fallback for objects without a vector mapping
+const RASTER_FALLBACK_MULTIPLIER = 2;
+
+type Matrix = [number, number, number, number, number, number];
+
+interface RenderContext {
+  doc: PDFDocument;
+  page: PDFPage;
+  fonts: FontCache;
+}
+
+interface PdfColor {
+  color: RGB;
+  alpha: number;
+}
+
+function parseColor(value: unknown): PdfColor | null {
+  // Gradients are approximated by their first stop
+  const source = value instanceof fabric.Gradient ? value.colorStops?.[0]?.color : value;
+  if (typeof source !== 'string' || !source || source === 'none' || source === 'transparent') return null;
+
+  const [r, g, b, a] = new fabric.Color(source).getSource();
+  return { color: rgb(r / 255, g / 255, b / 255), alpha: a ?? 1 };
+}
+
+const LINE_CAPS: Record<string, LineCapStyle> = {
+  butt: LineCapStyle.Butt,
+  round: LineCapStyle.Round,
+  square: LineCapStyle.Projecting,
+};
+
+// ---- Fonts ----
+
+class FontCache {
+  private fonts = new Map<string, Promise<PDFFont>>();
+
+  constructor(private doc: PDFDocument) {}
+
+  get(family: string, bold: boolean, italic: boolean): Promise<PDFFont> {
+    const key = `${family}|${bold}|${italic}`;
+    if (!this.fonts.has(key)) {
+      this.fonts.set(key, this.load(family, bold, italic));
+    }
+    return this.fonts.get(key)!;
+  }
+
+  // Embed the editor's (or an uploaded) font file, or fall back to the closest standard PDF font
+  private async load(family: string, bold: boolean, italic: boolean): Promise<PDFFont> {
+    const info = getFontInfo(family);
+    if (info) {
+      try {
+        const response = await fetch(info.url);
+        const bytes = response.ok ? new Uint8Array(await response.arrayBuffer()) : null;
+        if (bytes && bytes.length > 0) {
+          return await this.doc.embedFont(bytes, { subset: true });
+        }
+      } catch (error) {
+        console.warn(`Could not embed font "${family}", using a standard PDF font instead:`, error);
+      }
+    }
+    return this.doc.embedFont(getStandardFont(info?.fallback || family, bold, italic));
+  }
+}
+
+function getStandardFont(family: string, bold: boolean, italic: boolean): StandardFonts {
+  const name = family.toLowerCase();
+  if (name.includes('monospace') || name.includes('courier')) {
+    return bold
+      ? (italic ? StandardFonts.CourierBoldOblique : StandardFonts.CourierBold)
+      : (italic ? StandardFonts.CourierOblique : StandardFonts.Courier);
+  }
+  if ((name.includes('serif') && !name.includes('sans-serif')) || name.includes('times')) {
+    return bold
+      ? (italic ? StandardFonts.TimesRomanBoldItalic : StandardFonts.TimesRomanBold)
+      : (italic ? StandardFonts.TimesRomanItalic : StandardFonts.TimesRoman);
+  }
+  return bold
+    ? (italic ? StandardFonts.HelveticaBoldOblique : StandardFonts.HelveticaBold)
+    : (italic ? StandardFonts.HelveticaOblique : StandardFonts.Helvetica);
+}
+
+// Standard fonts only cover WinAnsi; replace anything they can't encode
+function toEncodableText(font: PDFFont, text: string): string {
+  const supported = new Set(font.getCharacterSet());
+  return Array.from(text)
+    .map(char => (supported.has(char.codePointAt(0)!) ? char : '?'))
+    .join('');
+}
+
+// ---- Geometry: SVG path data in the object's own centred coordinate space ----
+
+function pointsToPath(points: { x: number; y: number }[], closed: boolean): string {
+  const d = points.map((point, i) => `${i === 0 ? 'M' : 'L'} ${point.x} ${point.y}`).join(' ');
+  return closed ? `${d} Z` : d;
+}
+
+function rectPath(rect: fabric.Rect): string {
+  const width = rect.width || 0;
+  const height = rect.height || 0;
+  const x = -width / 2;
+  const y = -height / 2;
+  const rx = Math.min(rect.rx || 0, width / 2);
+  const ry = Math.min(rect.ry || 0, height / 2);
+
+  if (!rx || !ry) {
+    return `M ${x} ${y} H ${x + width} V ${y + height} H ${x} Z`;
+  }
+  return [
+    `M ${x + rx} ${y}`,
+    `H ${x + width - rx}`,
+    `A ${rx} ${ry} 0 0 1 ${x + width} ${y + ry}`,
+    `V ${y + height - ry}`,
+    `A ${rx} ${ry} 0 0 1 ${x + width - rx} ${y + height}`,
+    `H ${x + rx}`,
+    `A ${rx} ${ry} 0 0 1 ${x} ${y + height - ry}`,
+    `V ${y + ry}`,
+    `A ${rx} ${ry} 0 0 1 ${x + rx} ${y}`,
+    'Z',
+  ].join(' ');
+}
+
+function ellipsePath(rx: number, ry: number): string {
+  return `M ${-rx} 0 A ${rx} ${ry} 0 1 0 ${rx} 0 A ${rx} ${ry} 0 1 0 ${-rx} 0 Z`;
+}
+
+function fabricPathToSvg(path: fabric.Path): string {
+  const offset = (path as any).pathOffset || { x: 0, y: 0 };
+  const commands = ((path as any).path || []) as (string | number)[][];
+
+  return commands.map(([command, ...values]) => {
+    const coords = (values as number[]).map((value, i) => value - (i % 2 === 0 ? offset.x : offset.y));
+    return `${command} ${coords.join(' ')}`.trim();
+  }).join(' ');
+}
+
+// Vector outline and whether it can be filled, or null when the type has no vector mapping
+function getObjectPath(object: fabric.Object): { d: string; fillable: boolean } | null {
+  const shape = object as any;
+  switch (object.type) {
+    case 'rect':
+      return { d: rectPath(object as fabric.Rect), fillable: true };
+    case 'circle':
+      return { d: ellipsePath(shape.radius || 0, shape.radius || 0), fillable: true };
+    case 'ellipse':
+      return { d: ellipsePath(shape.rx || 0, shape.ry || 0), fillable: true };
+    case 'triangle': {
+      const w = (object.width || 0) / 2;
+      const h = (object.height || 0) / 2;
+      return { d: `M ${-w} ${h} L 0 ${-h} L ${w} ${h} Z`, fillable: true };
+    }
+    case 'polygon':
+    case 'polyline': {
+      const offset = shape.pathOffset || { x: 0, y: 0 };
+      const points = (shape.points || []).map((p: fabric.Point) => ({ x: p.x - offset.x, y: p.y - offset.y }));
+      return { d: pointsToPath(points, object.type === 'polygon'), fillable: true };
+    }
+    case 'regularPolygon':
+      return { d: pointsToPath(getRegularPolygonPoints(shape.sides, object.width || 0, object.height || 0), true), fillable: true };
+    case 'star':
+      return { d: pointsToPath(getStarPoints(shape.starPoints, shape.innerRadius, object.width || 0, object.height || 0), true), fillable: true };
+    case 'line':
+    case 'arrow': {
+      const p = shape.calcLinePoints();
+      return { d: `M ${p.x1} ${p.y1} L ${p.x2} ${p.y2}`, fillable: false };
+    }
+    case 'path':
+      return { d: fabricPathToSvg(object as fabric.Path), fillable: true };
+    default:
+      return null;
+  }
+}
+
+// ---- Drawing ----
+
+function withTransform(page: PDFPage, matrix: Matrix, draw: () => void) {
+  page.pushOperators(pushGraphicsState(), concatTransformationMatrix(...matrix));
+  draw();
+  page.pushOperators(popGraphicsState());
+}
+
+// pdf-lib's drawing helpers assume a y-up space; flip back so they render upright
+const FLIP_Y: Matrix = [1, 0, 0, -1, 0, 0];
+
+function drawVectorPath(page: PDFPage, object: fabric.Object, d: string, fillable: boolean, opacity: number) {
+  const fill = fillable ? parseColor(object.fill) : null;
+  const stroke = object.strokeWidth ? parseColor(object.stroke) : null;
+  if (!fill && !stroke) return;
+
+  withTransform(page, FLIP_Y, () => {
+    page.drawSvgPath(d, {
+      x: 0,
+      y: 0,
+      color: fill?.color,
+      opacity: fill ? fill.alpha * opacity : undefined,
+      borderColor: stroke?.color,
+      borderOpacity: stroke ? stroke.alpha * opacity : undefined,
+      borderWidth: stroke ? object.strokeWidth : undefined,
+      borderDashArray: stroke && object.strokeDashArray ? object.strokeDashArray : undefined,
+      borderLineCap: stroke ? LINE_CAPS[object.strokeLineCap || 'butt'] : undefined,
+    });
+  });
+}
+
+function drawArrowHeads(page: PDFPage, arrow: any, opacity: number) {
+  const stroke = parseColor(arrow.stroke);
+  if (!stroke) return;
+
+  withTransform(page, FLIP_Y, () => {
+    arrow.getArrowHeads().forEach((head: fabric.Point[]) => {
+      page.drawSvgPath(pointsToPath(head, true), {
+        x: 0,
+        y: 0,
+        color: stroke.color,
+        opacity: stroke.alpha * opacity,
+      });
+    });
+  });
+}
+
+// drawText writes each line in a single font and color; richer text is rasterized instead
+function isPlainText(text: fabric.Text): boolean {
+  const shape = text as any;
+  return !shape.path && !text.charSpacing && !(text.stroke && text.strokeWidth) && shape.isEmptyStyles();
+}
+
+async function drawText(context: RenderContext, text: fabric.Text, opacity: number) {
+  const fill = parseColor(text.fill);
+  if (!fill) return;
+
+  const shape = text as any;
+  const font = await context.fonts.get(
+    text.fontFamily || 'Arial',
+    text.fontWeight === 'bold' || Number(text.fontWeight) >= 600,
+    text.fontStyle === 'italic' || text.fontStyle === 'oblique'
+  );
+  const fontSize = text.fontSize || 16;
+  const lineHeight = text.lineHeight || 1;
+  const left = shape._getLeftOffset();
+  let top = shape._getTopOffset();
+
+  withTransform(context.page, FLIP_Y, () => {
+    text.textLines.forEach((line, i) => {
+      const heightOfLine = text.getHeightOfLine(i);
+      const maxHeight = heightOfLine / lineHeight;
+      // Same baseline Fabric uses when it renders the line
+      const baseline = top + maxHeight * (1 - shape._fontSizeFraction);
+      const x = left + text._getLineLeftOffset(i);
+      const content = toEncodableText(font, line);
+      top += heightOfLine;
+
+      if (content.trim()) {
+        context.page.drawText(content, {
+          x,
+          y: -baseline,
+          size: fontSize,
+          font,
+          color: fill.color,
+          opacity: fill.alpha * opacity,
+        });
+      }
+
+      // Decorations, at the offsets Fabric draws them
+      const lineWidth = text.getLineWidth(i);
+      const thickness = fontSize / 15;
+      const decorations = [
+        text.underline && 0.1,
+        text.linethrough && -0.315,
+        text.overline && -0.88,
+      ].filter((offset): offset is number => typeof offset === 'number');
+      decorations.forEach(offset => {
+        context.page.drawRectangle({
+          x,
+          y: -(baseline + offset * fontSize) - thickness / 2,
+          width: lineWidth,
+          height: thickness,
+          color: fill.color,
+          opacity: fill.alpha * opacity,
+        });
+      });
+    });
+  });
+}
+
+function elementToPng(image: fabric.Image): string {
+  const element = image.getElement() as HTMLImageElement | HTMLCanvasElement;
+  const width = Math.max(1, Math.round(image.width || 1));
+  const height = Math.max(1, Math.round(image.height || 1));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext('2d')!.drawImage(element, image.cropX || 0, image.cropY || 0, width, height, 0, 0, width, height);
+  return canvas.toDataURL('image/png');
+}
+
+// Place a PNG data URL centred on the object's origin, width x height in object units
+async function drawPng(context: RenderContext, dataURL: string, width: number, height: number, opacity: number) {
+  const image = await context.doc.embedPng(dataURL);
+  withTransform(context.page, FLIP_Y, () => {
+    context.page.drawImage(image, { x: -width / 2, y: -height / 2, width, height, opacity });
+  });
+}
+
+async function drawRasterFallback(context: RenderContext, object: fabric.Object, opacity: number) {
+  const dataURL = object.toDataURL({ format: 'png', withoutTransform: true, multiplier: RASTER_FALLBACK_MULTIPLIER });
+  const image = await context.doc.embedPng(dataURL);
+  const width = image.width / RASTER_FALLBACK_MULTIPLIER;
+  const height = image.height / RASTER_FALLBACK_MULTIPLIER;
+  withTransform(context.page, FLIP_Y, () => {
+    context.page.drawImage(image, { x: -width / 2, y: -height / 2, width, height, opacity });
+  });
+}
+
+async function drawObject(context: RenderContext, object: fabric.Object, parentOpacity: number) {
+  if (object.visible === false) return;
+
+  const opacity = parentOpacity * (object.opacity ?? 1);
+  const matrix = object.calcOwnMatrix() as Matrix;
+  context.page.pushOperators(pushGraphicsState(), concatTransformationMatrix(...matrix));
+
+  try {
+    // Masks (clip paths), shadows and gradient or pattern paints aren't translated to PDF, so
+    // those objects are rasterized
+    const rasterize = !!object.clipPath || !!object.shadow ||
+      (object.type !== 'group' && (isPaintServer(object.fill) || isPaintServer(object.stroke)));
+    const path = rasterize ? null : getObjectPath(object);
+    if (rasterize) {
+      await drawRasterFallback(context, object, opacity);
+    } else if (object.type === 'group') {
+      for (const child of (object as fabric.Group).getObjects()) {
+        await drawObject(context, child, opacity);
+      }
+    } else if (object.type === 'textbox' || object.type === 'i-text' || object.type === 'text') {
+      if (isPlainText(object as fabric.Text)) {
+        await drawText(context, object as fabric.Text, opacity);
+      } else {
+        await drawRasterFallback(context, object, opacity);
+      }
+    } else if (object.type === 'image') {
+      await drawPng(context, elementToPng(object as fabric.Image), object.width || 0, object.height || 0, opacity);
+    } else if (path) {
+      drawVectorPath(context.page, object, path.d, path.fillable, opacity);
+      if (object.type === 'arrow') drawArrowHeads(context.page, object, opacity);
+    } else {
+      await drawRasterFallback(context, object, opacity);
+    }
+  } finally {
+    context.page.pushOperators(popGraphicsState());
+  }
+}
+
+function drawCropMarks(page: PDFPage, trim: { x: number; y: number; width: number; height: number }, bleed: number) {
+  const offset = bleed + CROP_MARK_OFFSET;
+  const options = { thickness: CROP_MARK_WIDTH, color: rgb(0, 0, 0) };
+  const xs = [trim.x, trim.x + trim.width];
+  const ys = [trim.y, trim.y + trim.height];
+
+  xs.forEach((x, xi) => {
+    ys.forEach((y, yi) => {
+      const dx = xi === 0 ? -1 : 1;
+      const dy = yi === 0 ? -1 : 1;
+      // Horizontal mark in line with the trim edge, vertical mark below/above it
+      page.drawLine({ ...options, start: { x: x + dx * offset, y }, end: { x: x + dx * (offset + CROP_MARK_LENGTH), y } });
+      page.drawLine({ ...options, start: { x, y: y + dy * offset }, end: { x, y: y + dy * (offset + CROP_MARK_LENGTH) } });
+    });
+  });
+}
+
+function loadPageCanvas(page: DesignPage): Promise<fabric.StaticCanvas> {
+  return new Promise(resolve => {
+    const canvas = new fabric.StaticCanvas(null, {
+      width: page.width,
+      height: page.height,
+      enableRetinaScaling: false
+    });
+    canvas.loadFromJSON(page.canvasData, () => resolve(canvas));
+  });
+}
+
+export async function exportPagesToPdf(pages: DesignPage[], options: Partial<PdfExportOptions> = {}): Promise<Uint8Array> {
+  const settings = { ...DEFAULT_PDF_EXPORT, ...options };
+  const doc = await PDFDocument.create();
+  doc.registerFontkit(fontkit);
+  doc.setCreator('Walrus Canvas');
+  const fonts = new FontCache(doc);
+
+  const bleed = Math.max(0, settings.bleed) * POINTS_PER_MM;
+  const margin = bleed + (settings.cropMarks ? CROP_MARK_OFFSET + CROP_MARK_LENGTH : 0);
+
+  for (const designPage of pages) {
+    const canvas = await loadPageCanvas(designPage);
+    try {
+      const trim = {
+        x: margin,
+        y: margin,
+        width: canvas.getWidth() * POINTS_PER_PIXEL,
+        height: canvas.getHeight() * POINTS_PER_PIXEL
+      };
+      const page = doc.addPage([trim.width + margin * 2, trim.height + margin * 2]);
+      page.setTrimBox(trim.x, trim.y, trim.width, trim.height);
+      page.setBleedBox(trim.x - bleed, trim.y - bleed, trim.width + bleed * 2, trim.height + bleed * 2);
+
+      // Artwork is clipped to the bleed box so it never runs into the crop marks
+      page.pushOperators(
+        pushGraphicsState(),
+        rectangle(trim.x - bleed, trim.y - bleed, trim.width + bleed * 2, trim.height + bleed * 2),
+        clip(),
+        endPath()
+      );
+
+      const background = parseColor(canvas.backgroundColor);
+      if (isPaintServer(canvas.backgroundColor)) {
+        // Gradient and pattern backgrounds are rasterized at page size and stretched over the bleed
+        const backdrop = new fabric.Rect({
+          width: canvas.getWidth(),
+          height: canvas.getHeight(),
+          fill: canvas.backgroundColor as any,
+          strokeWidth: 0
+        });
+        const image = await doc.embedPng(backdrop.toDataURL({ format: 'png', multiplier: RASTER_FALLBACK_MULTIPLIER }));
+        page.drawImage(image, {
+          x: trim.x - bleed,
+          y: trim.y - bleed,
+          width: trim.width + bleed * 2,
+          height: trim.height + bleed * 2,
+        });
+      } else if (background) {
+        page.drawRectangle({
+          x: trim.x - bleed,
+          y: trim.y - bleed,
+          width: trim.width + bleed * 2,
+          height: trim.height + bleed * 2,
+          color: background.color,
+          opacity: background.alpha,
+        });
+      }
+
+      // From here on, draw in canvas pixels with the origin at the trim box's top-left corner
+      page.pushOperators(concatTransformationMatrix(
+        POINTS_PER_PIXEL, 0, 0, -POINTS_PER_PIXEL, trim.x, trim.y + trim.height
+      ));
+      const context: RenderContext = { doc, page, fonts };
+      for (const object of canvas.getObjects()) {
+        await drawObject(context, object, 1);
+      }
+      page.pushOperators(popGraphicsState());
+
+      if (settings.cropMarks) {
+        drawCropMarks(page, trim, bleed);
+      }
+    } finally {
+      canvas.dispose();
+    }
+  }
+
+  return doc.save();
+}
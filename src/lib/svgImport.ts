@@ -0,0 +1,113 @@
+// SVG import: parses markup with Fabric's SVG loader into editable canvas objects and
+// reports the SVG features Fabric can't reproduce instead of dropping them silently.
+import { fabric } from 'fabric';
+
+export interface SvgImportResult {
+  // A group of the imported objects, or the object itself when the SVG has only one
+  object: fabric.Object;
+  objectCount: number;
+  warnings: string[];
+}
+
+// Elements Fabric's parser ignores or only partly understands
+const UNSUPPORTED_ELEMENTS: { selector: string; message: string }[] = [
+  { selector: 'filter', message: 'Filter effects (blur, drop shadow, etc.) were ignored' },
+  { selector: 'mask', message: 'Masks were ignored; masked content is shown unmasked' },
+  { selector: 'foreignObject', message: 'Embedded HTML (foreignObject) was skipped' },
+  { selector: 'textPath', message: 'Text on a path is not supported and may be missing' },
+  { selector: 'marker', message: 'Path markers (e.g. arrowheads) were ignored' },
+  { selector: 'animate, animateMotion, animateTransform, set', message: 'Animations were ignored; the static image was imported' },
+  { selector: 'script', message: 'Scripts were ignored' },
+];
+
+const SVG_MIME_TYPE = 'image/svg+xml';
+
+export function isSvgMarkup(text: string): boolean {
+  return /^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*(<!DOCTYPE[^>]*>\s*)?<svg[\s>]/i.test(text);
+}
+
+function parseSvgDocument(markup: string): Document {
+  const doc = new DOMParser().parseFromString(markup, SVG_MIME_TYPE);
+  if (doc.getElementsByTagName('parsererror').length > 0 || doc.documentElement.nodeName.toLowerCase() !== 'svg') {
+    throw new Error('The file is not valid SVG');
+  }
+  return doc;
+}
+
+export function analyzeSvg(doc: Document): string[] {
+  const warnings: string[] = [];
+
+  UNSUPPORTED_ELEMENTS.forEach(({ selector, message }) => {
+    const count = doc.querySelectorAll(selector).length;
+    if (count > 0) warnings.push(`${message} (${count} found)`);
+  });
+
+  // Filters and masks can also be referenced from CSS without a local definition
+  const styled = Array.from(doc.querySelectorAll('[style]'))
+    .filter(element => /(^|;)\s*(filter|mask)\s*:/.test(element.getAttribute('style') || ''));
+  if (styled.length > 0 && doc.querySelectorAll('filter, mask').length === 0) {
+    warnings.push(`Filter or mask styles were ignored (${styled.length} found)`);
+  }
+
+  const externalImages = Array.from(doc.querySelectorAll('image')).filter(image => {
+    const href = image.getAttribute('href') || image.getAttribute('xlink:href') || '';
+    return href !== '' && !href.startsWith('data:');
+  });
+  if (externalImages.length > 0) {
+    warnings.push(`Linked images may not load or export (${externalImages.length} found); embed them in the SVG instead`);
+  }
+
+  return warnings;
+}
+
+// SVG text is parsed as static fabric.Text; swap in IText so it can be edited on canvas
+function toEditableText(object: fabric.Object): fabric.Object {
+  if (object.type !== 'text') return object;
+
+  const properties = object.toObject();
+  delete properties.type;
+  return new fabric.IText((object as fabric.Text).text || '', properties);
+}
+
+export function loadSvgObjects(markup: string): Promise<SvgImportResult> {
+  let warnings: string[];
+  try {
+    warnings = analyzeSvg(parseSvgDocument(markup));
+  } catch (error) {
+    return Promise.reject(error);
+  }
+
+  return new Promise((resolve, reject) => {
+    fabric.loadSVGFromString(markup, (results, options) => {
+      const objects = (results as (fabric.Object | null)[])
+        .filter((object): object is fabric.Object => !!object)
+        .map(toEditableText);
+
+      if (objects.length === 0) {
+        reject(new Error('The SVG contains no shapes that can be imported'));
+        return;
+      }
+
+      resolve({
+        object: fabric.util.groupSVGElements(objects, options),
+        objectCount: objects.length,
+        warnings
+      });
+    });
+  });
+}
+
+// SVG from a paste event, as a copied file or as markup in the text payload
+export function readClipboardSvg(data: DataTransfer | null): Promise<string> | null {
+  const file = Array.from(data?.items || [])
+    .find(item => item.kind === 'file' && item.type === SVG_MIME_TYPE)
+    ?.getAsFile();
+  if (file) return file.text();
+
+  const text = data?.getData('text/plain') || '';
+  return isSvgMarkup(text) ? Promise.resolve(text) : null;
+}
+
+export function isSvgFile(file: File): boolean {
+  return file.type === SVG_MIME_TYPE || file.name.toLowerCase().endsWith('.svg');
+}
@@ -0,0 +1,226 @@
+// Typography helpers for text objects: per-character styles, lists, curved baselines and
+// shrink-to-fit. The layout options are kept as custom properties (listStyle, textCurve,
+// textFit) so they serialize with the text and can be re-applied whenever it is edited.
+import { fabric } from 'fabric';
+
+export const TEXT_OBJECT_TYPES = ['text', 'i-text', 'textbox'];
+
+export interface CharacterStyle {
+  fontWeight: string;
+  fontStyle: string;
+  underline: boolean;
+  linethrough: boolean;
+  fill: string;
+}
+
+export type ListStyle = 'none' | 'bullet' | 'numbered';
+
+export interface TextFit {
+  // Height of the fixed box the text is shrunk to fit in
+  height: number;
+  // Largest font size to use, i.e. the size before fitting started
+  fontSize: number;
+}
+
+type LayoutText = fabric.Text & {
+  // Fabric supports text on a path but its typings don't declare it
+  path?: fabric.Path;
+  listStyle?: ListStyle;
+  textCurve?: number;
+  textFit?: TextFit;
+};
+
+export const LIST_STYLES: { value: ListStyle; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'bullet', label: 'Bullets' },
+  { value: 'numbered', label: 'Numbers' },
+];
+
+// A marker this module added (or a user typed) at the start of a line
+const LIST_MARKER = /^(•\s|\d+[.)]\s)/;
+
+// Curve of ±100 bends the text almost into a full circle
+const MAX_CURVE_ANGLE = Math.PI * 2 * 0.95;
+
+const MIN_FIT_FONT_SIZE = 6;
+
+export function isTextObject(object: fabric.Object | null | undefined): object is fabric.Text {
+  return !!object && TEXT_OBJECT_TYPES.includes(object.type || '');
+}
+
+// Character styles apply to the selected characters while editing, otherwise to the whole text
+export function hasTextSelection(text: fabric.Text): text is fabric.IText {
+  return text instanceof fabric.IText && text.isEditing === true &&
+    (text.selectionStart || 0) !== (text.selectionEnd || 0);
+}
+
+export function getCharacterStyle(text: fabric.Text): CharacterStyle {
+  const base: CharacterStyle = {
+    fontWeight: String(text.fontWeight || 'normal'),
+    fontStyle: text.fontStyle || 'normal',
+    underline: !!text.underline,
+    linethrough: !!text.linethrough,
+    fill: typeof text.fill === 'string' ? text.fill : '#000000'
+  };
+  if (!hasTextSelection(text)) return base;
+
+  // The first selected character stands for the selection, like most editors show it
+  const start = text.selectionStart || 0;
+  const [style = {}] = text.getSelectionStyles(start, start + 1, true) as Partial<CharacterStyle>[];
+  return {
+    fontWeight: String(style.fontWeight ?? base.fontWeight),
+    fontStyle: style.fontStyle ?? base.fontStyle,
+    underline: style.underline ?? base.underline,
+    linethrough: style.linethrough ?? base.linethrough,
+    fill: typeof style.fill === 'string' ? style.fill : base.fill
+  };
+}
+
+export function applyCharacterStyle(text: fabric.Text, updates: Partial<CharacterStyle>): void {
+  if (hasTextSelection(text)) {
+    text.setSelectionStyles(updates, text.selectionStart, text.selectionEnd);
+  } else {
+    text.set(updates as Partial<fabric.Text>);
+    // Whole-text changes replace any per-character overrides of the same property
+    Object.keys(updates).forEach(key => (text as any).removeStyle(key));
+  }
+  text.initDimensions();
+  text.setCoords();
+  text.dirty = true;
+}
+
+export function getListStyle(text: fabric.Text): ListStyle {
+  return (text as LayoutText).listStyle || 'none';
+}
+
+// Prefix every non-empty line with a bullet or its number, replacing existing markers
+export function applyListStyle(text: fabric.Text, style: ListStyle): void {
+  const lines = (text.text || '').split('\n');
+  let number = 0;
+  const markers = lines.map(line => {
+    if (!line.replace(LIST_MARKER, '').trim() || style === 'none') return '';
+    number++;
+    return style === 'bullet' ? '• ' : `${number}. `;
+  });
+
+  if (text instanceof fabric.IText) {
+    // Edit through insertChars/removeChars so per-character styles move with their text;
+    // working from the last line keeps the earlier line offsets valid
+    const graphemeLength = (value: string) => fabric.util.string.graphemeSplit(value).length;
+    const starts: number[] = [];
+    lines.reduce((offset, line) => {
+      starts.push(offset);
+      return offset + graphemeLength(line) + 1;
+    }, 0);
+
+    for (let i = lines.length - 1; i >= 0; i--) {
+      const existing = lines[i].match(LIST_MARKER)?.[0] || '';
+      if (existing === markers[i]) continue;
+      if (existing) text.removeChars(starts[i], starts[i] + graphemeLength(existing));
+      if (markers[i]) text.insertChars(markers[i], undefined, starts[i]);
+    }
+  } else {
+    text.set('text', lines.map((line, i) => markers[i] + line.replace(LIST_MARKER, '')).join('\n'));
+  }
+
+  text.set({ listStyle: style === 'none' ? undefined : style } as Partial<LayoutText>);
+  text.setCoords();
+  text.dirty = true;
+}
+
+export function getTextCurve(text: fabric.Text): number {
+  return (text as LayoutText).textCurve || 0;
+}
+
+// Curving lays a single line of text along an arc; wrapped or multi-line text stays flat
+export function canCurveText(text: fabric.Text): boolean {
+  return !(text.text || '').includes('\n') && text.textLines.length <= 1;
+}
+
+export function setTextCurve(text: fabric.Text, curve: number): void {
+  text.set({ textCurve: curve || undefined } as Partial<LayoutText>);
+  layoutCurve(text);
+}
+
+// An arc as long as the flat line, bulging up for a positive curve and down for a negative one
+function layoutCurve(text: fabric.Text): void {
+  const curve = getTextCurve(text);
+  if ((text as LayoutText).path) text.set({ path: undefined } as Partial<LayoutText>);
+  if (!curve || !canCurveText(text)) return;
+
+  const length = text.getLineWidth(0);
+  if (!length) return;
+  const angle = (Math.min(100, Math.abs(curve)) / 100) * MAX_CURVE_ANGLE;
+  const radius = length / angle;
+  const x = radius * Math.sin(angle / 2);
+  const rise = radius * (1 - Math.cos(angle / 2));
+  const largeArc = angle > Math.PI ? 1 : 0;
+  const d = curve > 0
+    ? `M ${-x} ${rise} A ${radius} ${radius} 0 ${largeArc} 1 ${x} ${rise}`
+    : `M ${-x} ${-rise} A ${radius} ${radius} 0 ${largeArc} 0 ${x} ${-rise}`;
+
+  text.set({ path: new fabric.Path(d, { visible: false }) } as Partial<LayoutText>);
+  text.setCoords();
+}
+
+export function getTextFit(text: fabric.Text): TextFit | null {
+  return (text as LayoutText).textFit || null;
+}
+
+// Shrink-to-fit only makes sense for wrapping text in a box of its own
+export function canFitText(text: fabric.Text): boolean {
+  return text.type === 'textbox' && !getTextCurve(text);
+}
+
+export function setTextFit(text: fabric.Text, fit: TextFit | null): void {
+  const previous = getTextFit(text);
+  if (!fit && previous) {
+    text.set('fontSize', previous.fontSize);
+  }
+  text.set({ textFit: fit || undefined } as Partial<LayoutText>);
+  fitText(text);
+}
+
+// Largest font size, up to the fit's own, at which the wrapped text fits the box height
+// without any word being wider than the box
+function fitText(text: fabric.Text): void {
+  const fit = getTextFit(text);
+  if (!fit || !canFitText(text)) return;
+
+  const width = text.width || 0;
+  const fits = (fontSize: number) => {
+    // Textbox widens itself for words that don't fit; undo that before judging
+    text.set({ fontSize, width });
+    return (text.width || 0) <= width + 0.5 && (text.height || 0) <= fit.height + 0.5;
+  };
+
+  let best = MIN_FIT_FONT_SIZE;
+  if (fits(fit.fontSize)) {
+    best = fit.fontSize;
+  } else {
+    let low = MIN_FIT_FONT_SIZE;
+    let high = fit.fontSize;
+    while (high - low > 0.5) {
+      const mid = (low + high) / 2;
+      if (fits(mid)) low = mid;
+      else high = mid;
+    }
+    best = Math.floor(low * 2) / 2;
+  }
+
+  text.set({ fontSize: best, width });
+  text.setCoords();
+  text.dirty = true;
+}
+
+// Re-apply list markers, fitting and curving after the text or its size changed
+export function refreshTextLayout(text: fabric.Text, { lists = false } = {}): void {
+  const listStyle = getListStyle(text);
+  if (lists && listStyle !== 'none') applyListStyle(text, listStyle);
+  if (getTextFit(text)) fitText(text);
+  if (getTextCurve(text)) layoutCurve(text);
+}
+
+export function hasTextLayout(text: fabric.Text): boolean {
+  return getListStyle(text) !== 'none' || !!getTextFit(text) || !!getTextCurve(text);
+}
@@ -0,0 +1,65 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import type { BrandLogo, BrandPalette } from '@/utils/brandKit';
+import type { DesignFont } from '@/utils/designDocument';
+
+export interface IBrandKit extends Document {
+  walletAddress: string;
+  palettes: BrandPalette[];
+  headingFont: string;
+  bodyFont: string;
+  fonts: DesignFont[];
+  logos: BrandLogo[];
+  walrusBlobId?: string;
+  walrusBackupAt?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const BrandKitSchema = new Schema<IBrandKit>({
+  walletAddress: {
+    type: String,
+    required: true,
+    unique: true,
+    index: true
+  },
+  palettes: [{
+    _id: false,
+    id: { type: String, required: true },
+    name: { type: String, required: true, trim: true },
+    colors: [{ type: String }]
+  }],
+  headingFont: {
+    type: String,
+    required: true
+  },
+  bodyFont: {
+    type: String,
+    required: true
+  },
+  fonts: [{
+    _id: false,
+    family: { type: String, required: true },
+    source: { type: String, required: true },
+    category: { type: String, required: false }
+  }],
+  logos: [{
+    _id: false,
+    id: { type: String, required: true },
+    name: { type: String, required: true },
+    source: { type: String, required: true }
+  }],
+  walrusBlobId: {
+    type: String,
+    required: false
+  },
+  walrusBackupAt: {
+    type: String,
+    required: false
+  }
+}, {
+  timestamps: true, // Automatically adds createdAt and updatedAt
+  collection: 'brand_kits'
+});
+
+// Export the model
+export const BrandKit = mongoose.models.BrandKit || mongoose.model<IBrandKit>('BrandKit', BrandKitSchema);
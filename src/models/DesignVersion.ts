@@ -0,0 +1,73 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import type { IUserDesign } from './UserDesign';
+
+// One saved state of a user design; version 1 is the first save
+export interface IDesignVersion extends Document {
+  designId: string;
+  walletAddress: string;
+  version: number;
+  name: string;
+  canvasData: object;
+  blobId?: string;
+  thumbnail?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DesignVersionSchema = new Schema<IDesignVersion>({
+  designId: {
+    type: String,
+    required: true
+  },
+  walletAddress: {
+    type: String,
+    required: true,
+    index: true
+  },
+  version: {
+    type: Number,
+    required: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  canvasData: {
+    type: Schema.Types.Mixed,
+    required: true
+  },
+  blobId: {
+    type: String,
+    required: false
+  },
+  thumbnail: {
+    type: String,
+    required: false
+  }
+}, {
+  timestamps: true, // Automatically adds createdAt and updatedAt
+  collection: 'design_versions'
+});
+
+DesignVersionSchema.index({ designId: 1, version: -1 }, { unique: true });
+
+// Export the model
+export const DesignVersion = mongoose.models.DesignVersion || mongoose.model<IDesignVersion>('DesignVersion', DesignVersionSchema);
+
+// Designs saved before version history have no records yet; their current state becomes the
+// record of their current version
+export async function ensureDesignVersions(design: IUserDesign): Promise<void> {
+  const hasVersions = await DesignVersion.exists({ designId: design.designId });
+  if (hasVersions) return;
+
+  await DesignVersion.create({
+    designId: design.designId,
+    walletAddress: design.walletAddress,
+    version: design.version || 1,
+    name: design.name,
+    canvasData: design.canvasData,
+    blobId: design.blobId,
+    createdAt: design.updatedAt
+  });
+}
@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { getDesignSummary } from '@/utils/designDocument';
 
 export interface IUserDesign extends Document {
   walletAddress: string;
@@ -6,11 +7,23 @@ export interface IUserDesign extends Document {
   name: string;
   canvasData: object;
   blobId?: string;
+  // Sui object of the Walrus blob and the epoch its storage ends, for expiry warnings and
+  // extending it; missing on designs saved before expiry tracking
+  blobObjectId?: string;
+  expiryEpoch?: number;
+  // Blobs of other designs holding images and fonts this one reuses, which it needs too
+  assetBlobs: { blobObjectId: string; expiryEpoch: number }[];
+  // The design's metadata object in the registry contract, which keeps its versions on-chain;
+  // missing until a save records it there
+  designObjectId?: string;
+  // Latest saved version; every version, this one included, has a DesignVersion record
+  version: number;
   createdAt: Date;
   updatedAt: Date;
   metadata: {
     canvasSize: { width: number; height: number };
     elementCount: number;
+    pageCount: number;
     lastModified: Date;
   };
 }
@@ -40,12 +53,34 @@ const UserDesignSchema = new Schema<IUserDesign>({
     type: String,
     required: false
   },
+  blobObjectId: {
+    type: String,
+    required: false
+  },
+  expiryEpoch: {
+    type: Number,
+    required: false
+  },
+  assetBlobs: [new Schema({
+    blobObjectId: { type: String, required: true },
+    expiryEpoch: { type: Number, required: true }
+  }, { _id: false })],
+  designObjectId: {
+    type: String,
+    required: false
+  },
+  version: {
+    type: Number,
+    required: true,
+    default: 1
+  },
   metadata: {
     canvasSize: {
       width: { type: Number, required: true },
       height: { type: Number, required: true }
     },
     elementCount: { type: Number, required: true, default: 0 },
+    pageCount: { type: Number, required: true, default: 1 },
     lastModified: { type: Date, required: true, default: Date.now }
   }
 }, {
@@ -60,16 +95,11 @@ UserDesignSchema.index({ updatedAt: -1 });
 // Pre-save middleware to update metadata
 UserDesignSchema.pre('save', function(next) {
   if (this.isModified('canvasData')) {
-    const canvasData = this.canvasData as any;
-    
-    // Update canvas size
-    this.metadata.canvasSize = {
-      width: canvasData.width || 800,
-      height: canvasData.height || 600
-    };
-    
-    // Update element count
-    this.metadata.elementCount = canvasData.objects ? canvasData.objects.length : 0;
+    // Canvas size of the first page, element count across all pages
+    const { canvasSize, elementCount, pageCount } = getDesignSummary(this.canvasData);
+    this.metadata.canvasSize = canvasSize;
+    this.metadata.elementCount = elementCount;
+    this.metadata.pageCount = pageCount;
     
     // Update last modified
     this.metadata.lastModified = new Date();
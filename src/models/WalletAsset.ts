@@ -0,0 +1,62 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// An image or font a wallet has already uploaded to Walrus, found by its content hash
+export interface IWalletAsset extends Document {
+  walletAddress: string;
+  hash: string;
+  quiltId: string;
+  identifier: string;
+  contentType: string;
+  size: number;
+  // The quilt's Sui object and the epoch its storage ends; missing on copies recorded before
+  // expiry tracking
+  blobObjectId?: string;
+  expiryEpoch?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WalletAssetSchema = new Schema<IWalletAsset>({
+  walletAddress: {
+    type: String,
+    required: true,
+    index: true
+  },
+  hash: {
+    type: String,
+    required: true
+  },
+  quiltId: {
+    type: String,
+    required: true
+  },
+  identifier: {
+    type: String,
+    required: true
+  },
+  contentType: {
+    type: String,
+    required: true
+  },
+  size: {
+    type: Number,
+    required: true
+  },
+  blobObjectId: {
+    type: String,
+    required: false
+  },
+  expiryEpoch: {
+    type: Number,
+    required: false
+  }
+}, {
+  timestamps: true, // Automatically adds createdAt and updatedAt
+  collection: 'wallet_assets'
+});
+
+// One stored copy per file and wallet
+WalletAssetSchema.index({ walletAddress: 1, hash: 1 }, { unique: true });
+
+// Export the model
+export const WalletAsset = mongoose.models.WalletAsset || mongoose.model<IWalletAsset>('WalletAsset', WalletAssetSchema);
@@ -2,6 +2,7 @@ import { sealEncryption } from './sealEncryption';
 import { walrusClient } from './walrusClient';
 import { accessControl, AccessPolicy } from './accessControl';
 import { mongoDBService, DesignData } from './mongoDBService';
+import { getDesignSummary } from '@/utils/designDocument';
 
 export interface StoredDesign {
   id: string;
@@ -58,10 +59,7 @@ export class EncryptedStorageService {
           walletType: 'encrypted',
           version: '1.0.0',
           type: 'canva-design',
-          canvasSize: {
-            width: 800,
-            height: 600
-          }
+          canvasSize: getDesignSummary(canvasData).canvasSize
         },
         encryptedData: encryptedData,
         sealEncryption: {
@@ -188,10 +186,7 @@ export class EncryptedStorageService {
           walletType: 'encrypted',
           version: '1.0.0',
           type: 'canva-design',
-          canvasSize: {
-            width: 800,
-            height: 600
-          }
+          canvasSize: getDesignSummary(canvasDataToEncrypt).canvasSize
         },
         encryptedData: encryptedData,
         sealEncryption: {
@@ -1,4 +1,7 @@
 import { IUserDesign } from '../models/UserDesign';
+import type { BrandKit } from '../utils/brandKit';
+import type { StoredDesignAsset } from '../utils/designAssets';
+import type { StoredBlob } from '../utils/blobLifetime';
 
 export interface UserDesignDocument {
   _id?: string;
@@ -7,26 +10,52 @@ export interface UserDesignDocument {
   name: string;
   canvasData: object; // Raw JSON canvas state for direct loading
   blobId?: string; // Optional - for encrypted version
+  blobObjectId?: string; // Sui object of the Walrus blob, for extending its storage
+  expiryEpoch?: number; // Walrus epoch the blob's storage ends; missing on older designs
+  assetBlobs?: StoredBlob[]; // Other designs' blobs holding images and fonts this one reuses
+  designObjectId?: string; // Metadata object in the registry contract, keeping the versions on-chain
+  version?: number; // Latest saved version; missing on designs saved before version history
   createdAt: Date;
   updatedAt: Date;
   metadata: {
     canvasSize: { width: number; height: number };
     elementCount: number;
+    pageCount?: number; // Missing on designs saved before multi-page support
     lastModified: Date;
   };
 }
 
+// The saved design open in the editor; saving it again adds a version
+export type OpenDesign = Pick<UserDesignDocument, 'designId' | 'name' | 'designObjectId'>;
+
 export interface DesignData {
   name: string;
   canvasData: object;
   blobId?: string;
+  blobObjectId?: string;
+  expiryEpoch?: number;
+  assetBlobs?: StoredBlob[];
+  thumbnail?: string; // Preview of the first page, kept with the version
+}
+
+// A saved version of a design, without its canvas data
+export interface DesignVersionSummary {
+  version: number;
+  name: string;
+  blobId?: string;
+  thumbnail?: string;
+  createdAt: Date;
 }
 
 export class MongoDBService {
   private baseUrl: string;
+  private brandKitUrl: string;
+  private assetsUrl: string;
 
   constructor() {
     this.baseUrl = '/api/designs';
+    this.brandKitUrl = '/api/brand-kit';
+    this.assetsUrl = '/api/assets';
   }
 
   async saveUserDesign(
@@ -43,7 +72,11 @@ export class MongoDBService {
           walletAddress,
           name: designData.name,
           canvasData: designData.canvasData,
-          blobId: designData.blobId
+          blobId: designData.blobId,
+          blobObjectId: designData.blobObjectId,
+          expiryEpoch: designData.expiryEpoch,
+          assetBlobs: designData.assetBlobs,
+          thumbnail: designData.thumbnail
         })
       });
 
@@ -113,22 +146,195 @@ export class MongoDBService {
     }
   }
 
-  async updateUserDesign(
-    _designId: string, 
-    _updates: Partial<DesignData>
-  ): Promise<boolean> {
-    // For now, we'll implement this as a delete + create operation
-    // In a production app, you'd want a proper PATCH endpoint
+  // Null when the wallet hasn't saved a brand kit yet
+  async getBrandKit(walletAddress: string): Promise<BrandKit | null> {
+    try {
+      const response = await fetch(`${this.brandKitUrl}?walletAddress=${encodeURIComponent(walletAddress)}`);
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to fetch brand kit');
+      }
+
+      const result = await response.json();
+      return result.brandKit;
+    } catch (error) {
+      console.error('Error fetching brand kit:', error);
+      throw new Error('Failed to fetch brand kit from MongoDB');
+    }
+  }
+
+  async saveBrandKit(walletAddress: string, brandKit: BrandKit): Promise<BrandKit> {
+    try {
+      const response = await fetch(this.brandKitUrl, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ walletAddress, brandKit })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to save brand kit');
+      }
+
+      const result = await response.json();
+      return result.brandKit;
+    } catch (error) {
+      console.error('Error saving brand kit:', error);
+      throw new Error('Failed to save brand kit to MongoDB');
+    }
+  }
+
+  // The wallet's stored copies of the given content hashes; hashes it never uploaded are left out
+  async getWalletAssets(walletAddress: string, hashes: string[]): Promise<StoredDesignAsset[]> {
     try {
-      // This is a simplified implementation
-      // In production, you'd want a dedicated PATCH endpoint
-      console.warn('Update operation not fully implemented - use delete + create for now');
-      return false;
+      const params = new URLSearchParams({ walletAddress, hashes: hashes.join(',') });
+      const response = await fetch(`${this.assetsUrl}?${params}`);
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to fetch wallet assets');
+      }
+
+      const result = await response.json();
+      return result.assets;
+    } catch (error) {
+      console.error('Error fetching wallet assets:', error);
+      throw new Error('Failed to fetch wallet assets from MongoDB');
+    }
+  }
+
+  async saveWalletAssets(walletAddress: string, assets: StoredDesignAsset[]): Promise<boolean> {
+    try {
+      const response = await fetch(this.assetsUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ walletAddress, assets })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to save wallet assets');
+      }
+
+      const result = await response.json();
+      return result.success;
+    } catch (error) {
+      console.error('Error saving wallet assets:', error);
+      throw new Error('Failed to save wallet assets to MongoDB');
+    }
+  }
+
+  // Save the design's current state as its next version
+  async updateUserDesign(designId: string, designData: DesignData): Promise<UserDesignDocument> {
+    try {
+      const response = await fetch(`${this.baseUrl}/${designId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(designData)
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to update design');
+      }
+
+      const result = await response.json();
+      return result.design;
     } catch (error) {
       console.error('Error updating design:', error);
       throw new Error('Failed to update design in MongoDB');
     }
   }
+
+  // After the design's Walrus blobs were extended
+  async updateDesignExpiry(designId: string, blobs: StoredBlob[]): Promise<UserDesignDocument> {
+    try {
+      const response = await fetch(`${this.baseUrl}/${designId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ blobs })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to update design expiry');
+      }
+
+      const result = await response.json();
+      return result.design;
+    } catch (error) {
+      console.error('Error updating design expiry:', error);
+      throw new Error('Failed to update design expiry in MongoDB');
+    }
+  }
+
+  // After the registry contract created the design's metadata object
+  async setDesignObjectId(designId: string, designObjectId: string): Promise<UserDesignDocument> {
+    try {
+      const response = await fetch(`${this.baseUrl}/${designId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ designObjectId })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to link design object');
+      }
+
+      const result = await response.json();
+      return result.design;
+    } catch (error) {
+      console.error('Error linking design object:', error);
+      throw new Error('Failed to link design object in MongoDB');
+    }
+  }
+
+  // Newest first
+  async getDesignVersions(designId: string): Promise<DesignVersionSummary[]> {
+    try {
+      const response = await fetch(`${this.baseUrl}/${designId}/versions`);
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to fetch design versions');
+      }
+
+      const result = await response.json();
+      return result.versions;
+    } catch (error) {
+      console.error('Error fetching design versions:', error);
+      throw new Error('Failed to fetch design versions from MongoDB');
+    }
+  }
+
+  async loadDesignVersion(designId: string, version: number): Promise<object> {
+    try {
+      const response = await fetch(`${this.baseUrl}/${designId}/versions/${version}`);
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to load design version');
+      }
+
+      const result = await response.json();
+      return result.canvasData;
+    } catch (error) {
+      console.error('Error loading design version:', error);
+      throw new Error('Failed to load design version from MongoDB');
+    }
+  }
 }
 
 // Singleton instance
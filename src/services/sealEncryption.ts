@@ -849,15 +849,14 @@ export class SealEncryptionService {
 
   async verifyDataIntegrity(data: Uint8Array, expectedHash: string): Promise<boolean> {
     // Verify data integrity using SHA-256
-    const dataString = new TextDecoder().decode(data);
-    const actualHash = CryptoJS.SHA256(dataString).toString();
+    const actualHash = await this.generateDataHash(data);
     return actualHash === expectedHash;
   }
 
   async generateDataHash(data: Uint8Array): Promise<string> {
-    // Generate SHA-256 hash of data
-    const dataString = new TextDecoder().decode(data);
-    return CryptoJS.SHA256(dataString).toString();
+    // Generate SHA-256 hash of data. Hashed as raw bytes: decoding binary data such as
+    // images as text would map different inputs to the same hash.
+    return CryptoJS.SHA256(CryptoJS.lib.WordArray.create(data)).toString();
   }
 
   // Security audit methods
@@ -1,6 +1,7 @@
 import { SuiClient } from '@mysten/sui/client';
 import { Transaction } from '@mysten/sui/transactions';
 import { fromHEX, toHEX } from '@mysten/sui/utils';
+import type { Signer } from '@mysten/sui/cryptography';
 import { config } from '@/config/environment';
 
 export interface SealIntegrationConfig {
@@ -26,6 +27,13 @@ export interface SealDecryptionResult {
   designId: string;
 }
 
+// A version of a design in the registry contract
+export interface DesignVersionRecord {
+  version: number;
+  blobId: string;
+  updatedAt: number;
+}
+
 export class SealIntegrationService {
   private config: SealIntegrationConfig;
   private isInitialized: boolean = false;
@@ -304,6 +312,131 @@ export class SealIntegrationService {
     }
   }
 
+  /**
+   * Record a saved design's Walrus blob as its latest version. The first save creates the
+   * design in the registry; later ones call update_design. Returns the design's object ID.
+   */
+  async recordDesignVersion(
+    designId: string | undefined,
+    name: string,
+    blobId: string,
+    signer: Signer
+  ): Promise<string> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    try {
+      const tx = new Transaction();
+      if (designId) {
+        tx.moveCall({
+          target: `${this.config.packageId}::design_registry::update_design`,
+          arguments: [
+            tx.object(this.config.registryId),
+            tx.pure.id(designId),
+            tx.pure.string(blobId),
+          ]
+        });
+        await this.executeTransaction(tx, signer);
+        return designId;
+      }
+
+      const userAddress = signer.toSuiAddress();
+      tx.moveCall({
+        target: `${this.config.packageId}::design_registry::create_design`,
+        arguments: [
+          tx.object(this.config.registryId),
+          tx.pure.string(name),
+          tx.pure.string(blobId),
+          tx.pure.string(`policy_${userAddress}_${Date.now()}`),
+        ]
+      });
+      const digest = await this.executeTransaction(tx, signer);
+
+      const result = await this.config.suiClient.waitForTransaction({
+        digest,
+        options: { showObjectChanges: true }
+      });
+      const created = result.objectChanges?.find(
+        change => change.type === 'created' && change.objectType.endsWith('::design_registry::DesignMetadata')
+      );
+      if (!created || created.type !== 'created') {
+        throw new Error('Failed to get design ID from transaction');
+      }
+
+      console.log('✅ Design created in contract:', created.objectId);
+      return created.objectId;
+    } catch (error) {
+      console.error('❌ Failed to record design version:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Every version of a design, oldest first. The contract keeps each replaced version as a
+   * dynamic field of the design object; the current one is in its metadata.
+   */
+  async getDesignVersions(designId: string): Promise<DesignVersionRecord[]> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    try {
+      const design = await this.config.suiClient.getObject({
+        id: designId,
+        options: { showContent: true }
+      });
+      const current = (design.data?.content as any)?.fields;
+      if (!current) {
+        throw new Error(`Design ${designId} not found`);
+      }
+
+      const versions: DesignVersionRecord[] = [{
+        version: Number(current.version),
+        blobId: current.blob_id,
+        updatedAt: Number(current.updated_at)
+      }];
+      let cursor: string | null = null;
+      do {
+        const page = await this.config.suiClient.getDynamicFields({ parentId: designId, cursor });
+        const keys = page.data.filter(field => field.name.type.endsWith('::design_registry::VersionKey'));
+
+        const fields = await Promise.all(keys.map(key => this.config.suiClient.getDynamicFieldObject({
+          parentId: designId,
+          name: key.name
+        })));
+        fields.forEach(field => {
+          const value = (field.data?.content as any)?.fields?.value?.fields;
+          if (value) {
+            versions.push({
+              version: Number(value.version),
+              blobId: value.blob_id,
+              updatedAt: Number(value.updated_at)
+            });
+          }
+        });
+
+        cursor = page.hasNextPage ? page.nextCursor : null;
+      } while (cursor);
+
+      return versions.sort((a, b) => a.version - b.version);
+    } catch (error) {
+      console.error('❌ Failed to get design versions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Have the wallet sign and execute a registry transaction; returns its digest
+   */
+  private async executeTransaction(tx: Transaction, signer: Signer): Promise<string> {
+    const result = await signer.signAndExecuteTransaction({ transaction: tx, client: this.config.suiClient });
+    if (result.effects?.status?.error) {
+      throw new Error(`Transaction failed: ${result.effects.status.error}`);
+    }
+    return result.digest;
+  }
+
   /**
    * Simulate Seal encryption (placeholder for real Seal SDK integration)
    */
@@ -1,10 +1,35 @@
-import { WalrusClient } from '@mysten/walrus';
+import { WalrusClient, WalrusFile } from '@mysten/walrus';
 import { SuiClient as BaseSuiClient } from '@mysten/sui/client';
 import { SuiClient } from '@mysten/sui/client';
 import type { Signer } from '@mysten/sui/cryptography';
 import { RetryableWalrusClientError } from '@mysten/walrus';
 import { config } from '@/config/environment';
 import { sealEncryption, type SealEncryptionResult } from './sealEncryption';
+import { mongoDBService } from './mongoDBService';
+import {
+  bytesToDataUrl,
+  extractDesignAssets,
+  parseAssetRef,
+  qualifyAssetRefs,
+  setAssetResolver,
+  type StoredDesignAsset
+} from '@/utils/designAssets';
+import { getEarliestExpiry, type StoredBlob } from '@/utils/blobLifetime';
+
+// Name of the design JSON inside a design quilt; the other files are its assets
+const DESIGN_FILE_IDENTIFIER = 'design.json';
+
+// The parts of a written blob's Sui object we keep
+interface WalrusBlobObject {
+  id: { id: string };
+  storage: { end_epoch: number };
+}
+
+export interface WalrusAssetInfo {
+  identifier: string;
+  contentType: string;
+  size: number;
+}
 
 export interface WalrusBlobMetadata {
   name: string;
@@ -18,7 +43,10 @@ export interface WalrusBlobMetadata {
     width: number;
     height: number;
   };
+  pageCount?: number;
   tags?: Record<string, string>;
+  // Files stored next to the design in its quilt
+  assets?: WalrusAssetInfo[];
   // Seal-specific metadata
   sealMetadata?: {
     accessPolicyId: string;
@@ -45,11 +73,25 @@ export interface WalrusStoreResult {
     wal: number;
     frost: number;
   };
+  // The blob's Sui object, needed to extend its storage, and the epoch its storage ends
+  blobObjectId?: string;
   expiryEpoch?: number;
+  // Other blobs holding images and fonts the design reuses; it is only complete while they last
+  assetBlobs?: StoredBlob[];
   encrypted?: boolean;
   accessPolicyId?: string;
 }
 
+export interface WalrusEpochInfo {
+  currentEpoch: number;
+  epochDurationMs: number;
+  // When epoch 1 started; later epochs follow back to back
+  firstEpochStartMs: number;
+}
+
+// Epochs are days (testnet) to weeks (mainnet) long; no need to ask the chain on every render
+const EPOCH_INFO_MAX_AGE_MS = 10 * 60 * 1000;
+
 export interface WalrusRetrieveResult {
   blobId: string;
   data: WalrusBlobData;
@@ -61,6 +103,11 @@ export interface WalrusRetrieveResult {
 export class WalrusClientService {
   private walrusClient: any;
   private suiClient: any;
+  // Design assets already read (or being read), by reference
+  private assetCache = new Map<string, Promise<string>>();
+  // Assets known to be on Walrus, by wallet address and content hash
+  private storedAssets = new Map<string, StoredDesignAsset>();
+  private epochInfo: { info: Promise<WalrusEpochInfo>; fetchedAt: number } | null = null;
 
   constructor() {
     // Create a SuiClient extended with Walrus upload relay for more reliable writes in browsers
@@ -169,49 +216,12 @@ export class WalrusClientService {
       // Convert data to Uint8Array for storage
       const blob = new TextEncoder().encode(JSON.stringify(dataToStore));
       
-      // Some storage nodes require a brief delay between certification and upload.
-      // Use a bounded exponential backoff retry around writeBlob to smooth over 400s.
-      const maxAttempts = 5;
-      let attempt = 0;
-      let lastError: unknown = undefined;
-      let blobId: string | undefined;
-
-      while (attempt < maxAttempts && !blobId) {
-        try {
-          const result = await this.walrusClient.writeBlob({
-            blob,
-            deletable: false,
-            epochs,
-            signer,
-          });
-          blobId = result.blobId;
-        } catch (err: any) {
-          lastError = err;
-
-          const msg = err?.message || '';
-          const status = err?.status || err?.response?.status;
-          const isTransient400 = status === 400 || msg.includes('has not been registered') || msg.includes('already expired');
-
-          // Retry only transient registration/propagation issues or explicit Retryable error
-          if (isTransient400 || (err instanceof RetryableWalrusClientError)) {
-            const backoffMs = Math.min(1000 * Math.pow(2, attempt), 8000) + Math.floor(Math.random() * 500);
-            console.log(`Walrus write attempt ${attempt + 1} failed; retrying in ${backoffMs}ms...`);
-            // Small jittered delay before retry
-            await new Promise((res) => setTimeout(res, backoffMs));
-            if (err instanceof RetryableWalrusClientError) {
-              this.walrusClient.reset();
-            }
-            attempt++;
-            continue;
-          }
-          // Non-retryable error
-          throw err;
-        }
-      }
-
-      if (!blobId) {
-        throw lastError || new Error('Failed to store blob after retries');
-      }
+      const { blobId, blobObject } = await this.writeWithRetry<{ blobId: string; blobObject: WalrusBlobObject }>(() => this.walrusClient.writeBlob({
+        blob,
+        deletable: false,
+        epochs,
+        signer,
+      }));
       
       // Calculate estimated cost (approximate)
       const storageUnits = Math.ceil(blob.length / (1024 * 1024)); // 1 MiB units
@@ -233,7 +243,8 @@ export class WalrusClientService {
           wal: walCost,
           frost: frostCost
         },
-        expiryEpoch: epochs,
+        blobObjectId: blobObject.id.id,
+        expiryEpoch: blobObject.storage.end_epoch,
         encrypted: data.metadata.encrypted,
         accessPolicyId
       };
@@ -623,6 +634,124 @@ export class WalrusClientService {
     }
   }
 
+  /**
+   * The current Walrus epoch and how long epochs last, for turning expiry epochs into dates.
+   */
+  async getEpochInfo(): Promise<WalrusEpochInfo> {
+    if (!this.epochInfo || Date.now() - this.epochInfo.fetchedAt > EPOCH_INFO_MAX_AGE_MS) {
+      const info = this.walrusClient.stakingState().then((state: any) => ({
+        currentEpoch: state.epoch,
+        epochDurationMs: Number(state.epoch_duration),
+        firstEpochStartMs: Number(state.first_epoch_start)
+      }));
+      this.epochInfo = { info, fetchedAt: Date.now() };
+      // Ask again next time instead of keeping the failure
+      info.catch(() => {
+        this.epochInfo = null;
+      });
+    }
+    return this.epochInfo.info;
+  }
+
+  /**
+   * Epoch at which the storage of a blob object ends.
+   */
+  async getBlobExpiry(blobObjectId: string): Promise<number> {
+    const object = await this.suiClient.getObject({ id: blobObjectId, options: { showContent: true } });
+    const endEpoch = object.data?.content?.fields?.storage?.fields?.end_epoch;
+    if (endEpoch === undefined) {
+      throw new Error(`Blob object ${blobObjectId} not found`);
+    }
+    return Number(endEpoch);
+  }
+
+  /**
+   * Keep a design's blobs stored for the given number of epochs past the earliest of their
+   * expiries, in one transaction paid in WAL by the signer, who must own the blob objects.
+   * Every blob ends up stored until at least that epoch; ones stored for longer are left as
+   * they are.
+   */
+  async extendBlobs(
+    blobs: StoredBlob[],
+    epochs: number,
+    signer: Signer
+  ): Promise<{ digest: string; blobs: StoredBlob[] }> {
+    const earliestExpiry = getEarliestExpiry(blobs);
+    if (earliestExpiry === undefined) {
+      throw new Error('No blobs to extend');
+    }
+
+    try {
+      const endEpoch = earliestExpiry + epochs;
+      console.log('⏳ Extending Walrus blob storage...', { blobs: blobs.length, endEpoch });
+
+      let transaction: unknown = undefined;
+      for (const { blobObjectId } of blobs.slice(0, -1)) {
+        transaction = await this.walrusClient.extendBlobTransaction({ transaction, blobObjectId, endEpoch });
+      }
+      const { digest } = await this.walrusClient.executeExtendBlobTransaction({
+        transaction,
+        blobObjectId: blobs[blobs.length - 1].blobObjectId,
+        endEpoch,
+        signer
+      });
+      const extended = await Promise.all(blobs.map(async ({ blobObjectId }) => ({
+        blobObjectId,
+        expiryEpoch: await this.getBlobExpiry(blobObjectId)
+      })));
+
+      // Assets in the extended blobs can now be reused for longer
+      const expiries = new Map(extended.map(blob => [blob.blobObjectId, blob.expiryEpoch]));
+      this.storedAssets.forEach(asset => {
+        const expiryEpoch = asset.blobObjectId && expiries.get(asset.blobObjectId);
+        if (expiryEpoch) asset.expiryEpoch = expiryEpoch;
+      });
+
+      console.log('✅ Extended Walrus blob storage:', { blobs: extended, digest });
+      return { digest, blobs: extended };
+    } catch (error) {
+      console.error('Walrus storage extension failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Some storage nodes require a brief delay between certification and upload.
+   * Use a bounded exponential backoff retry around writes to smooth over 400s.
+   */
+  private async writeWithRetry<T>(write: () => Promise<T>): Promise<T> {
+    const maxAttempts = 5;
+    let lastError: unknown = undefined;
+
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      try {
+        return await write();
+      } catch (err: any) {
+        lastError = err;
+
+        const msg = err?.message || '';
+        const status = err?.status || err?.response?.status;
+        const isTransient400 = status === 400 || msg.includes('has not been registered') || msg.includes('already expired');
+
+        // Retry only transient registration/propagation issues or explicit Retryable error
+        if (isTransient400 || (err instanceof RetryableWalrusClientError)) {
+          const backoffMs = Math.min(1000 * Math.pow(2, attempt), 8000) + Math.floor(Math.random() * 500);
+          console.log(`Walrus write attempt ${attempt + 1} failed; retrying in ${backoffMs}ms...`);
+          // Small jittered delay before retry
+          await new Promise((res) => setTimeout(res, backoffMs));
+          if (err instanceof RetryableWalrusClientError) {
+            this.walrusClient.reset();
+          }
+          continue;
+        }
+        // Non-retryable error
+        throw err;
+      }
+    }
+
+    throw lastError || new Error('Failed to store blob after retries');
+  }
+
   /**
    * Enhanced retry mechanism with exponential backoff
    */
@@ -726,7 +855,13 @@ export class WalrusClientService {
           const decodedText = new TextDecoder().decode(blob);
           data = JSON.parse(decodedText);
         } catch (parseError) {
-          console.error(`❌ Failed to parse file data for ${blobId}:`, parseError);
+          // A design stored as a quilt isn't JSON as a whole; read its design file instead
+          try {
+            const { design } = await this.retrieveDesignWithAssets(blobId, userAddress);
+            results.push(design);
+          } catch {
+            console.error(`❌ Failed to parse file data for ${blobId}:`, parseError);
+          }
           continue; // Skip this file and continue with others
         }
         
@@ -782,238 +917,188 @@ export class WalrusClientService {
   }
 
   /**
-   * Retrieve design with assets using Quilt support
+   * Retrieve a design stored as a quilt. Its assets stay on Walrus: references in the design
+   * are qualified with the quilt ID, and each asset is only read once something loads it
+   * (see readAsset). Designs stored as a single blob are read with retrieve().
    */
   async retrieveDesignWithAssets(designBlobId: string, userAddress?: string): Promise<{
     design: WalrusRetrieveResult;
-    assets: { [key: string]: Uint8Array };
-    metadata: any;
+    assets: WalrusAssetInfo[];
+    metadata: WalrusBlobMetadata;
   }> {
     return this.retryWithBackoff(async () => {
       console.log('📥 Retrieving design with assets from Walrus:', designBlobId);
-      
-      // Use getFiles API as recommended by the official Walrus SDK documentation
-      let files: any[];
+
+      let designFile: WalrusFile | undefined;
       try {
-        files = await this.walrusClient.getFiles({ ids: [designBlobId] });
-        
-        if (!files || files.length === 0) {
-          throw new Error('No files found for the provided design blob ID');
-        }
-        
-        const file = files[0];
-        if (!file) {
-          throw new Error('Design file not found in Walrus storage');
-        }
-        
-        console.log('📄 Retrieved WalrusFile for design with assets:', file);
-        
+        const blob = await this.walrusClient.getBlob({ blobId: designBlobId });
+        [designFile] = await blob.files({ identifiers: [DESIGN_FILE_IDENTIFIER] });
       } catch (readError) {
-        console.error('❌ Failed to read design file from Walrus:', readError);
-        
-        // Handle specific Walrus SDK errors as documented
         if (readError instanceof RetryableWalrusClientError) {
-          console.log('Retryable error detected, resetting client...');
-          this.walrusClient.reset();
-          throw new Error('Temporary Walrus error - please try again');
+          throw readError;
         }
-        
-        // Handle DataView bounds errors specifically
-        if (readError instanceof Error && readError.message.includes('Offset is outside the bounds of the DataView')) {
-          throw new Error('Data corruption detected in Walrus storage. The design blob may be corrupted or incomplete.');
-        }
-        
-        throw new Error(`Failed to read design file from Walrus: ${readError instanceof Error ? readError.message : 'Unknown error'}`);
+        // Not a quilt, e.g. a design saved as a single blob
+        console.log('Blob is not a design quilt, reading it as a single blob:', readError);
       }
-      
-      // Get the file content using the WalrusFile API
-      let blob: Uint8Array;
-      try {
-        blob = await files[0].bytes();
-        
-        if (!blob || blob.length === 0) {
-          throw new Error('Empty or invalid file data received from Walrus');
-        }
-        
-        console.log('📄 Retrieved design file data length:', blob.length);
-        
-      } catch (bytesError) {
-        console.error('❌ Failed to get bytes from WalrusFile:', bytesError);
-        throw new Error(`Failed to read design file content: ${bytesError instanceof Error ? bytesError.message : 'Unknown error'}`);
+
+      if (!designFile) {
+        const design = await this.retrieve(designBlobId, userAddress);
+        return { design, assets: [], metadata: design.data.metadata };
       }
-      
-      // Safely decode and parse the blob data
-      let combinedData: any;
+
+      const bytes = await designFile.bytes();
+      let data: WalrusBlobData;
       try {
-        const decodedText = new TextDecoder().decode(blob);
-        combinedData = JSON.parse(decodedText);
+        data = JSON.parse(new TextDecoder().decode(bytes));
       } catch (parseError) {
         console.error('❌ Failed to parse design file data:', parseError);
         throw new Error(`Failed to parse design file data: ${parseError instanceof Error ? parseError.message : 'Unknown parsing error'}`);
       }
-      
-      // Check if this is a design with assets structure
-      if (combinedData.type === 'design-with-assets') {
-        const designData: WalrusBlobData = combinedData.design;
-        const assets: { [key: string]: Uint8Array } = {};
-        
-        // Convert asset arrays back to Uint8Array
-        for (const [key, dataArray] of Object.entries(combinedData.assets)) {
-          assets[key] = new Uint8Array(dataArray as number[]);
-        }
-        
-        const metadata = combinedData.metadata || {};
-        
-        // Decrypt design data if needed
-        if (designData.metadata.encrypted && designData.sealEncryption && userAddress) {
-          try {
-            if (!sealEncryption.isReady()) {
-              await sealEncryption.initialize();
-            }
-
-            const hasAccess = await sealEncryption.validateAccess(
-              designData.sealEncryption.accessPolicyId,
-              userAddress
-            );
-
-            if (!hasAccess) {
-              throw new Error('Access denied: You do not have permission to decrypt this design');
-            }
 
-            // Convert encrypted data back to Uint8Array (JSON parsing converts it to regular array)
-            const encryptedDataUint8 = new Uint8Array(designData.encryptedData!);
-            
-            const decryptionResult = await sealEncryption.decryptData(
-              encryptedDataUint8,
-              designData.sealEncryption.accessPolicyId,
-              userAddress
-            );
-
-            designData.designData = JSON.parse(new TextDecoder().decode(decryptionResult.decryptedData));
-            designData.encryptedData = undefined;
-          } catch (decryptError) {
-            console.error('❌ Design decryption failed:', decryptError);
-            throw new Error(`Failed to decrypt design: ${decryptError instanceof Error ? decryptError.message : 'Unknown error'}`);
-          }
-        }
-        
-        console.log('✅ Successfully retrieved design with assets from Walrus');
-        
-        return {
-          design: {
-            blobId: designBlobId,
-            data: designData,
-            timestamp: Date.now(),
-            size: blob.length,
-            decrypted: designData.metadata.encrypted && userAddress ? true : undefined
-          },
-          assets,
-          metadata
-        };
-      } else {
-        // Regular design without assets
-        const designData: WalrusBlobData = combinedData;
-        
-        // Decrypt design data if needed
-        if (designData.metadata.encrypted && designData.sealEncryption && userAddress) {
-          try {
-            if (!sealEncryption.isReady()) {
-              await sealEncryption.initialize();
-            }
+      data.designData = qualifyAssetRefs(data.designData, designBlobId);
+      const assets = data.metadata.assets || [];
 
-            const hasAccess = await sealEncryption.validateAccess(
-              designData.sealEncryption.accessPolicyId,
-              userAddress
-            );
+      console.log('✅ Successfully retrieved design with assets from Walrus:', { assets: assets.length });
 
-            if (!hasAccess) {
-              throw new Error('Access denied: You do not have permission to decrypt this design');
-            }
+      return {
+        design: {
+          blobId: designBlobId,
+          data,
+          timestamp: Date.now(),
+          size: bytes.length + assets.reduce((total, asset) => total + asset.size, 0)
+        },
+        assets,
+        metadata: data.metadata
+      };
+    });
+  }
 
-            // Convert encrypted data back to Uint8Array (JSON parsing converts it to regular array)
-            const encryptedDataUint8 = new Uint8Array(designData.encryptedData!);
-            
-            const decryptionResult = await sealEncryption.decryptData(
-              encryptedDataUint8,
-              designData.sealEncryption.accessPolicyId,
-              userAddress
-            );
+  /**
+   * Read one asset of a design quilt as a data URL. Reads are cached, so objects sharing an
+   * image only fetch it once.
+   */
+  readAsset(ref: string): Promise<string> {
+    const parsed = parseAssetRef(ref);
+    if (!parsed?.quiltId) {
+      return Promise.reject(new Error(`Not a Walrus asset reference: ${ref}`));
+    }
 
-            designData.designData = JSON.parse(new TextDecoder().decode(decryptionResult.decryptedData));
-            designData.encryptedData = undefined;
-          } catch (decryptError) {
-            console.error('❌ Design decryption failed:', decryptError);
-            throw new Error(`Failed to decrypt design: ${decryptError instanceof Error ? decryptError.message : 'Unknown error'}`);
-          }
+    let asset = this.assetCache.get(ref);
+    if (!asset) {
+      const { quiltId, identifier } = parsed;
+      asset = this.retryWithBackoff(async () => {
+        const blob = await this.walrusClient.getBlob({ blobId: quiltId });
+        const [file] = await blob.files({ identifiers: [identifier] });
+        if (!file) {
+          throw new Error(`Asset ${identifier} not found in ${quiltId}`);
         }
-        
-        console.log('✅ Successfully retrieved design from Walrus');
-        
-        return {
-          design: {
-            blobId: designBlobId,
-            data: designData,
-            timestamp: Date.now(),
-            size: blob.length,
-            decrypted: designData.metadata.encrypted && userAddress ? true : undefined
-          },
-          assets: {},
-          metadata: {}
-        };
-      }
-    });
+
+        const [bytes, tags] = await Promise.all([file.bytes(), file.getTags()]);
+        return bytesToDataUrl(bytes, tags['content-type'] || 'application/octet-stream');
+      });
+      this.assetCache.set(ref, asset);
+      // Let a failed read be tried again next time
+      asset.catch(() => this.assetCache.delete(ref));
+    }
+    return asset;
   }
 
   /**
-   * Store design with assets using Quilt support
+   * Store a design as a quilt: the design JSON plus each embedded image and font as its own
+   * binary file. Assets are identified by content hash, and with a wallet address the ones
+   * that wallet already uploaded are referenced where they are instead of uploaded again.
+   * Encrypted designs are stored with store(), which keeps their assets inside the
+   * encrypted data.
    */
   async storeDesignWithAssets(
     designData: WalrusBlobData,
-    assets: { [key: string]: Uint8Array } = {},
     signer: Signer,
     epochs: number = 1,
-    userAddress?: string
-  ): Promise<WalrusStoreResult & { quiltId: string }> {
+    walletAddress?: string
+  ): Promise<WalrusStoreResult & { quiltId: string; reusedAssets: number }> {
+    if (designData.metadata.encrypted) {
+      throw new Error('Encrypted designs must be stored with their assets inside the encrypted data');
+    }
+
     try {
-      console.log('📦 Storing design with assets to Walrus...');
-      
-      // For now, store as a single blob with JSON containing all data
-      // This is a simplified approach until WalrusFile API is properly available
-      const combinedData = {
-        design: designData,
-        assets: Object.fromEntries(
-          Object.entries(assets).map(([key, data]) => [key, Array.from(data)])
-        ),
+      const extracted = await extractDesignAssets(designData.designData, bytes => sealEncryption.generateDataHash(bytes));
+      // Only reuse assets stored for at least as long as this design will be
+      const currentEpoch = await this.getEpochInfo().then(info => info.currentEpoch, () => null);
+      const stored = walletAddress && currentEpoch !== null
+        ? await this.findStoredAssets(walletAddress, extracted.assets.map(asset => asset.hash), currentEpoch + epochs)
+        : new Map<string, StoredDesignAsset>();
+      const assets = extracted.assets.filter(asset => !stored.has(asset.hash));
+      const reused = new Map(Array.from(stored.values(), asset => [asset.identifier, asset.quiltId]));
+
+      console.log('📦 Storing design quilt to Walrus...', { assets: assets.length, reused: stored.size, epochs });
+
+      const design = new TextEncoder().encode(JSON.stringify({
+        ...designData,
+        designData: qualifyAssetRefs(extracted.designData, identifier => reused.get(identifier)),
         metadata: {
-          type: 'design-with-assets',
-          version: '1.0.0',
-          created: new Date().toISOString()
+          ...designData.metadata,
+          assets: assets.map(({ identifier, contentType, bytes }) => ({ identifier, contentType, size: bytes.length }))
         }
-      };
-      
-      const blob = new TextEncoder().encode(JSON.stringify(combinedData));
-      
-      // Store as a single blob
-      const result = await this.walrusClient.writeBlob({
-        blob,
+      }));
+      const files = [
+        WalrusFile.from({
+          contents: design,
+          identifier: DESIGN_FILE_IDENTIFIER,
+          tags: { 'content-type': 'application/json' }
+        }),
+        ...assets.map(asset => WalrusFile.from({
+          contents: asset.bytes,
+          identifier: asset.identifier,
+          tags: { 'content-type': asset.contentType }
+        }))
+      ];
+
+      const written = await this.writeWithRetry<{ id: string; blobId: string; blobObject: WalrusBlobObject }[]>(() => this.walrusClient.writeFiles({
+        files,
         epochs,
         deletable: false,
         signer,
+      }));
+      // Every file of the quilt reports the quilt's blob ID and object
+      const quiltId = written[0].blobId;
+      const { id: { id: blobObjectId }, storage: { end_epoch: expiryEpoch } } = written[0].blobObject;
+      const size = design.length + assets.reduce((total, asset) => total + asset.bytes.length, 0);
+
+      console.log('✅ Successfully stored design quilt to Walrus:', { quiltId, size, files: files.length });
+
+      if (walletAddress && assets.length > 0) {
+        await this.recordStoredAssets(walletAddress, assets.map(({ hash, identifier, contentType, bytes }) => ({
+          hash,
+          quiltId,
+          identifier,
+          contentType,
+          size: bytes.length,
+          blobObjectId,
+          expiryEpoch
+        })));
+      }
+
+      const assetBlobs = new Map<string, StoredBlob>();
+      stored.forEach(asset => {
+        if (asset.blobObjectId && asset.expiryEpoch !== undefined) {
+          assetBlobs.set(asset.blobObjectId, { blobObjectId: asset.blobObjectId, expiryEpoch: asset.expiryEpoch });
+        }
       });
-      
-      console.log('✅ Successfully stored design with assets to Walrus');
-      
+
       return {
-        blobId: result.blobId,
-        quiltId: result.blobId, // In Walrus, the quilt ID is the same as the blob ID
-        size: blob.length,
+        blobId: quiltId,
+        quiltId,
+        reusedAssets: stored.size,
+        size,
         stored: true,
         cost: {
-          wal: Math.ceil(blob.length / (1024 * 1024)) * 0.0001 * epochs,
+          wal: Math.ceil(size / (1024 * 1024)) * 0.0001 * epochs,
           frost: 20000
         },
-        expiryEpoch: epochs,
-        encrypted: designData.metadata.encrypted
+        blobObjectId,
+        expiryEpoch,
+        assetBlobs: Array.from(assetBlobs.values()),
+        encrypted: false
       };
     } catch (error) {
       console.error('Walrus storage with assets failed:', error);
@@ -1021,6 +1106,57 @@ export class WalrusClientService {
     }
   }
 
+  /**
+   * The wallet's stored copies of the given content hashes that are kept until at least
+   * minExpiryEpoch. When the asset index can't be reached this finds nothing, so the assets
+   * are simply uploaded again.
+   */
+  private async findStoredAssets(
+    walletAddress: string,
+    hashes: string[],
+    minExpiryEpoch: number
+  ): Promise<Map<string, StoredDesignAsset>> {
+    const found = new Map<string, StoredDesignAsset>();
+    const missing: string[] = [];
+    hashes.forEach(hash => {
+      const asset = this.storedAssets.get(`${walletAddress}:${hash}`);
+      if (asset) {
+        found.set(hash, asset);
+      } else {
+        missing.push(hash);
+      }
+    });
+
+    if (missing.length > 0) {
+      try {
+        const assets = await mongoDBService.getWalletAssets(walletAddress, missing);
+        assets.forEach(asset => {
+          this.storedAssets.set(`${walletAddress}:${asset.hash}`, asset);
+          found.set(asset.hash, asset);
+        });
+      } catch (error) {
+        console.warn('⚠️ Could not look up stored assets, uploading them again:', error);
+      }
+    }
+
+    // Copies recorded before expiry tracking can't be kept alive with the design; upload those
+    // again too
+    found.forEach((asset, hash) => {
+      if (!asset.blobObjectId || (asset.expiryEpoch ?? 0) < minExpiryEpoch) found.delete(hash);
+    });
+    return found;
+  }
+
+  private async recordStoredAssets(walletAddress: string, assets: StoredDesignAsset[]): Promise<void> {
+    assets.forEach(asset => this.storedAssets.set(`${walletAddress}:${asset.hash}`, asset));
+    try {
+      await mongoDBService.saveWalletAssets(walletAddress, assets);
+    } catch (error) {
+      // The design is stored either way; its assets just won't be reused by other devices
+      console.warn('⚠️ Could not record stored assets:', error);
+    }
+  }
+
   /**
    * Helper method to determine content type from file extension
    */
@@ -1190,3 +1326,6 @@ export class WalrusClientService {
 
 // Export singleton instance
 export const walrusClient = new WalrusClientService();
+
+// Fabric and the font loader read `walrus-asset:` references through the client
+setAssetResolver(ref => walrusClient.readAsset(ref));
@@ -0,0 +1,56 @@
+// How long a stored Walrus blob has left, estimated from its expiry epoch
+import type { WalrusEpochInfo } from '@/services/walrusClient';
+
+// Designs expiring sooner than this are flagged so they can be extended in time
+export const EXPIRY_WARNING_MS = 3 * 24 * 60 * 60 * 1000;
+
+// A Walrus blob's Sui object, needed to extend its storage, and the epoch its storage ends
+export interface StoredBlob {
+  blobObjectId: string;
+  expiryEpoch: number;
+}
+
+// Every blob a saved design needs: its own and the ones holding images and fonts it reuses
+export function getDesignBlobs(design: { blobObjectId?: string; expiryEpoch?: number; assetBlobs?: StoredBlob[] }): StoredBlob[] {
+  const own = design.blobObjectId && design.expiryEpoch !== undefined
+    ? [{ blobObjectId: design.blobObjectId, expiryEpoch: design.expiryEpoch }]
+    : [];
+  return [...own, ...(design.assetBlobs || [])];
+}
+
+// A design is only complete until the first of its blobs expires
+export function getEarliestExpiry(blobs: StoredBlob[]): number | undefined {
+  return blobs.length > 0 ? Math.min(...blobs.map(blob => blob.expiryEpoch)) : undefined;
+}
+
+export interface BlobLifetime {
+  expired: boolean;
+  expiringSoon: boolean;
+  epochsLeft: number;
+  msLeft: number;
+  expiresAt: Date;
+}
+
+// A blob is stored until its expiry epoch starts
+export function getBlobLifetime(expiryEpoch: number, epochInfo: WalrusEpochInfo, now: number = Date.now()): BlobLifetime {
+  const expiresAt = epochInfo.firstEpochStartMs + (expiryEpoch - 1) * epochInfo.epochDurationMs;
+  const epochsLeft = Math.max(0, expiryEpoch - epochInfo.currentEpoch);
+  // Epoch changes can run late, so the epoch number decides whether the blob is gone
+  const msLeft = epochsLeft === 0 ? 0 : Math.max(0, expiresAt - now);
+
+  return {
+    expired: epochsLeft === 0,
+    expiringSoon: epochsLeft > 0 && msLeft < EXPIRY_WARNING_MS,
+    epochsLeft,
+    msLeft,
+    expiresAt: new Date(expiresAt),
+  };
+}
+
+export function formatTimeLeft(ms: number): string {
+  const hours = Math.floor(ms / (60 * 60 * 1000));
+  const days = Math.floor(hours / 24);
+  if (days > 0) return hours % 24 > 0 ? `${days}d ${hours % 24}h` : `${days}d`;
+  if (hours > 0) return `${hours}h`;
+  return '<1h';
+}
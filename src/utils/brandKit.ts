@@ -0,0 +1,71 @@
+// Per-wallet brand kit: named palettes, heading/body fonts and logos. Shared by the editor,
+// the MongoDB model and its Walrus copy, so it is kept free of Fabric imports.
+import { generateId } from './helpers';
+import type { DesignFont } from './designDocument';
+
+export interface BrandPalette {
+  id: string;
+  name: string;
+  colors: string[];
+}
+
+export interface BrandLogo {
+  id: string;
+  name: string;
+  // Image as a data URL
+  source: string;
+}
+
+export interface BrandKit {
+  palettes: BrandPalette[];
+  headingFont: string;
+  bodyFont: string;
+  // Uploaded fonts among the heading and body fonts, so they load on any machine
+  fonts: DesignFont[];
+  logos: BrandLogo[];
+  // Latest copy of the kit on Walrus, if one was made
+  walrusBlobId?: string;
+  walrusBackupAt?: string;
+}
+
+// Logos are stored inline with the kit, so keep them small
+export const MAX_LOGO_SIZE = 2 * 1024 * 1024;
+
+export function createBrandPalette(name: string, colors: string[] = []): BrandPalette {
+  return { id: generateId(), name, colors };
+}
+
+export function createBrandKit(): BrandKit {
+  return {
+    palettes: [createBrandPalette('Brand Colors', ['#000000', '#ffffff'])],
+    headingFont: 'Impact',
+    bodyFont: 'Arial',
+    fonts: [],
+    logos: [],
+  };
+}
+
+// Fill in anything missing from a stored kit, e.g. one restored from an older Walrus copy
+export function normalizeBrandKit(data: any): BrandKit {
+  const defaults = createBrandKit();
+  if (!data || typeof data !== 'object') return defaults;
+
+  return {
+    palettes: Array.isArray(data.palettes)
+      ? data.palettes.map((palette: any) => ({
+          id: palette.id || generateId(),
+          name: palette.name || 'Palette',
+          colors: Array.isArray(palette.colors) ? palette.colors.filter((color: any) => typeof color === 'string') : [],
+        }))
+      : defaults.palettes,
+    headingFont: data.headingFont || defaults.headingFont,
+    bodyFont: data.bodyFont || defaults.bodyFont,
+    fonts: Array.isArray(data.fonts) ? data.fonts : [],
+    logos: Array.isArray(data.logos)
+      ? data.logos
+          .filter((logo: any) => typeof logo?.source === 'string')
+          .map((logo: any) => ({ id: logo.id || generateId(), name: logo.name || 'Logo', source: logo.source }))
+      : [],
+    ...(data.walrusBlobId ? { walrusBlobId: data.walrusBlobId, walrusBackupAt: data.walrusBackupAt } : {}),
+  };
+}
@@ -0,0 +1,36 @@
+// Clipboard payload for canvas objects. Objects travel as plain text JSON so they can be
+// pasted into another design, even in another tab, through the system clipboard.
+
+const CLIPBOARD_FORMAT = 'walrus-canvas/objects';
+const CLIPBOARD_VERSION = 1;
+
+interface ClipboardPayload {
+  format: typeof CLIPBOARD_FORMAT;
+  version: number;
+  objects: Record<string, any>[];
+}
+
+export function serializeClipboardObjects(objects: Record<string, any>[]): string {
+  const payload: ClipboardPayload = {
+    format: CLIPBOARD_FORMAT,
+    version: CLIPBOARD_VERSION,
+    objects
+  };
+  return JSON.stringify(payload);
+}
+
+// Returns the serialized objects, or null when the text isn't a canvas clipboard payload
+export function parseClipboardObjects(text: string | null | undefined): Record<string, any>[] | null {
+  if (!text || !text.trimStart().startsWith('{')) return null;
+
+  try {
+    const payload = JSON.parse(text) as Partial<ClipboardPayload>;
+    if (payload.format !== CLIPBOARD_FORMAT || !Array.isArray(payload.objects)) return null;
+    if ((payload.version || 0) > CLIPBOARD_VERSION) {
+      console.warn('Clipboard objects come from a newer editor version; pasting what we can');
+    }
+    return payload.objects;
+  } catch {
+    return null;
+  }
+}
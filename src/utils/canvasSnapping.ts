@@ -0,0 +1,91 @@
+// Snapping helpers for grid and smart alignment guides
+
+export interface SnapRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface GuideLine {
+  orientation: 'vertical' | 'horizontal';
+  position: number;
+  start: number;
+  end: number;
+}
+
+export interface GuideSnapResult {
+  dx: number | null;
+  dy: number | null;
+  guides: GuideLine[];
+}
+
+export function snapToGrid(value: number, gridSize: number): number {
+  return Math.round(value / gridSize) * gridSize;
+}
+
+// Edge and center positions along one axis
+function anchors(start: number, size: number): number[] {
+  return [start, start + size / 2, start + size];
+}
+
+function findAxisSnap(
+  target: SnapRect,
+  others: SnapRect[],
+  threshold: number,
+  axis: 'x' | 'y'
+): { delta: number | null; guides: GuideLine[] } {
+  const start = axis === 'x' ? 'left' : 'top';
+  const size = axis === 'x' ? 'width' : 'height';
+  const crossStart = axis === 'x' ? 'top' : 'left';
+  const crossSize = axis === 'x' ? 'height' : 'width';
+
+  let best: number | null = null;
+  const targetAnchors = anchors(target[start], target[size]);
+
+  others.forEach(other => {
+    anchors(other[start], other[size]).forEach(otherAnchor => {
+      targetAnchors.forEach(anchor => {
+        const delta = otherAnchor - anchor;
+        if (Math.abs(delta) <= threshold && (best === null || Math.abs(delta) < Math.abs(best))) {
+          best = delta;
+        }
+      });
+    });
+  });
+
+  if (best === null) {
+    return { delta: null, guides: [] };
+  }
+
+  // Draw a guide for every object the snapped position lines up with
+  const delta: number = best;
+  const snappedAnchors = anchors(target[start] + delta, target[size]);
+  const guides: GuideLine[] = [];
+  others.forEach(other => {
+    anchors(other[start], other[size]).forEach(otherAnchor => {
+      if (snappedAnchors.some(anchor => Math.abs(anchor - otherAnchor) < 0.5)) {
+        guides.push({
+          orientation: axis === 'x' ? 'vertical' : 'horizontal',
+          position: otherAnchor,
+          start: Math.min(target[crossStart], other[crossStart]),
+          end: Math.max(target[crossStart] + target[crossSize], other[crossStart] + other[crossSize])
+        });
+      }
+    });
+  });
+
+  return { delta, guides };
+}
+
+// Find the smallest offset that lines the target's edges or center up with another object's
+export function findGuideSnap(target: SnapRect, others: SnapRect[], threshold: number): GuideSnapResult {
+  const x = findAxisSnap(target, others, threshold, 'x');
+  const y = findAxisSnap(target, others, threshold, 'y');
+
+  return {
+    dx: x.delta,
+    dy: y.delta,
+    guides: [...x.guides, ...y.guides]
+  };
+}
@@ -5,8 +5,24 @@ export const CANVAS_CONFIG = {
   DEFAULT_HEIGHT: 600,
   BACKGROUND_COLOR: 'white',
   GRID_SIZE: 20,
+  SNAP_THRESHOLD: 6, // Screen pixels within which smart guides snap
+  HISTORY_LIMIT: 50,
+  PASTE_OFFSET: 10, // Canvas pixels each paste or duplicate is shifted by
+  MIN_SIZE: 50,
+  MAX_SIZE: 5000,
 } as const;
 
+// Document sizes offered when resizing the canvas; print sizes are at 96 DPI
+export const CANVAS_SIZE_PRESETS = [
+  { id: 'default', label: 'Default', width: 800, height: 600 },
+  { id: 'instagram-post', label: 'Instagram Post', width: 1080, height: 1080 },
+  { id: 'instagram-story', label: 'Instagram Story', width: 1080, height: 1920 },
+  { id: 'a4', label: 'A4 Portrait', width: 794, height: 1123 },
+  { id: 'us-letter', label: 'US Letter Portrait', width: 816, height: 1056 },
+  { id: 'slide', label: 'Presentation (16:9)', width: 1920, height: 1080 },
+  { id: 'twitter-header', label: 'Twitter Header', width: 1500, height: 500 },
+] as const;
+
 export const AI_CONFIG = {
   DEFAULT_MODEL: 'gpt-4',
   MAX_TOKENS: 500,
@@ -0,0 +1,163 @@
+// Binary assets (images, patterns and fonts) that designs embed as data URLs. On Walrus each
+// one is stored as its own file next to the design JSON in a quilt, and the design refers to
+// it with a `walrus-asset:` reference instead. Kept free of Fabric imports so the Walrus
+// client and API routes can use it.
+
+export const ASSET_REF_PREFIX = 'walrus-asset:';
+
+export interface DesignAsset {
+  // File name inside the design's quilt, derived from the content hash
+  identifier: string;
+  // Content hash, identical for identical files in any design
+  hash: string;
+  contentType: string;
+  bytes: Uint8Array;
+}
+
+// Where a wallet's copy of an asset lives on Walrus
+export interface StoredDesignAsset {
+  hash: string;
+  quiltId: string;
+  identifier: string;
+  contentType: string;
+  size: number;
+  // The quilt's Sui object and the epoch its storage ends; missing on copies recorded
+  // before expiry tracking
+  blobObjectId?: string;
+  expiryEpoch?: number;
+}
+
+// Fetches a referenced asset and returns it as a data URL
+export type AssetResolver = (ref: string) => Promise<string>;
+
+export type AssetHasher = (bytes: Uint8Array) => Promise<string>;
+
+// Properties that hold image sources: Image src, Pattern source and DesignFont source
+const SOURCE_KEYS = ['src', 'source'];
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'font/ttf': 'ttf',
+  'font/otf': 'otf',
+  'font/woff2': 'woff2',
+};
+
+let assetResolver: AssetResolver | null = null;
+
+export function isAssetRef(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(ASSET_REF_PREFIX);
+}
+
+// A reference is `walrus-asset:<identifier>` inside a stored design, and
+// `walrus-asset:<quiltId>/<identifier>` once the design has been read back
+export function parseAssetRef(ref: string): { quiltId: string | null; identifier: string } | null {
+  if (!isAssetRef(ref)) return null;
+  const path = ref.slice(ASSET_REF_PREFIX.length);
+  const slash = path.lastIndexOf('/');
+  return slash === -1
+    ? { quiltId: null, identifier: path }
+    : { quiltId: path.slice(0, slash), identifier: path.slice(slash + 1) };
+}
+
+export function dataUrlToBytes(dataUrl: string): { contentType: string; bytes: Uint8Array } | null {
+  const header = /^data:([^,]*?)(;base64)?,/.exec(dataUrl);
+  if (!header) return null;
+
+  const contentType = header[1].split(';')[0] || 'application/octet-stream';
+  const payload = dataUrl.slice(header[0].length);
+  try {
+    const bytes = header[2]
+      ? Uint8Array.from(atob(payload), char => char.charCodeAt(0))
+      : new TextEncoder().encode(decodeURIComponent(payload));
+    return { contentType, bytes };
+  } catch {
+    return null;
+  }
+}
+
+export function bytesToDataUrl(bytes: Uint8Array, contentType: string): string {
+  // Chunked so large images don't exceed the argument limit of fromCharCode
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return `data:${contentType};base64,${btoa(binary)}`;
+}
+
+// Copy of the design with every image/font source passed through map
+function mapAssetSources(value: any, map: (source: string) => string): any {
+  if (Array.isArray(value)) return value.map(item => mapAssetSources(item, map));
+  if (!value || typeof value !== 'object') return value;
+
+  const result: Record<string, any> = {};
+  Object.entries(value).forEach(([key, item]) => {
+    result[key] = SOURCE_KEYS.includes(key) && typeof item === 'string'
+      ? map(item)
+      : mapAssetSources(item, map);
+  });
+  return result;
+}
+
+export function getAssetRef(identifier: string, quiltId?: string): string {
+  return quiltId ? `${ASSET_REF_PREFIX}${quiltId}/${identifier}` : `${ASSET_REF_PREFIX}${identifier}`;
+}
+
+// Move embedded data URLs out of the design into separate assets named after their content
+// hash, so a file used by several objects, or saved again in another design, is one asset
+export async function extractDesignAssets(
+  designData: any,
+  hash: AssetHasher
+): Promise<{ designData: any; assets: DesignAsset[] }> {
+  const assets = new Map<string, DesignAsset>();
+  const refs = new Map<string, string>();
+  const sources = new Set<string>();
+  mapAssetSources(designData, source => {
+    if (source.startsWith('data:')) sources.add(source);
+    return source;
+  });
+
+  for (const source of sources) {
+    const parsed = dataUrlToBytes(source);
+    if (!parsed) continue;
+
+    const contentHash = await hash(parsed.bytes);
+    const identifier = `${contentHash}.${EXTENSIONS[parsed.contentType] || 'bin'}`;
+    if (!assets.has(identifier)) {
+      assets.set(identifier, { identifier, hash: contentHash, ...parsed });
+    }
+    refs.set(source, getAssetRef(identifier));
+  }
+
+  return {
+    designData: mapAssetSources(designData, source => refs.get(source) ?? source),
+    assets: Array.from(assets.values()),
+  };
+}
+
+// Point quilt-relative references at the quilt that holds them: a single quilt ID for all of
+// them, or a lookup by identifier (references it returns nothing for stay as they are)
+export function qualifyAssetRefs(designData: any, quilt: string | ((identifier: string) => string | undefined)): any {
+  return mapAssetSources(designData, source => {
+    const ref = parseAssetRef(source);
+    if (!ref || ref.quiltId) return source;
+
+    const quiltId = typeof quilt === 'string' ? quilt : quilt(ref.identifier);
+    return quiltId ? getAssetRef(ref.identifier, quiltId) : source;
+  });
+}
+
+// Assets are fetched on demand by whoever can reach Walrus, i.e. the Walrus client
+export function setAssetResolver(resolver: AssetResolver | null): void {
+  assetResolver = resolver;
+}
+
+export function resolveAssetRef(ref: string): Promise<string> {
+  if (!assetResolver) {
+    return Promise.reject(new Error(`No asset resolver available for ${ref}`));
+  }
+  return assetResolver(ref);
+}
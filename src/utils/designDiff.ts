@@ -0,0 +1,244 @@
+// Object-by-object comparison of two stored designs (documents or single-canvas JSON). Kept
+// free of Fabric imports; it works on the serialized objects only.
+import { normalizeDesignData, type DesignPage } from './designDocument';
+
+export type ObjectChange = 'moved' | 'resized' | 'rotated' | 'restyled' | 'edited';
+
+export interface DiffBounds {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface ObjectDiff {
+  status: 'added' | 'removed' | 'changed';
+  type: string;
+  label: string;
+  // Axis-aligned bounds on the page before and after the change
+  before?: DiffBounds;
+  after?: DiffBounds;
+  changes: ObjectChange[];
+  // Changed style and content properties, e.g. fill or text
+  properties: string[];
+}
+
+export interface PageDiff {
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  name: string;
+  beforeIndex: number | null;
+  afterIndex: number | null;
+  resized: boolean;
+  backgroundChanged: boolean;
+  objects: ObjectDiff[];
+}
+
+export interface DesignDiff {
+  pages: PageDiff[];
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+// Differences smaller than this (in pixels or degrees) are rounding, not edits
+const TOLERANCE = 0.5;
+
+const POSITION_KEYS = ['left', 'top'];
+const SIZE_KEYS = ['width', 'height', 'scaleX', 'scaleY'];
+// What the object shows rather than how it looks
+const CONTENT_KEYS = ['text', 'src', 'path', 'points', 'objects'];
+// Bookkeeping that doesn't change how the object renders
+const IGNORED_KEYS = ['id', 'name', 'version', 'selectable', 'evented', 'originX', 'originY', 'type', 'angle'];
+
+const ORIGIN_OFFSETS: Record<string, number> = { left: 0, top: 0, center: 0.5, right: 1, bottom: 1 };
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (typeof a === 'number' && typeof b === 'number') return Math.abs(a - b) < TOLERANCE;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function getScaledSize(object: any) {
+  return {
+    width: (object.width || 0) * Math.abs(object.scaleX ?? 1),
+    height: (object.height || 0) * Math.abs(object.scaleY ?? 1),
+  };
+}
+
+// Bounding box of the (possibly rotated) object; left/top is its origin point
+export function getObjectBounds(object: any): DiffBounds {
+  const { width, height } = getScaledSize(object);
+  const originX = ORIGIN_OFFSETS[object.originX] ?? 0;
+  const originY = ORIGIN_OFFSETS[object.originY] ?? 0;
+  const angle = ((object.angle || 0) * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+
+  const corners = [[0, 0], [width, 0], [width, height], [0, height]].map(([x, y]) => {
+    const dx = x - originX * width;
+    const dy = y - originY * height;
+    return [(object.left || 0) + dx * cos - dy * sin, (object.top || 0) + dx * sin + dy * cos];
+  });
+  const xs = corners.map(([x]) => x);
+  const ys = corners.map(([, y]) => y);
+  const left = Math.min(...xs);
+  const top = Math.min(...ys);
+  return { left, top, width: Math.max(...xs) - left, height: Math.max(...ys) - top };
+}
+
+function getObjectLabel(object: any): string {
+  if (object.name) return object.name;
+  if (typeof object.text === 'string' && object.text.trim()) {
+    const text = object.text.trim().replace(/\s+/g, ' ');
+    return `"${text.length > 24 ? `${text.slice(0, 24)}…` : text}"`;
+  }
+  return object.type || 'object';
+}
+
+// What an object shows, for pairing objects of designs saved before objects had ids
+function getContentSignature(object: any): string {
+  return JSON.stringify([object.type, object.text, object.src, object.path, object.points]);
+}
+
+// Pair the objects of two versions of a page: by id, then by type and content, then by type in
+// stacking order. Returns the pairs and the objects left over on either side.
+function matchObjects(before: any[], after: any[]) {
+  const pairs: [any, any][] = [];
+  const remainingBefore = new Set(before);
+  const remainingAfter = new Set(after);
+
+  const pairBy = (key: (object: any) => string | undefined) => {
+    const candidates = new Map<string, any[]>();
+    remainingAfter.forEach(object => {
+      const value = key(object);
+      if (value === undefined) return;
+      candidates.set(value, [...(candidates.get(value) || []), object]);
+    });
+    remainingBefore.forEach(object => {
+      const value = key(object);
+      const match = value === undefined ? undefined : candidates.get(value)?.shift();
+      if (!match) return;
+      pairs.push([object, match]);
+      remainingBefore.delete(object);
+      remainingAfter.delete(match);
+    });
+  };
+
+  pairBy(object => (object.id ? String(object.id) : undefined));
+  // Objects without ids only pair with each other
+  pairBy(object => (object.id ? undefined : getContentSignature(object)));
+  pairBy(object => (object.id ? undefined : object.type));
+
+  return { pairs, removed: Array.from(remainingBefore), added: Array.from(remainingAfter) };
+}
+
+export function diffObjects(before: any, after: any): ObjectDiff | null {
+  const changes = new Set<ObjectChange>();
+  const properties: string[] = [];
+  const beforeBounds = getObjectBounds(before);
+  const afterBounds = getObjectBounds(after);
+
+  if (POSITION_KEYS.some(key => !isSameValue(before[key], after[key]))) {
+    changes.add('moved');
+  }
+  const beforeSize = getScaledSize(before);
+  const afterSize = getScaledSize(after);
+  if (!isSameValue(beforeSize.width, afterSize.width) || !isSameValue(beforeSize.height, afterSize.height)) {
+    changes.add('resized');
+  }
+  if (!isSameValue(before.angle || 0, after.angle || 0)) {
+    changes.add('rotated');
+  }
+
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  keys.forEach(key => {
+    if (IGNORED_KEYS.includes(key) || POSITION_KEYS.includes(key) || SIZE_KEYS.includes(key)) return;
+    if (isSameValue(before[key], after[key])) return;
+
+    changes.add(CONTENT_KEYS.includes(key) ? 'edited' : 'restyled');
+    properties.push(key);
+  });
+
+  if (changes.size === 0) return null;
+  return {
+    status: 'changed',
+    type: after.type || 'object',
+    label: getObjectLabel(after),
+    before: beforeBounds,
+    after: afterBounds,
+    changes: Array.from(changes),
+    properties,
+  };
+}
+
+function diffPages(before: DesignPage | null, after: DesignPage | null, beforeIndex: number | null, afterIndex: number | null): PageDiff {
+  const beforeObjects: any[] = before?.canvasData?.objects || [];
+  const afterObjects: any[] = after?.canvasData?.objects || [];
+  const { pairs, removed, added } = matchObjects(beforeObjects, afterObjects);
+
+  const objects: ObjectDiff[] = [
+    ...removed.map(object => ({
+      status: 'removed' as const,
+      type: object.type || 'object',
+      label: getObjectLabel(object),
+      before: getObjectBounds(object),
+      changes: [],
+      properties: [],
+    })),
+    ...pairs.map(([a, b]) => diffObjects(a, b)).filter((diff): diff is ObjectDiff => diff !== null),
+    ...added.map(object => ({
+      status: 'added' as const,
+      type: object.type || 'object',
+      label: getObjectLabel(object),
+      after: getObjectBounds(object),
+      changes: [],
+      properties: [],
+    })),
+  ];
+
+  const resized = !!before && !!after && (before.width !== after.width || before.height !== after.height);
+  const backgroundChanged = !!before && !!after && !isSameValue(
+    before.canvasData?.background ?? before.background,
+    after.canvasData?.background ?? after.background
+  );
+
+  return {
+    status: !before ? 'added' : !after ? 'removed' : objects.length > 0 || resized || backgroundChanged ? 'changed' : 'unchanged',
+    name: (after || before)?.name || 'Page',
+    beforeIndex,
+    afterIndex,
+    resized,
+    backgroundChanged,
+    objects,
+  };
+}
+
+export function diffDesigns(before: any, after: any): DesignDiff {
+  const beforePages = normalizeDesignData(before).pages;
+  const afterPages = normalizeDesignData(after).pages;
+
+  // Pages pair by id; single-canvas JSON gets new page ids every time, so the rest pair in order
+  const afterById = new Map(afterPages.map((page, index) => [page.id, index]));
+  const pairedAfter = new Set<number>();
+  const pairs: [number | null, number | null][] = beforePages.map((page, index) => {
+    const match = afterById.get(page.id);
+    if (match === undefined) return [index, null];
+    pairedAfter.add(match);
+    return [index, match];
+  });
+  const unpairedAfter = afterPages.map((_, index) => index).filter(index => !pairedAfter.has(index));
+  pairs.forEach(pair => {
+    if (pair[1] === null && unpairedAfter.length > 0) pair[1] = unpairedAfter.shift()!;
+  });
+  unpairedAfter.forEach(index => pairs.push([null, index]));
+
+  const pages = pairs.map(([beforeIndex, afterIndex]) => diffPages(
+    beforeIndex === null ? null : beforePages[beforeIndex],
+    afterIndex === null ? null : afterPages[afterIndex],
+    beforeIndex,
+    afterIndex
+  ));
+
+  const count = (status: ObjectDiff['status']) =>
+    pages.reduce((total, page) => total + page.objects.filter(object => object.status === status).length, 0);
+  return { pages, added: count('added'), removed: count('removed'), changed: count('changed') };
+}
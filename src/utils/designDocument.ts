@@ -0,0 +1,129 @@
+// Multi-page design document format shared by the editor, Walrus blobs and MongoDB records.
+// Kept free of Fabric imports so API routes can use it on the server.
+import { CANVAS_CONFIG } from './constants';
+import { generateId } from './helpers';
+
+export const DESIGN_DOCUMENT_FORMAT = 'walrus-canvas/document';
+export const DESIGN_DOCUMENT_VERSION = 1;
+
+export interface DesignPage {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  background: string;
+  // Fabric canvas JSON for the page's objects
+  canvasData: any;
+  // Editor-only preview image; stripped when the document is saved
+  thumbnail?: string;
+}
+
+// An uploaded font used by the design, stored with it so the design renders the same anywhere
+export interface DesignFont {
+  family: string;
+  // Font file as a data URL
+  source: string;
+  category?: string;
+}
+
+export interface DesignDocument {
+  format: typeof DESIGN_DOCUMENT_FORMAT;
+  version: number;
+  pages: DesignPage[];
+  fonts?: DesignFont[];
+}
+
+export interface DesignSummary {
+  canvasSize: { width: number; height: number };
+  elementCount: number;
+  pageCount: number;
+}
+
+export function createPage(options: Partial<Omit<DesignPage, 'id'>> = {}): DesignPage {
+  const background = options.background || CANVAS_CONFIG.BACKGROUND_COLOR;
+  return {
+    id: generateId(),
+    name: options.name || 'Page 1',
+    width: options.width || CANVAS_CONFIG.DEFAULT_WIDTH,
+    height: options.height || CANVAS_CONFIG.DEFAULT_HEIGHT,
+    background,
+    canvasData: options.canvasData || { objects: [], background },
+  };
+}
+
+export function isDesignDocument(data: any): data is DesignDocument {
+  return Boolean(data) && typeof data === 'object' && Array.isArray(data.pages);
+}
+
+// Accept both multi-page documents and designs saved as a single canvas toJSON()
+export function normalizeDesignData(data: any): DesignDocument {
+  if (isDesignDocument(data) && data.pages.length > 0) {
+    return {
+      format: DESIGN_DOCUMENT_FORMAT,
+      version: data.version || DESIGN_DOCUMENT_VERSION,
+      pages: data.pages.map((page, index) => ({
+        ...createPage({ name: `Page ${index + 1}` }),
+        ...page,
+        id: page.id || generateId(),
+      })),
+      ...(Array.isArray(data.fonts) && data.fonts.length > 0 ? { fonts: data.fonts } : {}),
+    };
+  }
+
+  const canvasData = data && typeof data === 'object' ? data : { objects: [] };
+  return {
+    format: DESIGN_DOCUMENT_FORMAT,
+    version: DESIGN_DOCUMENT_VERSION,
+    pages: [createPage({
+      width: canvasData.width,
+      height: canvasData.height,
+      background: typeof canvasData.background === 'string' ? canvasData.background : undefined,
+      canvasData,
+    })],
+  };
+}
+
+export function createDesignDocument(pages: DesignPage[], fonts: DesignFont[] = []): DesignDocument {
+  return {
+    format: DESIGN_DOCUMENT_FORMAT,
+    version: DESIGN_DOCUMENT_VERSION,
+    // Thumbnails are regenerated on load, so they aren't worth storing
+    pages: pages.map(page => {
+      const stored = { ...page };
+      delete stored.thumbnail;
+      return stored;
+    }),
+    ...(fonts.length > 0 ? { fonts } : {}),
+  };
+}
+
+// Every font family used by text on the pages, including per-character fonts
+export function getDesignFontFamilies(pages: DesignPage[]): string[] {
+  const families = new Set<string>();
+  const collect = (objects: any[] = []) => {
+    objects.forEach(object => {
+      if (!object || typeof object !== 'object') return;
+      if (typeof object.fontFamily === 'string') families.add(object.fontFamily);
+      // Fabric saves styles as [{ start, end, style }], older JSON as { line: { char: style } }
+      const styles: any[] = Array.isArray(object.styles)
+        ? object.styles.map((range: any) => range?.style)
+        : Object.values(object.styles || {}).flatMap((line: any) => Object.values(line || {}));
+      styles.forEach(style => {
+        if (typeof style?.fontFamily === 'string') families.add(style.fontFamily);
+      });
+      collect(object.objects);
+    });
+  };
+  pages.forEach(page => collect(page.canvasData?.objects));
+  return Array.from(families);
+}
+
+// Size of the first page plus totals across pages, for listings and database metadata
+export function getDesignSummary(data: any): DesignSummary {
+  const { pages } = normalizeDesignData(data);
+  return {
+    canvasSize: { width: pages[0].width, height: pages[0].height },
+    elementCount: pages.reduce((count, page) => count + (page.canvasData?.objects?.length || 0), 0),
+    pageCount: pages.length,
+  };
+}
@@ -1,62 +1,94 @@
 // Font loading utility for Fabric.js
 import { fabric } from '@/lib/fabric';
+import { hasTextSelection } from '@/lib/typography';
+import { readFileAsDataURL } from './helpers';
+import { isAssetRef, resolveAssetRef } from './designAssets';
+import type { DesignFont } from './designDocument';
+
+export type FontCategory = 'sans-serif' | 'serif' | 'monospace' | 'display' | 'handwriting';
 
 export interface FontInfo {
   name: string;
   displayName: string;
   url: string;
   fallback: string;
+  category: FontCategory;
+  // Uploaded by a user; url is a data URL that travels with the designs using it
+  custom?: boolean;
 }
 
+export const FONT_CATEGORIES: { value: FontCategory; label: string }[] = [
+  { value: 'sans-serif', label: 'Sans Serif' },
+  { value: 'serif', label: 'Serif' },
+  { value: 'monospace', label: 'Monospace' },
+  { value: 'display', label: 'Display' },
+  { value: 'handwriting', label: 'Handwriting' }
+];
+
+// File types accepted for upload, by extension, with the MIME type their data URLs get
+export const CUSTOM_FONT_TYPES: Record<string, string> = {
+  ttf: 'font/ttf',
+  otf: 'font/otf',
+  woff2: 'font/woff2'
+};
+
 // Define available fonts with their URLs
 export const AVAILABLE_FONTS: FontInfo[] = [
   {
     name: 'Arial',
     displayName: 'Arial',
     url: '/fonts/arial.woff2',
-    fallback: 'Arial, sans-serif'
+    fallback: 'Arial, sans-serif',
+    category: 'sans-serif'
   },
   {
     name: 'Helvetica',
     displayName: 'Helvetica',
     url: '/fonts/helvetica.woff2',
-    fallback: 'Helvetica, sans-serif'
+    fallback: 'Helvetica, sans-serif',
+    category: 'sans-serif'
   },
   {
     name: 'Times New Roman',
     displayName: 'Times New Roman',
     url: '/fonts/times-new-roman.woff2',
-    fallback: 'Times New Roman, serif'
+    fallback: 'Times New Roman, serif',
+    category: 'serif'
   },
   {
     name: 'Georgia',
     displayName: 'Georgia',
     url: '/fonts/georgia.woff2',
-    fallback: 'Georgia, serif'
+    fallback: 'Georgia, serif',
+    category: 'serif'
   },
   {
     name: 'Verdana',
     displayName: 'Verdana',
     url: '/fonts/verdana.woff2',
-    fallback: 'Verdana, sans-serif'
+    fallback: 'Verdana, sans-serif',
+    category: 'sans-serif'
   },
   {
     name: 'Courier New',
     displayName: 'Courier New',
     url: '/fonts/courier-new.woff2',
-    fallback: 'Courier New, monospace'
+    fallback: 'Courier New, monospace',
+    category: 'monospace'
   },
   {
     name: 'Impact',
     displayName: 'Impact',
     url: '/fonts/impact.woff2',
-    fallback: 'Impact, sans-serif'
+    fallback: 'Impact, sans-serif',
+    category: 'display'
   },
   {
     name: 'Comic Sans MS',
     displayName: 'Comic Sans MS',
     url: '/fonts/comic-sans-ms.woff2',
-    fallback: 'Comic Sans MS, cursive'
+    fallback: 'Comic Sans MS, cursive',
+    category: 'handwriting'
   }
 ];
 
@@ -64,6 +96,10 @@ export const AVAILABLE_FONTS: FontInfo[] = [
 const loadedFonts = new Set<string>();
 const loadingFonts = new Set<string>();
 
+// Uploaded fonts and fonts registered from loaded designs, by family name
+const customFonts = new Map<string, FontInfo>();
+const fontListeners = new Set<() => void>();
+
 // Load a single font
 export const loadFont = async (fontInfo: FontInfo): Promise<boolean> => {
   const { name, url, fallback } = fontInfo;
@@ -130,9 +166,110 @@ export const isFontLoaded = (fontName: string): boolean => {
   return loadedFonts.has(fontName);
 };
 
+// Built-in fonts followed by custom ones
+export const getAvailableFonts = (): FontInfo[] => {
+  return [...AVAILABLE_FONTS, ...Array.from(customFonts.values())];
+};
+
 // Get font info by name
 export const getFontInfo = (fontName: string): FontInfo | undefined => {
-  return AVAILABLE_FONTS.find(font => font.name === fontName);
+  return AVAILABLE_FONTS.find(font => font.name === fontName) || customFonts.get(fontName);
+};
+
+// Notify when custom fonts are added; returns an unsubscribe function
+export const subscribeToFonts = (listener: () => void): (() => void) => {
+  fontListeners.add(listener);
+  return () => {
+    fontListeners.delete(listener);
+  };
+};
+
+// Register a custom font and load it through loadFont. A family that is already
+// registered keeps its first font, since text refers to fonts by family name only.
+export const registerCustomFont = async (font: DesignFont): Promise<boolean> => {
+  const existing = getFontInfo(font.family);
+  if (existing) {
+    return loadFont(existing);
+  }
+
+  const category = FONT_CATEGORIES.some(option => option.value === font.category)
+    ? font.category as FontCategory
+    : 'sans-serif';
+  // Fonts of designs stored as Walrus quilts are asset references
+  let url = font.source;
+  if (isAssetRef(url)) {
+    try {
+      url = await resolveAssetRef(url);
+    } catch (error) {
+      console.warn(`Failed to fetch font ${font.family}:`, error);
+      return false;
+    }
+  }
+
+  const fontInfo: FontInfo = {
+    name: font.family,
+    displayName: font.family,
+    url,
+    fallback: category === 'serif' || category === 'monospace' ? category : 'sans-serif',
+    category,
+    custom: true
+  };
+  customFonts.set(font.family, fontInfo);
+
+  const loaded = await loadFont(fontInfo);
+  // Text measured before the font arrived would keep the fallback's widths
+  fabric.util.clearFabricFontCache(font.family);
+  fontListeners.forEach(listener => listener());
+  return loaded;
+};
+
+// Fonts stored with a design must be registered before its text is laid out
+export const registerDesignFonts = async (fonts: DesignFont[] = []): Promise<void> => {
+  await Promise.allSettled(fonts.map(font => registerCustomFont(font)));
+};
+
+// The custom fonts among the given families, in the form stored with a design
+export const getDesignFonts = (families: string[]): DesignFont[] => {
+  return families.flatMap(family => {
+    const fontInfo = customFonts.get(family);
+    return fontInfo ? [{ family, source: fontInfo.url, category: fontInfo.category }] : [];
+  });
+};
+
+// Check the file's signature so a renamed non-font is rejected before it is registered
+const isFontData = (bytes: Uint8Array): boolean => {
+  const signature = String.fromCharCode(...Array.from(bytes.subarray(0, 4)));
+  return signature === '\0\x01\0\0' || signature === 'true' || signature === 'OTTO' || signature === 'wOF2';
+};
+
+// Register an uploaded TTF, OTF or WOFF2 file, named after the file. Throws with a
+// message suitable for showing to the user when the file can't be used.
+export const uploadCustomFont = async (file: File, category: FontCategory = 'sans-serif'): Promise<FontInfo> => {
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  const mimeType = CUSTOM_FONT_TYPES[extension];
+  if (!mimeType) {
+    throw new Error('Please choose a TTF, OTF or WOFF2 font file.');
+  }
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (!isFontData(bytes)) {
+    throw new Error(`${file.name} is not a valid font file.`);
+  }
+
+  // Family names must not clash with another font, or designs would pick the wrong one
+  const baseName = file.name.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' ').trim() || 'Custom Font';
+  let family = baseName;
+  for (let i = 2; getFontInfo(family); i++) {
+    family = `${baseName} ${i}`;
+  }
+
+  const dataUrl = await readFileAsDataURL(file);
+  const source = `data:${mimeType};base64,${dataUrl.slice(dataUrl.indexOf(',') + 1)}`;
+  const loaded = await registerCustomFont({ family, source, category });
+  if (!loaded) {
+    throw new Error(`Could not load ${file.name}.`);
+  }
+  return getFontInfo(family)!;
 };
 
 // Safe font family update for Fabric.js objects
@@ -161,8 +298,14 @@ export const updateTextFontFamily = async (
       fabric.util.clearFabricFontCache();
     }
     
-    // Update the text object
-    textObject.set({ fontFamily: fontName });
+    // While editing with characters selected only those change; otherwise the whole text
+    // does, replacing any per-character fonts
+    if (hasTextSelection(textObject)) {
+      textObject.setSelectionStyles({ fontFamily: fontName }, textObject.selectionStart, textObject.selectionEnd);
+    } else {
+      textObject.set({ fontFamily: fontName });
+      (textObject as any).removeStyle('fontFamily');
+    }
     
     // Recalculate dimensions
     textObject.setCoords();
@@ -124,6 +124,15 @@ export function loadImageFromUrl(url: string): Promise<HTMLImageElement> {
   });
 }
 
+export function readFileAsDataURL(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
 export function validateCanvasData(data: any): boolean {
   try {
     // Basic validation for canvas data structure
@@ -0,0 +1,142 @@
+// Central registry of editor keyboard shortcuts.
+// Handlers are bound by the editor; the cheat-sheet overlay is generated from this list.
+
+export type ShortcutCategory = 'Tools' | 'Edit' | 'Arrange' | 'View' | 'File';
+
+export type ShortcutId =
+  | 'tool.select'
+  | 'tool.rectangle'
+  | 'tool.circle'
+  | 'tool.text'
+  | 'tool.pencil'
+  | 'tool.pen'
+  | 'tool.nodes'
+  | 'edit.undo'
+  | 'edit.redo'
+  | 'edit.copy'
+  | 'edit.cut'
+  | 'edit.paste'
+  | 'edit.duplicate'
+  | 'edit.delete'
+  | 'edit.selectAll'
+  | 'edit.finishPath'
+  | 'edit.cancel'
+  | 'arrange.nudgeLeft'
+  | 'arrange.nudgeRight'
+  | 'arrange.nudgeUp'
+  | 'arrange.nudgeDown'
+  | 'arrange.group'
+  | 'arrange.ungroup'
+  | 'view.zoomIn'
+  | 'view.zoomOut'
+  | 'view.zoomReset'
+  | 'view.shortcuts'
+  | 'file.save';
+
+export interface ShortcutDefinition {
+  id: ShortcutId;
+  // Key combos such as 'mod+shift+z'; 'mod' is Cmd on macOS and Ctrl elsewhere
+  keys: string[];
+  description: string;
+  category: ShortcutCategory;
+  // Also fire while typing in a text box or form field
+  allowWhileEditing?: boolean;
+}
+
+// Handlers return false when they didn't act, letting the keystroke fall through
+export type ShortcutHandler = (e: KeyboardEvent) => void | boolean;
+
+export type ShortcutHandlers = Partial<Record<ShortcutId, ShortcutHandler>>;
+
+export const NUDGE_STEP = 1;
+export const NUDGE_STEP_LARGE = 10;
+
+export const SHORTCUTS: ShortcutDefinition[] = [
+  { id: 'tool.select', keys: ['v'], description: 'Select tool', category: 'Tools' },
+  { id: 'tool.rectangle', keys: ['r'], description: 'Rectangle tool', category: 'Tools' },
+  { id: 'tool.circle', keys: ['o'], description: 'Circle tool', category: 'Tools' },
+  { id: 'tool.text', keys: ['t'], description: 'Text tool', category: 'Tools' },
+  { id: 'tool.pencil', keys: ['p'], description: 'Pencil tool', category: 'Tools' },
+  { id: 'tool.pen', keys: ['shift+p'], description: 'Pen tool', category: 'Tools' },
+  { id: 'tool.nodes', keys: ['n'], description: 'Edit path nodes', category: 'Tools' },
+
+  { id: 'edit.undo', keys: ['mod+z'], description: 'Undo', category: 'Edit' },
+  { id: 'edit.redo', keys: ['mod+shift+z', 'mod+y'], description: 'Redo', category: 'Edit' },
+  { id: 'edit.copy', keys: ['mod+c'], description: 'Copy', category: 'Edit' },
+  { id: 'edit.cut', keys: ['mod+x'], description: 'Cut', category: 'Edit' },
+  { id: 'edit.paste', keys: ['mod+v'], description: 'Paste', category: 'Edit' },
+  { id: 'edit.duplicate', keys: ['mod+d'], description: 'Duplicate', category: 'Edit' },
+  { id: 'edit.delete', keys: ['delete', 'backspace'], description: 'Delete selection or path node', category: 'Edit' },
+  { id: 'edit.selectAll', keys: ['mod+a'], description: 'Select all', category: 'Edit' },
+  { id: 'edit.finishPath', keys: ['enter'], description: 'Finish pen path or apply crop', category: 'Edit' },
+  { id: 'edit.cancel', keys: ['escape'], description: 'Cancel path or crop, or deselect', category: 'Edit' },
+
+  { id: 'arrange.nudgeLeft', keys: ['arrowleft', 'shift+arrowleft'], description: 'Nudge left (Shift: 10px)', category: 'Arrange' },
+  { id: 'arrange.nudgeRight', keys: ['arrowright', 'shift+arrowright'], description: 'Nudge right (Shift: 10px)', category: 'Arrange' },
+  { id: 'arrange.nudgeUp', keys: ['arrowup', 'shift+arrowup'], description: 'Nudge up (Shift: 10px)', category: 'Arrange' },
+  { id: 'arrange.nudgeDown', keys: ['arrowdown', 'shift+arrowdown'], description: 'Nudge down (Shift: 10px)', category: 'Arrange' },
+  { id: 'arrange.group', keys: ['mod+g'], description: 'Group selection', category: 'Arrange' },
+  { id: 'arrange.ungroup', keys: ['mod+shift+g'], description: 'Ungroup', category: 'Arrange' },
+
+  { id: 'view.zoomIn', keys: ['mod+=', 'mod++'], description: 'Zoom in', category: 'View' },
+  { id: 'view.zoomOut', keys: ['mod+-'], description: 'Zoom out', category: 'View' },
+  { id: 'view.zoomReset', keys: ['mod+0'], description: 'Reset zoom', category: 'View' },
+  { id: 'view.shortcuts', keys: ['?'], description: 'Show keyboard shortcuts', category: 'View' },
+
+  { id: 'file.save', keys: ['mod+s'], description: 'Save design', category: 'File', allowWhileEditing: true },
+];
+
+export const SHORTCUT_CATEGORIES: ShortcutCategory[] = ['Tools', 'Edit', 'Arrange', 'View', 'File'];
+
+const isMac = () => typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+// Keys that already imply Shift on most layouts, so the Shift state is ignored for them
+const SHIFTED_KEYS = ['?', '+'];
+
+export function matchesShortcut(e: KeyboardEvent, combo: string): boolean {
+  const parts = combo.split('+');
+  // 'mod++' splits into ['mod', '', ''] — the key itself is '+'
+  const key = parts[parts.length - 1] === '' ? '+' : parts[parts.length - 1];
+  const modifiers = new Set(parts.slice(0, -1).filter(Boolean));
+
+  const wantsMod = modifiers.has('mod');
+  const hasMod = isMac() ? e.metaKey : e.ctrlKey;
+  if (wantsMod !== hasMod || e.altKey) return false;
+  if (!SHIFTED_KEYS.includes(key) && modifiers.has('shift') !== e.shiftKey) return false;
+
+  return e.key.toLowerCase() === key;
+}
+
+const KEY_LABELS: Record<string, string> = {
+  arrowleft: '←',
+  arrowright: '→',
+  arrowup: '↑',
+  arrowdown: '↓',
+  escape: 'Esc',
+  delete: 'Del',
+  backspace: '⌫',
+  enter: 'Enter',
+};
+
+// Human-readable label for a combo, e.g. 'mod+shift+z' → 'Ctrl+Shift+Z' (or '⌘⇧Z' on macOS)
+export function formatShortcut(combo: string): string {
+  const parts = combo.split('+');
+  const key = parts[parts.length - 1] === '' ? '+' : parts[parts.length - 1];
+  const modifiers = parts.slice(0, -1).filter(Boolean);
+  const mac = isMac();
+
+  const labels = modifiers.map(modifier => {
+    if (modifier === 'mod') return mac ? '⌘' : 'Ctrl';
+    if (modifier === 'shift') return mac ? '⇧' : 'Shift';
+    return modifier;
+  });
+  labels.push(KEY_LABELS[key] || key.toUpperCase());
+
+  return labels.join(mac ? '' : '+');
+}
+
+// Form fields (and Fabric's hidden textarea while a text box is edited) keep their own keystrokes
+export function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}